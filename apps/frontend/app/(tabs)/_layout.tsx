@@ -136,6 +136,13 @@ export default function TabLayout() {
           tabBarIcon: ({ color }) => <TabBarIcon name="history" color={color} />,
         }}
       />
+      <Tabs.Screen
+        name="what-if"
+        options={{
+          title: 'What If',
+          tabBarIcon: ({ color }) => <TabBarIcon name="flask" color={color} />,
+        }}
+      />
       <Tabs.Screen
         name="profile"
         options={{
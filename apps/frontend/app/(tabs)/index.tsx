@@ -1,7 +1,7 @@
 import { StyleSheet, ScrollView, TouchableOpacity, Pressable, Modal, Alert, Platform } from 'react-native';
 import { useRouter } from 'expo-router';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 
 import { Text, View } from '@/components/Themed';
 import { useAuth } from '@/context/AuthContext';
@@ -22,7 +22,7 @@ import {
   DELETION_STATUS,
 } from '@journey-to-citizen/types';
 import {
-  calculateProjection,
+  calculateResidencyObligation,
   parseDate,
 } from '@journey-to-citizen/calculations';
 
@@ -52,8 +52,8 @@ export default function TabOneScreen() {
   // Get display name or fallback to email
   const displayName = userProfile?.displayName || user?.email?.split('@')[0] || 'User';
 
-  // Get backend-calculated eligibility
-  const eligibility = getEligibility(userProfile);
+  // Eligibility for PR users and projection for everyone else (from statusHistory)
+  const eligibility = useMemo(() => getEligibility(userProfile), [userProfile]);
   const upcomingTrips = getUpcomingTrips(userProfile);
 
   // Get current status info using helper functions
@@ -62,17 +62,21 @@ export default function TabOneScreen() {
   const userHasCountableDays = hasCountableDays(userProfile);
   
   // Check if profile is complete enough to show calculations
-  // Now includes non-PR users with countable days
-  const hasCompleteProfile = userProfile?.prDate != null;
+  // Includes non-PR users with countable days
+  const hasCompleteProfile = eligibility.hasPR || userHasCountableDays;
   const hasStatusHistory = userProfile?.statusHistory && userProfile.statusHistory.length > 0;
   
-  // Use shared calculation package for non-PR projection
-  const projection = calculateProjection(userProfile || {});
+  // Non-PR projection (same calculation as the eligibility result)
+  const projection = eligibility.projection;
   const daysInCanada = projection.totalCountableDays;
   const absenceDaysDeducted = projection.absenceDaysDeducted;
   const grossDaysInCanada = projection.grossDays;
   const projectedCredit = projection.projectedCredit;
-  const projectedEarliestDate = parseDate(projection.projectedEarliestDate);
+  const projectedEarliestDate = projection.projectedEarliestDate ? parseDate(projection.projectedEarliestDate) : null;
+
+  // PR residency obligation (730 days in 5 years) - null until PR
+  // Builds about 10 years of ledger days, so only when the profile changes
+  const residency = useMemo(() => calculateResidencyObligation(userProfile || {}), [userProfile]);
 
   // Handle info modal
   const showInfoModal = (title: string, description: string) => {
@@ -170,16 +174,31 @@ export default function TabOneScreen() {
               <Text style={styles.statusMessage}>
                 Congratulations! You've met the residency requirement for Canadian citizenship.
               </Text>
+            ) : eligibility.meetsPresenceRequirement ? (
+              <Text style={styles.statusMessage}>
+                You've met the physical presence requirement. Record at least{' '}
+                {eligibility.taxYearsRequired} filed tax years in the 5-year window to complete your
+                eligibility ({eligibility.taxYearsFiled} of {eligibility.taxYearsRequired} recorded).
+              </Text>
             ) : (
               <View>
-                <Text style={styles.statusMessage}>
-                  Keep building your days in Canada for Canadian citizenship. You're on track!
-                </Text>
-                <Text style={styles.earliestDate}>
-                  Earliest application date: <Text style={styles.dateHighlight}>
-                    {formatDate(eligibility.earliestApplicationDate)}
+                {eligibility.earliestApplicationDate ? (
+                  <>
+                    <Text style={styles.statusMessage}>
+                      Keep building your days in Canada for Canadian citizenship. You're on track!
+                    </Text>
+                    <Text style={styles.earliestDate}>
+                      Earliest application date: <Text style={styles.dateHighlight}>
+                        {formatDate(eligibility.earliestApplicationDate)}
+                      </Text>
+                    </Text>
+                  </>
+                ) : (
+                  <Text style={styles.statusMessage}>
+                    With your current timeline you won't reach the required days (for example, because of a
+                    sentence, probation or parole period). Check your timeline for dates that need updating.
                   </Text>
-                </Text>
+                )}
               </View>
             )}
           </Pressable>
@@ -197,6 +216,22 @@ export default function TabOneScreen() {
               <Text style={styles.processText}>
                 • Calculation uses a rolling 5-year window from application date
               </Text>
+              <Text style={styles.processText}>
+                • File income taxes for at least {eligibility.taxYearsRequired} of the 5 tax years in the window{' '}
+                {eligibility.meetsTaxRequirement ? '✓' : `(${eligibility.taxYearsFiled}/${eligibility.taxYearsRequired} recorded)`}
+              </Text>
+              {!eligibility.meetsTaxRequirement && (
+                <TouchableOpacity
+                  onPress={() => {
+                    trackDashboardClick('record_tax_years_link', {
+                      tax_years_filed: eligibility.taxYearsFiled,
+                    });
+                    router.push('/(tabs)/profile' as any);
+                  }}
+                >
+                  <Text style={styles.processLink}>Record filed tax years in your profile →</Text>
+                </TouchableOpacity>
+              )}
             </View>
           )}
 
@@ -301,6 +336,7 @@ export default function TabOneScreen() {
               days_as_pr: eligibility.daysInCanadaAsPR,
               pre_pr_credit: eligibility.preDaysCredit,
               absence_days: eligibility.totalAbsenceDays,
+              non_countable_days: eligibility.nonCountableDays,
               total_eligible: eligibility.totalEligibleDays,
             })}
           >
@@ -319,6 +355,12 @@ export default function TabOneScreen() {
               <Text style={styles.calculationLabel}>- Absence days:</Text>
               <Text style={styles.calculationValue}>-{eligibility.totalAbsenceDays}</Text>
             </View>
+            {!!eligibility.nonCountableDays && (
+              <View style={styles.calculationRow}>
+                <Text style={styles.calculationLabel}>- Sentence/probation/parole days:</Text>
+                <Text style={styles.calculationValue}>-{eligibility.nonCountableDays}</Text>
+              </View>
+            )}
             <View style={styles.calculationDivider} />
             <View style={styles.calculationRow}>
               <Text style={styles.calculationLabelBold}>Total eligible days:</Text>
@@ -328,8 +370,88 @@ export default function TabOneScreen() {
             <Text style={styles.calculationNote}>
               Note: Departure and return days count as present in Canada.
             </Text>
+
+            <TouchableOpacity 
+              style={styles.explainLink}
+              onPress={() => {
+                trackDashboardClick('why_this_date_link', {
+                  total_eligible: eligibility.totalEligibleDays,
+                });
+                router.push('/eligibility-explanation' as any);
+              }}
+            >
+              <FontAwesome name="question-circle" size={14} color="#3b82f6" />
+              <Text style={styles.explainLinkText}>Why this date? See the step-by-step breakdown</Text>
+              <FontAwesome name="chevron-right" size={12} color="#3b82f6" />
+            </TouchableOpacity>
+
+            <TouchableOpacity 
+              style={styles.explainLink}
+              onPress={() => {
+                trackDashboardClick('presence_by_year_link');
+                router.push('/statistics' as any);
+              }}
+            >
+              <FontAwesome name="bar-chart" size={14} color="#3b82f6" />
+              <Text style={styles.explainLinkText}>See your presence by calendar and tax year</Text>
+              <FontAwesome name="chevron-right" size={12} color="#3b82f6" />
+            </TouchableOpacity>
           </Pressable>
 
+          {/* PR Residency Obligation */}
+          {residency && (
+            <Pressable
+              style={[
+                styles.residencyCard,
+                residency.isCompliant ? styles.residencyCardCompliant : styles.residencyCardAtRisk,
+                { cursor: 'auto' },
+              ]}
+              onPress={() => trackDashboardClick('residency_obligation_card', {
+                is_compliant: residency.isCompliant,
+                days_present: residency.daysPresent,
+                margin_days: residency.marginDays,
+              })}
+            >
+              <View style={styles.residencyHeader}>
+                <FontAwesome
+                  name={residency.isCompliant ? 'shield' : 'exclamation-triangle'}
+                  size={18}
+                  color={residency.isCompliant ? '#10b981' : '#ef4444'}
+                />
+                <Text style={styles.residencyTitle}>PR Residency Obligation</Text>
+                <TouchableOpacity
+                  onPress={() => showInfoModal(
+                    'PR Residency Obligation',
+                    'To keep your PR status, you must be physically present in Canada for at least 730 days (2 years) in every 5-year period. During your first 5 years as a PR, the period starts on your landing date and you are compliant as long as you can still reach 730 days by your fifth anniversary. This is separate from the 1095 days needed for citizenship.'
+                  )}
+                >
+                  <FontAwesome name="info-circle" size={16} color="#94a3b8" />
+                </TouchableOpacity>
+              </View>
+              <Text style={styles.residencyStatus}>
+                {residency.isCompliant ? 'Compliant' : 'Not compliant'}
+              </Text>
+              <View style={styles.calculationRow}>
+                <Text style={styles.calculationLabel}>
+                  Days present since {formatDate(parseDate(residency.periodStart))}:
+                </Text>
+                <Text style={styles.calculationValue}>
+                  {residency.daysPresent} / {residency.daysRequired}
+                </Text>
+              </View>
+              <View style={styles.calculationRow}>
+                <Text style={styles.calculationLabel}>Days of margin:</Text>
+                <Text style={styles.calculationValue}>{residency.marginDays}</Text>
+              </View>
+              {residency.isCompliant && (
+                <Text style={styles.residencyNote}>
+                  If you left Canada today and stayed away, you would fall out of compliance on{' '}
+                  <Text style={styles.dateHighlight}>{formatDate(parseDate(residency.fallOutDate))}</Text>.
+                </Text>
+              )}
+            </Pressable>
+          )}
+
           {/* Quick Actions */}
           <View style={styles.actionsCard}>
             <Text style={styles.actionsTitle}>Quick Actions</Text>
@@ -432,7 +554,7 @@ export default function TabOneScreen() {
             </Text>
             <Text style={[styles.projectionText, { marginTop: 8 }]}>
               Earliest application date: <Text style={styles.dateHighlight}>
-                {formatDate(projectedEarliestDate)}
+                {projectedEarliestDate ? formatDate(projectedEarliestDate) : 'not reachable with your current timeline'}
               </Text>
             </Text>
             <Text style={[styles.calculationNote, { marginTop: 12 }]}>
@@ -729,6 +851,12 @@ const styles = StyleSheet.create({
     color: '#1e40af',
     lineHeight: 20,
   },
+  processLink: {
+    fontSize: 12,
+    color: '#3b82f6',
+    fontWeight: '600',
+    marginTop: 8,
+  },
   processProgress: {
     fontSize: 11,
     color: '#64748b',
@@ -882,6 +1010,62 @@ const styles = StyleSheet.create({
     fontStyle: 'italic',
     lineHeight: 16,
   },
+  explainLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#e2e8f0',
+    backgroundColor: 'transparent',
+  },
+  explainLinkText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
+  residencyCard: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderLeftWidth: 4,
+    borderColor: '#e2e8f0',
+  },
+  residencyCardCompliant: {
+    borderLeftColor: '#10b981',
+  },
+  residencyCardAtRisk: {
+    borderLeftColor: '#ef4444',
+  },
+  residencyHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginBottom: 8,
+    backgroundColor: 'transparent',
+  },
+  residencyTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  residencyStatus: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#475569',
+    marginBottom: 4,
+  },
+  residencyNote: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 8,
+    lineHeight: 18,
+  },
   actionsCard: {
     backgroundColor: '#fff',
     padding: 16,
@@ -13,16 +13,21 @@ import { useFirebaseFunctions } from '@/hooks/useFirebaseFunctions';
 import DeleteAccountModal from '@/components/DeleteAccountModal';
 import { 
   hasPRStatus,
+  PROFILE_LIMITS,
 } from '@journey-to-citizen/types';
 import { 
   formatDateForDisplay 
 } from '@/utils/dateRangeValidation';
+import { saveExportFiles } from '@/utils/dataExport';
+import {
+  calculateTaxFilingRequirement,
+} from '@journey-to-citizen/calculations';
 
 export default function ProfileScreen() {
   const colorScheme = useColorScheme();
   const router = useRouter();
   const { user, userProfile, profileLoading, sendVerificationEmail, updateLocalProfile, logout } = useAuth();
-  const { updateUserProfile, scheduleAccountDeletion, cancelAccountDeletion } = useFirebaseFunctions();
+  const { updateUserProfile, exportUserData, scheduleAccountDeletion, cancelAccountDeletion } = useFirebaseFunctions();
   const { trackEvent } = useAnalytics();
   
   // Track screen view
@@ -41,6 +46,11 @@ export default function ProfileScreen() {
   const [editedName, setEditedName] = useState('');
   const [isSaving, setIsSaving] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [savingTaxYear, setSavingTaxYear] = useState<number | null>(null);
+
+  // Tax years in the current 5-year window and which of them were filed
+  const taxFiling = calculateTaxFilingRequirement(userProfile || {});
 
   const handleEditNamePress = () => {
     trackProfileAction('edit_name_click');
@@ -82,6 +92,47 @@ export default function ProfileScreen() {
     }
   };
 
+  const handleToggleTaxYear = async (year: number) => {
+    const filedTaxYears = userProfile?.filedTaxYears || [];
+    const isFiled = filedTaxYears.includes(year);
+    const updatedYears = isFiled
+      ? filedTaxYears.filter(filedYear => filedYear !== year)
+      : [...filedTaxYears, year].sort((a, b) => a - b);
+
+    setSavingTaxYear(year);
+    try {
+      trackProfileAction('tax_year_toggle', { year, filed: !isFiled });
+      const result = await updateUserProfile({ filedTaxYears: updatedYears });
+      if (result.data) {
+        updateLocalProfile(result.data);
+      }
+    } catch (error: any) {
+      trackProfileAction('tax_year_toggle_error', { error: error.message });
+      const errorMessage = error.message || 'Failed to update tax years';
+      Platform.OS === 'web' ? alert(`Error: ${errorMessage}`) : Alert.alert('Error', errorMessage);
+    } finally {
+      setSavingTaxYear(null);
+    }
+  };
+
+  const handleExportData = async (source: 'profile' | 'delete_modal') => {
+    trackProfileAction('export_data_click', { source });
+    setIsExporting(true);
+    try {
+      const result = await exportUserData();
+      if (result.success && result.data) {
+        await saveExportFiles(result.data.files);
+        trackProfileAction('export_data_success', { source });
+      }
+    } catch (error: any) {
+      trackProfileAction('export_data_error', { source, error: error.message });
+      const errorMessage = error.message || 'Failed to export your data';
+      Platform.OS === 'web' ? alert(`Error: ${errorMessage}`) : Alert.alert('Error', errorMessage);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handleDeleteAccount = async () => {
     trackProfileAction('delete_account_confirmed');
     
@@ -151,6 +202,7 @@ export default function ProfileScreen() {
               style={styles.input}
               value={editedName}
               onChangeText={setEditedName}
+              maxLength={PROFILE_LIMITS.DISPLAY_NAME_LENGTH}
               placeholder="Enter your name"
               placeholderTextColor="#999"
               autoFocus
@@ -192,9 +244,66 @@ export default function ProfileScreen() {
           )}
         </View>
 
+        {/* Tax Filing Section */}
+        <View style={styles.infoBox}>
+          <Text style={styles.label}>Income Tax Filing</Text>
+          <Text style={styles.helpText}>
+            Tap the tax years you filed Canadian income taxes for. Citizenship requires at least{' '}
+            {taxFiling.yearsRequired} of the tax years in your 5-year eligibility window.
+          </Text>
+          <View style={styles.taxYearRow}>
+            {taxFiling.taxYearsInWindow.map(year => {
+              const isFiled = taxFiling.filedYearsInWindow.includes(year);
+              return (
+                <TouchableOpacity
+                  key={year}
+                  style={[styles.taxYearChip, isFiled && styles.taxYearChipFiled]}
+                  onPress={() => handleToggleTaxYear(year)}
+                  disabled={profileLoading || savingTaxYear !== null}
+                >
+                  {isFiled && <FontAwesome name="check" size={12} color="#fff" />}
+                  <Text style={[styles.taxYearText, isFiled && styles.taxYearTextFiled]}>
+                    {savingTaxYear === year ? '...' : year}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <Text style={[styles.taxYearSummary, taxFiling.requirementMet && styles.taxYearSummaryMet]}>
+            {taxFiling.filedYearsInWindow.length} of {taxFiling.yearsRequired} required tax years filed
+            {taxFiling.requirementMet ? ' ✓' : ''}
+          </Text>
+        </View>
+
         {/* Account Management Section */}
         <View style={styles.accountManagementSection}>
           <Text style={styles.accountManagementTitle}>Account Management</Text>
+          {/* Export My Data */}
+          <TouchableOpacity 
+            style={styles.accountManagementItem}
+            onPress={() => handleExportData('profile')}
+            disabled={isExporting}
+          >
+            <FontAwesome name="download" size={18} color="#64748b" />
+            <Text style={styles.accountManagementLabel}>
+              {isExporting ? 'Exporting...' : 'Export My Data'}
+            </Text>
+            <FontAwesome name="chevron-right" size={14} color="#94a3b8" />
+          </TouchableOpacity>
+
+          {/* Restore From Backup */}
+          <TouchableOpacity 
+            style={styles.accountManagementItem}
+            onPress={() => {
+              trackProfileAction('restore_backup_click');
+              router.push('/restore-backup' as any);
+            }}
+          >
+            <FontAwesome name="upload" size={18} color="#64748b" />
+            <Text style={styles.accountManagementLabel}>Restore From Backup</Text>
+            <FontAwesome name="chevron-right" size={14} color="#94a3b8" />
+          </TouchableOpacity>
+
           {/* Privacy Policy */}
           <TouchableOpacity 
             style={styles.accountManagementItem}
@@ -298,6 +407,8 @@ export default function ProfileScreen() {
         visible={showDeleteModal}
         onClose={() => setShowDeleteModal(false)}
         onConfirm={handleDeleteAccount}
+        onExportData={() => handleExportData('delete_modal')}
+        isExporting={isExporting}
         userEmail={user?.email || ''}
       />
     </ScrollView>
@@ -487,6 +598,44 @@ const styles = StyleSheet.create({
     color: '#78350f',
     lineHeight: 20,
   },
+  taxYearRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 10,
+  },
+  taxYearChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    backgroundColor: '#fff',
+  },
+  taxYearChipFiled: {
+    backgroundColor: '#10b981',
+    borderColor: '#10b981',
+  },
+  taxYearText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  taxYearTextFiled: {
+    color: '#fff',
+  },
+  taxYearSummary: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 8,
+  },
+  taxYearSummaryMet: {
+    color: '#059669',
+    fontWeight: '600',
+  },
   accountManagementSection: {
     marginTop: 32,
     padding: 16,
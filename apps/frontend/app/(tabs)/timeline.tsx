@@ -5,31 +5,68 @@ import { useAuth } from '@/context/AuthContext';
 import { useFirebaseFunctions } from '@/hooks/useFirebaseFunctions';
 import { useAnalytics, useScreenTracking } from '@/hooks/useAnalytics';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { useRouter } from 'expo-router';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import WebDateInput from '@/components/WebDateInput';
+import DateField from '@/components/DateField';
 import { useColorScheme } from '@/components/useColorScheme';
 import { 
   AbsenceEntry, 
   StatusEntry, 
   StatusType, 
+  LocalDate,
+  NonCountablePeriod,
+  NonCountablePeriodType,
+  AbsenceReason,
   STATUS_TYPE_LABELS,
+  ABSENCE_REASONS,
+  ABSENCE_REASON_LABELS,
+  NON_COUNTABLE_PERIOD_TYPES,
+  NON_COUNTABLE_PERIOD_TYPE_LABELS,
   getCurrentStatus,
   hasPRStatus,
+  isAbsenceCountedAsPresence,
+  needsStartDateConfirmation,
+  Schema,
+  parseSchema,
+  formatFieldErrors,
+  absenceEntrySchema,
+  statusEntrySchema,
+  nonCountablePeriodSchema,
+  PROFILE_LIMITS,
 } from '@journey-to-citizen/types';
 import { formatDateForDisplay } from '@/utils/dateRangeValidation';
+import {
+  calculateStaticEligibility,
+  calculateAbsenceBudget,
+  parseDate,
+  todayLocalDate,
+  addDaysToLocalDate,
+  daysBetweenLocalDates,
+  compareLocalDates,
+  toPickerDate,
+  fromPickerDate,
+  validateProfile,
+  ProfileIssue,
+  getUnconfirmedProtectedPersonEntries,
+  applyProtectionDecisionDate,
+} from '@journey-to-citizen/calculations';
 
 // Timeline event type
-type TimelineEventType = 'status' | 'trip';
+type TimelineEventType = 'status' | 'trip' | 'period';
 
 interface TimelineEvent {
   id: string;
   type: TimelineEventType;
-  date: string; // ISO date string for sorting
+  date: LocalDate; // For sorting
   status?: StatusType;
-  statusEnd?: string;
-  tripFrom?: string;
-  tripTo?: string;
+  statusEnd?: LocalDate;
+  tripFrom?: LocalDate;
+  tripTo?: LocalDate;
   tripPlace?: string;
+  tripReason?: AbsenceReason;
+  periodType?: NonCountablePeriodType;
+  periodTo?: LocalDate;
 }
 
 // Status colors for visual distinction - very subtle, sophisticated palette
@@ -37,13 +74,23 @@ const STATUS_COLORS: Record<StatusType, { bg: string; border: string; text: stri
   visitor: { bg: '#fffbf5', border: '#fde68a', text: '#92400e', dot: '#f59e0b' },
   study_permit: { bg: '#f8faff', border: '#bfdbfe', text: '#1e3a8a', dot: '#3b82f6' },
   work_permit: { bg: '#f7fef9', border: '#bbf7d0', text: '#14532d', dot: '#22c55e' },
+  refugee_claimant: { bg: '#f8f9ff', border: '#c7d2fe', text: '#312e81', dot: '#6366f1' },
   protected_person: { bg: '#faf8ff', border: '#e9d5ff', text: '#581c87', dot: '#a855f7' },
   permanent_resident: { bg: '#fef8fb', border: '#fbcfe8', text: '#831843', dot: '#ec4899' },
 };
 
 export default function TimelineScreen() {
-  const { userProfile, profileLoading, updateLocalProfile } = useAuth();
-  const { updateUserProfile } = useFirebaseFunctions();
+  const router = useRouter();
+  const { userProfile, profileLoading, updateLocalProfile, refreshProfile } = useAuth();
+  const {
+    updateUserProfile,
+    addAbsence,
+    updateAbsence,
+    deleteAbsence,
+    addStatus,
+    updateStatus,
+    deleteStatus,
+  } = useFirebaseFunctions();
   const { trackEvent } = useAnalytics();
   const colorScheme = useColorScheme();
   
@@ -57,13 +104,32 @@ export default function TimelineScreen() {
   
   // Form states
   const [selectedStatus, setSelectedStatus] = useState<StatusType>('work_permit');
-  const [startDate, setStartDate] = useState<string>('');
-  const [endDate, setEndDate] = useState<string>('');
+  const [startDate, setStartDate] = useState<LocalDate | ''>('');
+  const [endDate, setEndDate] = useState<LocalDate | ''>('');
   const [tripPlace, setTripPlace] = useState('');
+  const [tripOngoing, setTripOngoing] = useState(false);
+  const [tripReason, setTripReason] = useState<AbsenceReason>(ABSENCE_REASONS.PERSONAL);
+  const [budgetTargetDate, setBudgetTargetDate] = useState<LocalDate | ''>(''); // '' = default target
   const [showStartPicker, setShowStartPicker] = useState(false);
   const [showEndPicker, setShowEndPicker] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Protection decision date prompt (protected person entries from before refugee_claimant existed)
+  const [decisionEntry, setDecisionEntry] = useState<StatusEntry | null>(null);
+  const [decisionDate, setDecisionDate] = useState<LocalDate | ''>('');
+  
+  // Start date confirmation (statuses converted from legacy profiles)
+  const [estimatedEntry, setEstimatedEntry] = useState<StatusEntry | null>(null);
+  const [confirmedStartDate, setConfirmedStartDate] = useState<LocalDate | ''>('');
+
+  // Sentence, probation and parole periods (sensitive - never sent to analytics)
+  const [periodModalVisible, setPeriodModalVisible] = useState(false);
+  const [editingPeriodId, setEditingPeriodId] = useState<string | null>(null);
+  const [periodType, setPeriodType] = useState<NonCountablePeriodType>(NON_COUNTABLE_PERIOD_TYPES.INCARCERATION);
+  const [periodFrom, setPeriodFrom] = useState<LocalDate | ''>('');
+  const [periodTo, setPeriodTo] = useState<LocalDate | ''>('');
+  const [periodOngoing, setPeriodOngoing] = useState(false);
   
   // Helper function for consistent tracking
   const trackTimelineAction = (action: string, params?: Record<string, any>) => {
@@ -74,6 +140,29 @@ export default function TimelineScreen() {
     });
   };
 
+  // Single-entry edits carry the revision they were made against
+  const revision = userProfile?.revision ?? 0;
+
+  // Check an entry with the same schema the functions use
+  const isValidEntry = <T,>(schema: Schema<T>, entry: T): boolean => {
+    const validation = parseSchema(schema, entry);
+    if (!validation.success) {
+      const message = formatFieldErrors(validation.errors);
+      Platform.OS === 'web' ? alert(message) : Alert.alert('Invalid Entry', message);
+    }
+    return validation.success;
+  };
+
+  // Edits are rejected if the timeline changed on another device since it was
+  // loaded: reload it so the user can check the latest version and try again
+  const getEditErrorMessage = async (error: any, fallback: string): Promise<string> => {
+    if (error?.code === 'functions/failed-precondition' && error?.details?.currentRevision !== undefined) {
+      await refreshProfile();
+      return 'Your timeline was changed on another device. The latest version has been loaded, please check it and try again.';
+    }
+    return error?.message || fallback;
+  };
+
   // Build unified timeline from status history and travel absences
   const timelineEvents = useMemo(() => {
     const events: TimelineEvent[] = [];
@@ -100,33 +189,124 @@ export default function TimelineScreen() {
         tripFrom: absence.from,
         tripTo: absence.to,
         tripPlace: absence.place,
+        tripReason: absence.reason,
+      });
+    });
+
+    // Add sentence, probation and parole periods
+    const periods = userProfile?.nonCountablePeriods || [];
+    periods.forEach(period => {
+      events.push({
+        id: `period-${period.id}`,
+        type: 'period',
+        date: period.from,
+        periodType: period.type,
+        periodTo: period.to,
       });
     });
     
     // Sort by date (newest first)
-    return events.sort((a, b) => {
-      const dateA = new Date(a.date).getTime();
-      const dateB = new Date(b.date).getTime();
-      return dateB - dateA;
-    });
-  }, [userProfile?.statusHistory, userProfile?.travelAbsences]);
+    return events.sort((a, b) => compareLocalDates(b.date, a.date));
+  }, [userProfile?.statusHistory, userProfile?.travelAbsences, userProfile?.nonCountablePeriods]);
 
   // Get current status for inference
   const currentStatus = getCurrentStatus(userProfile);
+  const unconfirmedProtectedEntries = getUnconfirmedProtectedPersonEntries(userProfile || {});
+  const estimatedStartEntries = (userProfile?.statusHistory || []).filter(needsStartDateConfirmation);
+  const ongoingTrip = (userProfile?.travelAbsences || []).find(entry => !entry.to);
   const userHasPR = hasPRStatus(userProfile);
 
+  // Earliest application date without the trip being added/edited (PR users only)
+  const budgetBaseline = useMemo(() => {
+    if (
+      !modalVisible ||
+      modalType !== 'trip' ||
+      tripOngoing ||
+      tripReason !== ABSENCE_REASONS.PERSONAL ||
+      !userHasPR ||
+      !startDate ||
+      !userProfile
+    ) {
+      return null;
+    }
+
+    const profileWithoutTrip = {
+      ...userProfile,
+      travelAbsences: (userProfile.travelAbsences || []).filter(entry => entry.id !== editingId),
+    };
+    const staticData = calculateStaticEligibility(profileWithoutTrip);
+    if (!staticData || !staticData.earliestEligibilityDate) return null;
+
+    return { profileWithoutTrip, earliestDate: staticData.earliestEligibilityDate };
+  }, [modalVisible, modalType, tripOngoing, tripReason, userHasPR, startDate, editingId, userProfile]);
+
+  // The earliest date has no days to spare, so the default target leaves room
+  // for the trip: a year after the earliest date (or the departure, if later)
+  const defaultBudgetTarget = budgetBaseline && startDate
+    ? addDaysToLocalDate(
+        compareLocalDates(startDate, budgetBaseline.earliestDate) > 0 ? startDate : budgetBaseline.earliestDate,
+        365
+      )
+    : null;
+  const budgetTarget = budgetTargetDate || defaultBudgetTarget;
+
+  // Travel budget for the trip: how long it can last and still apply by the target
+  const travelBudget = useMemo(() => {
+    if (!budgetBaseline || !budgetTarget || !startDate) return null;
+
+    return calculateAbsenceBudget(
+      budgetBaseline.profileWithoutTrip,
+      parseDate(budgetTarget),
+      parseDate(startDate)
+    );
+  }, [budgetBaseline, budgetTarget, startDate]);
+
+  // Validation issues, keyed by status/trip id, shown inline on each entry
+  const issuesByEntryId = useMemo(() => {
+    const map: Record<string, ProfileIssue[]> = {};
+    validateProfile(userProfile || {}).issues.forEach(issue => {
+      issue.entryIds.forEach(entryId => {
+        map[entryId] = [...(map[entryId] || []), issue];
+      });
+    });
+    return map;
+  }, [userProfile]);
+
+  const renderIssues = (entryId: string) => {
+    const issues = issuesByEntryId[entryId];
+    if (!issues || issues.length === 0) return null;
+
+    return issues.map(issue => (
+      <View
+        key={`${issue.code}-${issue.entryIds.join('-')}`}
+        style={[styles.issueBox, issue.severity === 'error' && styles.issueBoxError]}
+      >
+        <HStack space="xs" alignItems="flex-start">
+          <FontAwesome
+            name={issue.severity === 'error' ? 'exclamation-circle' : 'exclamation-triangle'}
+            size={12}
+            color={issue.severity === 'error' ? '#dc2626' : '#d97706'}
+            style={{ marginTop: 2 }}
+          />
+          <View style={{ flex: 1 }}>
+            <Text style={[styles.issueText, issue.severity === 'error' && styles.issueTextError]}>
+              {issue.message}
+            </Text>
+            <Text style={styles.issueFixText}>{issue.suggestedFix}</Text>
+          </View>
+        </HStack>
+      </View>
+    ));
+  };
+
   // Format date helpers
-  const formatDate = (dateStr: string | undefined): string => {
+  const formatDate = (dateStr: LocalDate | undefined): string => {
     if (!dateStr) return 'Present';
     return formatDateForDisplay(dateStr);
   };
 
-  const calculateDuration = (from: string, to?: string): string => {
-    const fromDate = new Date(from);
-    const toDate = to ? new Date(to) : new Date();
-    
-    const diffTime = toDate.getTime() - fromDate.getTime();
-    const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
+  const calculateDuration = (from: LocalDate, to?: LocalDate): string => {
+    const diffDays = daysBetweenLocalDates(from, to || todayLocalDate());
     
     if (diffDays === 0) return 'Same day';
     if (diffDays === 1) return '1 day';
@@ -143,12 +323,9 @@ export default function TimelineScreen() {
     return `${years} year${years > 1 ? 's' : ''}, ${remainingMonths} month${remainingMonths > 1 ? 's' : ''}`;
   };
 
-  const calculateAbsentDays = (from: string, to: string): number => {
-    const fromDate = new Date(from + 'T00:00:00.000Z');
-    const toDate = new Date(to + 'T00:00:00.000Z');
-    const diffTime = toDate.getTime() - fromDate.getTime();
-    const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
-    return Math.max(0, diffDays - 1); // Subtract 1 because departure and return days don't count
+  const calculateAbsentDays = (from: LocalDate, to: LocalDate): number => {
+    // Subtract 1 because departure and return days don't count
+    return Math.max(0, daysBetweenLocalDates(from, to) - 1);
   };
 
   // Modal handlers
@@ -156,11 +333,13 @@ export default function TimelineScreen() {
     trackTimelineAction('open_add_trip');
     setModalType('trip');
     setEditingId(null);
-    const today = new Date();
-    const dateStr = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+    const dateStr = todayLocalDate();
     setStartDate(dateStr);
     setEndDate(dateStr);
     setTripPlace('');
+    setTripOngoing(false);
+    setTripReason(ABSENCE_REASONS.PERSONAL);
+    setBudgetTargetDate('');
     setModalVisible(true);
   };
 
@@ -169,8 +348,7 @@ export default function TimelineScreen() {
     setModalType('status');
     setEditingId(null);
     setSelectedStatus('work_permit');
-    const today = new Date();
-    const dateStr = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+    const dateStr = todayLocalDate();
     setStartDate(dateStr);
     setEndDate('');
     setModalVisible(true);
@@ -181,8 +359,11 @@ export default function TimelineScreen() {
     setModalType('trip');
     setEditingId(event.id.replace('trip-', ''));
     setStartDate(event.tripFrom!);
-    setEndDate(event.tripTo!);
+    setEndDate(event.tripTo || '');
     setTripPlace(event.tripPlace || '');
+    setTripOngoing(!event.tripTo);
+    setTripReason(event.tripReason || ABSENCE_REASONS.PERSONAL);
+    setBudgetTargetDate('');
     setModalVisible(true);
   };
 
@@ -222,12 +403,7 @@ export default function TimelineScreen() {
     if (confirm) {
       try {
         trackTimelineAction('delete_trip_attempt', { trip_id: id });
-        const currentAbsences = userProfile?.travelAbsences || [];
-        const updatedAbsences = currentAbsences.filter(entry => entry.id !== id);
-        
-        const result = await updateUserProfile({
-          travelAbsences: updatedAbsences,
-        });
+        const result = await deleteAbsence({ revision, absenceId: id });
         
         if (result.data) {
           updateLocalProfile(result.data);
@@ -235,7 +411,7 @@ export default function TimelineScreen() {
         }
       } catch (error: any) {
         trackTimelineAction('delete_trip_error', { trip_id: id, error: error.message });
-        const message = error.message || 'Failed to delete trip';
+        const message = await getEditErrorMessage(error, 'Failed to delete trip');
         Platform.OS === 'web' ? alert(message) : Alert.alert('Error', message);
       }
     }
@@ -260,12 +436,7 @@ export default function TimelineScreen() {
     if (confirm) {
       try {
         trackTimelineAction('delete_status_attempt', { status_id: id });
-        const currentStatuses = userProfile?.statusHistory || [];
-        const updatedStatuses = currentStatuses.filter(entry => entry.id !== id);
-        
-        const result = await updateUserProfile({
-          statusHistory: updatedStatuses,
-        });
+        const result = await deleteStatus({ revision, statusId: id });
         
         if (result.data) {
           updateLocalProfile(result.data);
@@ -273,7 +444,7 @@ export default function TimelineScreen() {
         }
       } catch (error: any) {
         trackTimelineAction('delete_status_error', { status_id: id, error: error.message });
-        const message = error.message || 'Failed to delete status';
+        const message = await getEditErrorMessage(error, 'Failed to delete status');
         Platform.OS === 'web' ? alert(message) : Alert.alert('Error', message);
       }
     }
@@ -287,13 +458,21 @@ export default function TimelineScreen() {
       return;
     }
 
-    if (modalType === 'trip' && !endDate) {
+    const isOngoingTrip = modalType === 'trip' && tripOngoing;
+
+    if (modalType === 'trip' && !endDate && !isOngoingTrip) {
       const message = 'Please select a return date for your trip';
       Platform.OS === 'web' ? alert(message) : Alert.alert('Required', message);
       return;
     }
 
-    if (endDate && startDate > endDate) {
+    if (isOngoingTrip && startDate > todayLocalDate()) {
+      const message = 'A trip you are still on must have started already';
+      Platform.OS === 'web' ? alert(message) : Alert.alert('Invalid Dates', message);
+      return;
+    }
+
+    if (!isOngoingTrip && endDate && startDate > endDate) {
       const message = 'Start date must be before end date';
       Platform.OS === 'web' ? alert(message) : Alert.alert('Invalid Dates', message);
       return;
@@ -302,27 +481,30 @@ export default function TimelineScreen() {
     setIsSaving(true);
     try {
       const startDateStr = startDate;
-      const endDateStr = endDate || undefined;
+      const endDateStr = isOngoingTrip ? undefined : endDate || undefined;
 
       if (modalType === 'trip') {
         trackTimelineAction(editingId ? 'edit_trip_attempt' : 'add_trip_attempt', {
           trip_id: editingId,
           has_destination: !!tripPlace,
+          ongoing: isOngoingTrip,
+          reason: tripReason,
         });
         
-        const currentAbsences = userProfile?.travelAbsences || [];
-        
         if (editingId) {
           // Edit existing trip
-          const updatedAbsences = currentAbsences.map(entry =>
-            entry.id === editingId 
-              ? { ...entry, from: startDateStr, to: endDateStr!, place: tripPlace }
-              : entry
-          );
+          const existingEntry = (userProfile?.travelAbsences || []).find(entry => entry.id === editingId);
+          const updatedEntry: AbsenceEntry = {
+            ...existingEntry,
+            id: editingId,
+            from: startDateStr,
+            to: endDateStr,
+            place: tripPlace,
+            reason: tripReason,
+          };
+          if (!isValidEntry(absenceEntrySchema, updatedEntry)) return;
           
-          const result = await updateUserProfile({
-            travelAbsences: updatedAbsences,
-          });
+          const result = await updateAbsence({ revision, absence: updatedEntry });
           
           if (result.data) {
             updateLocalProfile(result.data);
@@ -333,13 +515,13 @@ export default function TimelineScreen() {
           const newEntry: AbsenceEntry = {
             id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
             from: startDateStr,
-            to: endDateStr!,
+            to: endDateStr,
             place: tripPlace,
+            reason: tripReason,
           };
+          if (!isValidEntry(absenceEntrySchema, newEntry)) return;
           
-          const result = await updateUserProfile({
-            travelAbsences: [...currentAbsences, newEntry],
-          });
+          const result = await addAbsence({ revision, absence: newEntry });
           
           if (result.data) {
             updateLocalProfile(result.data);
@@ -353,55 +535,39 @@ export default function TimelineScreen() {
           status_type: selectedStatus,
         });
         
-        const currentStatuses = userProfile?.statusHistory || [];
-        
         if (editingId) {
           // Edit existing status
-          const updatedStatuses = currentStatuses.map(entry =>
-            entry.id === editingId 
-              ? { ...entry, status: selectedStatus, from: startDateStr, to: endDateStr }
-              : entry
-          );
+          const existingEntry = (userProfile?.statusHistory || []).find(entry => entry.id === editingId);
+          const updatedEntry: StatusEntry = {
+            ...existingEntry,
+            id: editingId,
+            status: selectedStatus,
+            from: startDateStr,
+            to: endDateStr,
+            decisionDateConfirmed: selectedStatus === 'protected_person' ? true : undefined,
+            startDateEstimated: undefined, // Editing the entry confirms its dates
+          };
+          if (!isValidEntry(statusEntrySchema, updatedEntry)) return;
           
-          const result = await updateUserProfile({
-            statusHistory: updatedStatuses,
-          });
+          const result = await updateStatus({ revision, status: updatedEntry });
           
           if (result.data) {
             updateLocalProfile(result.data);
             trackTimelineAction('edit_status_success', { status_id: editingId });
           }
         } else {
-          // Add new status - automatically end the previous current status
-          const updatedStatuses = currentStatuses.map(entry => {
-            // If this is a current status (no end date) and it's different from the new status
-            if (!entry.to) {
-              // Calculate end date: one day before new status starts
-              const newStatusDate = new Date(startDateStr + 'T00:00:00');
-              newStatusDate.setDate(newStatusDate.getDate() - 1);
-              const year = newStatusDate.getFullYear();
-              const month = String(newStatusDate.getMonth() + 1).padStart(2, '0');
-              const day = String(newStatusDate.getDate()).padStart(2, '0');
-              const previousEndDate = `${year}-${month}-${day}`;
-              
-              // Only set end date if it's after the start date
-              if (previousEndDate >= entry.from) {
-                return { ...entry, to: previousEndDate };
-              }
-            }
-            return entry;
-          });
-          
+          // Add new status - the function ends the previous current status
+          // the day before the new one starts
           const newEntry: StatusEntry = {
             id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
             status: selectedStatus,
             from: startDateStr,
             to: endDateStr,
+            decisionDateConfirmed: selectedStatus === 'protected_person' ? true : undefined,
           };
+          if (!isValidEntry(statusEntrySchema, newEntry)) return;
           
-          const result = await updateUserProfile({
-            statusHistory: [...updatedStatuses, newEntry],
-          });
+          const result = await addStatus({ revision, status: newEntry });
           
           if (result.data) {
             updateLocalProfile(result.data);
@@ -417,20 +583,235 @@ export default function TimelineScreen() {
         : (editingId ? 'edit_status_error' : 'add_status_error');
       trackTimelineAction(action, { error: error.message });
       
-      const message = error.message || `Failed to ${editingId ? 'update' : 'add'} ${modalType}`;
+      const message = await getEditErrorMessage(error, `Failed to ${editingId ? 'update' : 'add'} ${modalType}`);
       Platform.OS === 'web' ? alert(message) : Alert.alert('Error', message);
     } finally {
       setIsSaving(false);
     }
   };
 
+  const handleOpenDecisionDate = (entry: StatusEntry) => {
+    trackTimelineAction('open_decision_date', { status_id: entry.id });
+    setDecisionEntry(entry);
+    setDecisionDate(entry.from);
+  };
+
+  const handleSaveDecisionDate = async () => {
+    if (!decisionEntry || !decisionDate) {
+      const message = 'Please select the date of your protection decision';
+      Platform.OS === 'web' ? alert(message) : Alert.alert('Required', message);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const updatedStatuses = applyProtectionDecisionDate(
+        userProfile?.statusHistory || [],
+        decisionEntry.id,
+        decisionDate
+      );
+      const result = await updateUserProfile({
+        revision,
+        statusHistory: updatedStatuses,
+      });
+
+      if (result.data) {
+        updateLocalProfile(result.data);
+        trackTimelineAction('save_decision_date_success', {
+          status_id: decisionEntry.id,
+          split: decisionDate > decisionEntry.from,
+        });
+      }
+      setDecisionEntry(null);
+    } catch (error: any) {
+      trackTimelineAction('save_decision_date_error', { error: error.message });
+      const message = await getEditErrorMessage(error, 'Failed to save decision date');
+      Platform.OS === 'web' ? alert(message) : Alert.alert('Error', message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleOpenStartDate = (entry: StatusEntry) => {
+    trackTimelineAction('open_start_date', { status_id: entry.id });
+    setEstimatedEntry(entry);
+    setConfirmedStartDate(entry.from);
+  };
+
+  const handleSaveStartDate = async () => {
+    if (!estimatedEntry || !confirmedStartDate) {
+      const message = 'Please select the date this status started';
+      Platform.OS === 'web' ? alert(message) : Alert.alert('Required', message);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const confirmedEntry: StatusEntry = {
+        ...estimatedEntry,
+        from: confirmedStartDate,
+        startDateEstimated: undefined,
+      };
+      if (!isValidEntry(statusEntrySchema, confirmedEntry)) return;
+
+      const result = await updateStatus({ revision, status: confirmedEntry });
+
+      if (result.data) {
+        updateLocalProfile(result.data);
+        trackTimelineAction('save_start_date_success', {
+          status_id: estimatedEntry.id,
+          changed: confirmedStartDate !== estimatedEntry.from,
+        });
+      }
+      setEstimatedEntry(null);
+    } catch (error: any) {
+      trackTimelineAction('save_start_date_error', { error: error.message });
+      const message = await getEditErrorMessage(error, 'Failed to save start date');
+      Platform.OS === 'web' ? alert(message) : Alert.alert('Error', message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleOpenImportHistory = () => {
+    trackTimelineAction('open_import_history');
+    router.push('/import-travel-history' as any);
+  };
+
+  const handleOpenAddPeriod = () => {
+    trackTimelineAction('open_add_period');
+    setEditingPeriodId(null);
+    setPeriodType(NON_COUNTABLE_PERIOD_TYPES.INCARCERATION);
+    setPeriodFrom('');
+    setPeriodTo('');
+    setPeriodOngoing(false);
+    setPeriodModalVisible(true);
+  };
+
+  const handleOpenEditPeriod = (event: TimelineEvent) => {
+    trackTimelineAction('open_edit_period');
+    setEditingPeriodId(event.id.replace('period-', ''));
+    setPeriodType(event.periodType!);
+    setPeriodFrom(event.date);
+    setPeriodTo(event.periodTo || '');
+    setPeriodOngoing(!event.periodTo);
+    setPeriodModalVisible(true);
+  };
+
+  const savePeriods = async (periods: NonCountablePeriod[]) => {
+    const result = await updateUserProfile({
+      revision,
+      nonCountablePeriods: periods,
+    });
+
+    if (result.data) {
+      updateLocalProfile(result.data);
+    }
+  };
+
+  const handleSavePeriod = async () => {
+    if (!periodFrom || (!periodOngoing && !periodTo)) {
+      const message = periodOngoing
+        ? 'Please select the start date'
+        : 'Please select both the start and end dates';
+      Platform.OS === 'web' ? alert(message) : Alert.alert('Required', message);
+      return;
+    }
+
+    if (periodOngoing && periodFrom > todayLocalDate()) {
+      const message = 'An ongoing period must have started by today';
+      Platform.OS === 'web' ? alert(message) : Alert.alert('Invalid Dates', message);
+      return;
+    }
+
+    if (!periodOngoing && periodTo && compareLocalDates(periodFrom, periodTo) > 0) {
+      const message = 'End date must be on or after the start date';
+      Platform.OS === 'web' ? alert(message) : Alert.alert('Invalid Dates', message);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const currentPeriods = userProfile?.nonCountablePeriods || [];
+      const period: NonCountablePeriod = {
+        id: editingPeriodId || `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        type: periodType,
+        from: periodFrom,
+        to: periodOngoing || !periodTo ? undefined : periodTo,
+      };
+      if (!isValidEntry(nonCountablePeriodSchema, period)) return;
+      const updatedPeriods = editingPeriodId
+        ? currentPeriods.map(entry => (entry.id === editingPeriodId ? period : entry))
+        : [...currentPeriods, period];
+
+      await savePeriods(updatedPeriods);
+      trackTimelineAction(editingPeriodId ? 'edit_period_success' : 'add_period_success');
+      setPeriodModalVisible(false);
+    } catch (error: any) {
+      trackTimelineAction(editingPeriodId ? 'edit_period_error' : 'add_period_error');
+      const message = await getEditErrorMessage(error, 'Failed to save period');
+      Platform.OS === 'web' ? alert(message) : Alert.alert('Error', message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeletePeriod = async (id: string) => {
+    const confirm = await new Promise<boolean>((resolve) => {
+      if (Platform.OS === 'web') {
+        resolve(window.confirm('Are you sure you want to delete this period?'));
+      } else {
+        Alert.alert(
+          'Delete Period',
+          'Are you sure you want to delete this period?',
+          [
+            { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+            { text: 'Delete', style: 'destructive', onPress: () => resolve(true) }
+          ]
+        );
+      }
+    });
+
+    if (confirm) {
+      try {
+        const currentPeriods = userProfile?.nonCountablePeriods || [];
+        await savePeriods(currentPeriods.filter(entry => entry.id !== id));
+        trackTimelineAction('delete_period_success');
+      } catch (error: any) {
+        trackTimelineAction('delete_period_error');
+        const message = await getEditErrorMessage(error, 'Failed to delete period');
+        Platform.OS === 'web' ? alert(message) : Alert.alert('Error', message);
+      }
+    }
+  };
+
+  const handleImBack = async () => {
+    if (!ongoingTrip) return;
+
+    try {
+      trackTimelineAction('im_back_attempt', { trip_id: ongoingTrip.id });
+      const result = await updateAbsence({
+        revision,
+        absence: { ...ongoingTrip, to: todayLocalDate() },
+      });
+
+      if (result.data) {
+        updateLocalProfile(result.data);
+        trackTimelineAction('im_back_success', { trip_id: ongoingTrip.id });
+      }
+    } catch (error: any) {
+      trackTimelineAction('im_back_error', { trip_id: ongoingTrip.id, error: error.message });
+      const message = await getEditErrorMessage(error, 'Failed to update trip');
+      Platform.OS === 'web' ? alert(message) : Alert.alert('Error', message);
+    }
+  };
+
   const handleStatusChange = async () => {
     trackTimelineAction('got_pr_click');
     setModalType('status');
     setEditingId(null);
     setSelectedStatus('permanent_resident');
-    const today = new Date();
-    const dateStr = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+    const dateStr = todayLocalDate();
     setStartDate(dateStr);
     setEndDate('');
     setModalVisible(true);
@@ -495,6 +876,73 @@ export default function TimelineScreen() {
               <Text style={styles.quickActionText}>Add Status</Text>
             </TouchableOpacity>
           </HStack>
+          <TouchableOpacity onPress={handleOpenImportHistory}>
+            <Text style={styles.periodLink}>Import trips from your CBSA or IRCC travel history</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleOpenAddPeriod}>
+            <Text style={styles.periodLink}>Record time serving a sentence, on probation or parole</Text>
+          </TouchableOpacity>
+
+          {/* Currently abroad */}
+          {ongoingTrip && (
+            <View style={styles.abroadCard}>
+              <HStack space="sm" alignItems="center">
+                <FontAwesome name="globe" size={18} color="#0369a1" />
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.abroadTitle}>
+                    You're abroad{ongoingTrip.place ? ` in ${ongoingTrip.place}` : ''}
+                  </Text>
+                  <Text style={styles.abroadText}>
+                    Left on {formatDate(ongoingTrip.from)}. Days away count as absences until you return.
+                  </Text>
+                </View>
+                <TouchableOpacity style={styles.abroadButton} onPress={handleImBack}>
+                  <Text style={styles.abroadButtonText}>I'm back</Text>
+                </TouchableOpacity>
+              </HStack>
+            </View>
+          )}
+
+          {/* Protection decision date prompt */}
+          {unconfirmedProtectedEntries.map(entry => (
+            <View key={entry.id} style={styles.decisionCard}>
+              <HStack space="sm" alignItems="flex-start">
+                <FontAwesome name="exclamation-circle" size={16} color="#6366f1" style={{ marginTop: 2 }} />
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.decisionTitle}>When were you found to be a protected person?</Text>
+                  <Text style={styles.decisionText}>
+                    Your Protected Person status starts on {formatDate(entry.from)}. Pre-PR credit only counts from
+                    the date of your protection decision, not the date of your refugee claim. If they differ, we'll
+                    record the time before the decision as Refugee Claimant.
+                  </Text>
+                  <TouchableOpacity onPress={() => handleOpenDecisionDate(entry)}>
+                    <Text style={styles.decisionLink}>Confirm decision date →</Text>
+                  </TouchableOpacity>
+                </View>
+              </HStack>
+            </View>
+          ))}
+
+          {/* Estimated start date prompt (converted legacy profiles) */}
+          {estimatedStartEntries.map(entry => (
+            <View key={entry.id} style={styles.decisionCard}>
+              <HStack space="sm" alignItems="flex-start">
+                <FontAwesome name="exclamation-circle" size={16} color="#6366f1" style={{ marginTop: 2 }} />
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.decisionTitle}>
+                    When did your {STATUS_TYPE_LABELS[entry.status]} status start?
+                  </Text>
+                  <Text style={styles.decisionText}>
+                    We updated your profile to the timeline format. Your earlier profile didn't include a start date
+                    for this status, so it's set to {formatDate(entry.from)}. Days before that don't count yet.
+                  </Text>
+                  <TouchableOpacity onPress={() => handleOpenStartDate(entry)}>
+                    <Text style={styles.decisionLink}>Confirm start date →</Text>
+                  </TouchableOpacity>
+                </View>
+              </HStack>
+            </View>
+          ))}
 
           {/* Timeline */}
           {timelineEvents.length === 0 ? (
@@ -567,6 +1015,8 @@ export default function TimelineScreen() {
                         <Text style={[styles.durationText, { color: colors.text, opacity: 0.8 }]}>
                           {calculateDuration(event.date, event.statusEnd)}
                         </Text>
+
+                        {renderIssues(event.id.replace('status-', ''))}
                         
                         {/* Expanded actions */}
                         {isExpanded && (
@@ -590,11 +1040,88 @@ export default function TimelineScreen() {
                       </TouchableOpacity>
                     </View>
                   );
+                } else if (event.type === 'period') {
+                  // Ongoing periods: not counted through today
+                  const isOngoing = !event.periodTo;
+                  const periodDays = daysBetweenLocalDates(event.date, event.periodTo || todayLocalDate()) + 1;
+
+                  return (
+                    <View key={event.id} style={styles.timelineItem}>
+                      {/* Timeline connector */}
+                      <View style={styles.timelineConnector}>
+                        <View style={[styles.timelineDot, styles.periodDot]} />
+                        {index < timelineEvents.length - 1 && (
+                          <View style={styles.timelineLine} />
+                        )}
+                      </View>
+
+                      {/* Period Content */}
+                      <TouchableOpacity
+                        style={[styles.timelineContent, styles.periodContent]}
+                        onPress={() => setExpandedId(isExpanded ? null : event.id)}
+                        activeOpacity={0.7}
+                      >
+                        <View style={styles.tripHeader}>
+                          <View style={styles.tripHeaderLeft}>
+                            <FontAwesome name="lock" size={13} color="#78716c" />
+                            <Text style={styles.periodLabel}>
+                              {NON_COUNTABLE_PERIOD_TYPE_LABELS[event.periodType!]}
+                            </Text>
+                          </View>
+                          <FontAwesome 
+                            name={isExpanded ? "chevron-up" : "chevron-down"} 
+                            size={12} 
+                            color="#78716c" 
+                          />
+                        </View>
+
+                        <Text style={styles.dateText}>
+                          {formatDate(event.date)} — {isOngoing ? 'Ongoing' : formatDate(event.periodTo)}
+                        </Text>
+
+                        <Text style={[styles.durationText, { opacity: 0.7 }]}>
+                          {periodDays} {periodDays === 1 ? 'day' : 'days'} not counted as presence{isOngoing ? ' so far' : ''}
+                        </Text>
+
+                        {renderIssues(event.id.replace('period-', ''))}
+
+                        {/* Expanded actions */}
+                        {isExpanded && (
+                          <View style={styles.expandedActions}>
+                            <TouchableOpacity
+                              style={styles.actionButton}
+                              onPress={() => handleOpenEditPeriod(event)}
+                            >
+                              <FontAwesome name="pencil" size={14} color="#3b82f6" />
+                              <Text style={styles.actionButtonText}>Edit</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                              style={styles.actionButton}
+                              onPress={() => handleDeletePeriod(event.id.replace('period-', ''))}
+                            >
+                              <FontAwesome name="trash" size={14} color="#ef4444" />
+                              <Text style={[styles.actionButtonText, { color: '#ef4444' }]}>Delete</Text>
+                            </TouchableOpacity>
+                          </View>
+                        )}
+                      </TouchableOpacity>
+                    </View>
+                  );
                 } else {
                   // Trip
-                  const absentDays = calculateAbsentDays(event.tripFrom!, event.tripTo!);
-                  const isToday = new Date(event.tripFrom!).toDateString() === new Date().toDateString();
-                  const isFuture = new Date(event.tripFrom!) > new Date();
+                  // Ongoing trips: absent through today (return day would be tomorrow)
+                  const isOngoing = !event.tripTo;
+                  const absentDays = calculateAbsentDays(
+                    event.tripFrom!,
+                    event.tripTo || addDaysToLocalDate(todayLocalDate(), 1)
+                  );
+                  const isToday = event.tripFrom === todayLocalDate();
+                  const isFuture = event.tripFrom! > todayLocalDate();
+                  const countsAsPresence = isAbsenceCountedAsPresence({
+                    id: event.id,
+                    from: event.tripFrom!,
+                    reason: event.tripReason,
+                  });
                   
                   return (
                     <View key={event.id} style={styles.timelineItem}>
@@ -637,6 +1164,11 @@ export default function TimelineScreen() {
                                 <Text style={styles.todayBadgeText}>TODAY</Text>
                               </View>
                             )}
+                            {isOngoing && (
+                              <View style={styles.abroadBadge}>
+                                <Text style={styles.futureBadgeText}>ABROAD</Text>
+                              </View>
+                            )}
                           </View>
                           <FontAwesome 
                             name={isExpanded ? "chevron-up" : "chevron-down"} 
@@ -646,12 +1178,16 @@ export default function TimelineScreen() {
                         </View>
                         
                         <Text style={styles.dateText}>
-                          {formatDate(event.tripFrom!)} → {formatDate(event.tripTo!)}
+                          {formatDate(event.tripFrom!)} → {isOngoing ? 'Still abroad' : formatDate(event.tripTo)}
                         </Text>
                         
                         <Text style={[styles.durationText, { opacity: 0.7 }]}>
-                          {absentDays} {absentDays === 1 ? 'day' : 'days'} absent
+                          {countsAsPresence
+                            ? `${ABSENCE_REASON_LABELS[event.tripReason!]} - counts as presence`
+                            : `${absentDays} ${absentDays === 1 ? 'day' : 'days'} absent${isOngoing ? ' so far' : ''}`}
                         </Text>
+
+                        {renderIssues(event.id.replace('trip-', ''))}
                         
                         {/* Expanded actions */}
                         {isExpanded && (
@@ -719,6 +1255,45 @@ export default function TimelineScreen() {
             </View>
           )}
 
+          {travelBudget && budgetBaseline && (
+            <View style={[
+              styles.budgetBox,
+              (!travelBudget.targetReachable ||
+                (travelBudget.latestReturnDate && endDate > travelBudget.latestReturnDate)) &&
+                styles.budgetBoxWarning,
+            ]}>
+              <HStack space="sm" alignItems="flex-start">
+                <FontAwesome name="suitcase" size={14} color="#047857" style={{ marginTop: 1 }} />
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.budgetTitle}>Travel Budget</Text>
+                  {!travelBudget.targetReachable ? (
+                    <Text style={styles.budgetText}>
+                      Even without this trip, you won't have enough days to apply on{' '}
+                      {formatDate(travelBudget.targetDate)}. Your earliest application date is{' '}
+                      {formatDate(budgetBaseline.earliestDate)}; choose a later target below.
+                    </Text>
+                  ) : travelBudget.latestReturnDate ? (
+                    <Text style={styles.budgetText}>
+                      Leaving on {formatDate(travelBudget.tripStartDate)}, you can be away up to{' '}
+                      {travelBudget.maxAbsentDays} full {travelBudget.maxAbsentDays === 1 ? 'day' : 'days'} (return by{' '}
+                      {formatDate(travelBudget.latestReturnDate)}) and still apply on{' '}
+                      {formatDate(travelBudget.targetDate)}.
+                    </Text>
+                  ) : (
+                    <Text style={styles.budgetText}>
+                      This trip starts on or after your target application date ({formatDate(travelBudget.targetDate)}).
+                    </Text>
+                  )}
+                  {travelBudget.latestReturnDate && endDate && endDate > travelBudget.latestReturnDate && (
+                    <Text style={styles.budgetWarningText}>
+                      Returning on {formatDate(endDate)} would push your application date later.
+                    </Text>
+                  )}
+                </View>
+              </HStack>
+            </View>
+          )}
+
           <ScrollView style={styles.modalContent}>
             {modalType === 'status' ? (
               <>
@@ -726,7 +1301,7 @@ export default function TimelineScreen() {
                 <VStack space="sm">
                   <Text style={styles.modalLabel}>Immigration Status</Text>
                   <View style={styles.statusPickerContainer}>
-                    {(['visitor', 'study_permit', 'work_permit', 'protected_person', 'permanent_resident'] as StatusType[]).map((status) => {
+                    {(['visitor', 'study_permit', 'work_permit', 'refugee_claimant', 'protected_person', 'permanent_resident'] as StatusType[]).map((status) => {
                       const colors = STATUS_COLORS[status];
                       const isSelected = selectedStatus === status;
                       return (
@@ -759,19 +1334,22 @@ export default function TimelineScreen() {
                 {/* Start Date */}
                 <VStack space="sm" mt="$4">
                   <Text style={styles.modalLabel}>Start Date</Text>
-                  <Text style={styles.modalNote}>When did this status begin?</Text>
+                  <Text style={styles.modalNote}>
+                    {selectedStatus === 'protected_person'
+                      ? 'The date you were found to be a protected person (not your claim date)'
+                      : selectedStatus === 'refugee_claimant'
+                      ? 'The date you made your refugee claim'
+                      : 'When did this status begin?'}
+                  </Text>
                   {Platform.OS === 'web' ? (
                     <WebDateInput
-                      value={startDate ? new Date(startDate + 'T00:00:00') : new Date()}
+                      value={startDate || todayLocalDate()}
                       onChange={(date) => {
                         if (date) {
-                          const year = date.getFullYear();
-                          const month = String(date.getMonth() + 1).padStart(2, '0');
-                          const day = String(date.getDate()).padStart(2, '0');
-                          setStartDate(`${year}-${month}-${day}`);
+                          setStartDate(date);
                         }
                       }}
-                      max={new Date().toISOString().split('T')[0]}
+                      max={todayLocalDate()}
                     />
                   ) : (
                     <>
@@ -786,20 +1364,17 @@ export default function TimelineScreen() {
                       </TouchableOpacity>
                       {showStartPicker && (
                         <DateTimePicker
-                          value={startDate ? new Date(startDate + 'T12:00:00') : new Date()}
+                          value={startDate ? toPickerDate(startDate) : new Date()}
                           mode="date"
                           display={Platform.OS === 'ios' ? 'spinner' : 'default'}
                           themeVariant={colorScheme}
                           onChange={(event, date) => {
                             if (Platform.OS !== 'ios') setShowStartPicker(false);
                             if (date) {
-                              const year = date.getFullYear();
-                              const month = String(date.getMonth() + 1).padStart(2, '0');
-                              const day = String(date.getDate()).padStart(2, '0');
-                              setStartDate(`${year}-${month}-${day}`);
+                              setStartDate(fromPickerDate(date));
                             }
                           }}
-                          maximumDate={new Date()}
+                          maximumDate={toPickerDate(todayLocalDate())}
                         />
                       )}
                       {Platform.OS === 'ios' && showStartPicker && (
@@ -820,18 +1395,15 @@ export default function TimelineScreen() {
                   <Text style={styles.modalNote}>Leave empty if this is your current status</Text>
                   {Platform.OS === 'web' ? (
                     <WebDateInput
-                      value={endDate ? new Date(endDate + 'T00:00:00') : null}
+                      value={endDate || null}
                       onChange={(date) => {
                         if (date) {
-                          const year = date.getFullYear();
-                          const month = String(date.getMonth() + 1).padStart(2, '0');
-                          const day = String(date.getDate()).padStart(2, '0');
-                          setEndDate(`${year}-${month}-${day}`);
+                          setEndDate(date);
                         } else {
                           setEndDate('');
                         }
                       }}
-                      max={new Date().toISOString().split('T')[0]}
+                      max={todayLocalDate()}
                     />
                   ) : (
                     <>
@@ -849,20 +1421,17 @@ export default function TimelineScreen() {
                       </TouchableOpacity>
                       {showEndPicker && (
                         <DateTimePicker
-                          value={endDate ? new Date(endDate + 'T12:00:00') : new Date()}
+                          value={endDate ? toPickerDate(endDate) : new Date()}
                           mode="date"
                           display={Platform.OS === 'ios' ? 'spinner' : 'default'}
                           themeVariant={colorScheme}
                           onChange={(event, date) => {
                             if (Platform.OS !== 'ios') setShowEndPicker(false);
                             if (date) {
-                              const year = date.getFullYear();
-                              const month = String(date.getMonth() + 1).padStart(2, '0');
-                              const day = String(date.getDate()).padStart(2, '0');
-                              setEndDate(`${year}-${month}-${day}`);
+                              setEndDate(fromPickerDate(date));
                             }
                           }}
-                          maximumDate={new Date()}
+                          maximumDate={toPickerDate(todayLocalDate())}
                         />
                       )}
                       {Platform.OS === 'ios' && showEndPicker && (
@@ -898,6 +1467,7 @@ export default function TimelineScreen() {
                     style={styles.textInput}
                     value={tripPlace}
                     onChangeText={setTripPlace}
+                    maxLength={PROFILE_LIMITS.PLACE_LENGTH}
                     placeholder="e.g., Mexico, India, USA"
                     placeholderTextColor="#94a3b8"
                   />
@@ -909,13 +1479,10 @@ export default function TimelineScreen() {
                   <Text style={styles.modalNote}>Day you left/will leave Canada (can be upcoming)</Text>
                   {Platform.OS === 'web' ? (
                     <WebDateInput
-                      value={startDate ? new Date(startDate + 'T00:00:00') : new Date()}
+                      value={startDate || todayLocalDate()}
                       onChange={(date) => {
                         if (date) {
-                          const year = date.getFullYear();
-                          const month = String(date.getMonth() + 1).padStart(2, '0');
-                          const day = String(date.getDate()).padStart(2, '0');
-                          setStartDate(`${year}-${month}-${day}`);
+                          setStartDate(date);
                         }
                       }}
                     />
@@ -932,17 +1499,14 @@ export default function TimelineScreen() {
                       </TouchableOpacity>
                       {showStartPicker && (
                         <DateTimePicker
-                          value={startDate ? new Date(startDate + 'T12:00:00') : new Date()}
+                          value={startDate ? toPickerDate(startDate) : new Date()}
                           mode="date"
                           display={Platform.OS === 'ios' ? 'spinner' : 'default'}
                           themeVariant={colorScheme}
                           onChange={(event, date) => {
                             if (Platform.OS !== 'ios') setShowStartPicker(false);
                             if (date) {
-                              const year = date.getFullYear();
-                              const month = String(date.getMonth() + 1).padStart(2, '0');
-                              const day = String(date.getDate()).padStart(2, '0');
-                              setStartDate(`${year}-${month}-${day}`);
+                              setStartDate(fromPickerDate(date));
                             }
                           }}
                         />
@@ -963,15 +1527,26 @@ export default function TimelineScreen() {
                 <VStack space="sm" mt="$4">
                   <Text style={styles.modalLabel}>Return Date</Text>
                   <Text style={styles.modalNote}>Day you returned/will return (can be tentative for upcoming trips)</Text>
-                  {Platform.OS === 'web' ? (
+                  <TouchableOpacity
+                    style={styles.ongoingToggle}
+                    onPress={() => {
+                      setTripOngoing(!tripOngoing);
+                      setShowEndPicker(false);
+                    }}
+                  >
+                    <FontAwesome
+                      name={tripOngoing ? 'check-square-o' : 'square-o'}
+                      size={18}
+                      color={tripOngoing ? '#3b82f6' : '#64748b'}
+                    />
+                    <Text style={styles.ongoingToggleText}>I'm still abroad (no return date yet)</Text>
+                  </TouchableOpacity>
+                  {tripOngoing ? null : Platform.OS === 'web' ? (
                     <WebDateInput
-                      value={endDate ? new Date(endDate + 'T00:00:00') : null}
+                      value={endDate || null}
                       onChange={(date) => {
                         if (date) {
-                          const year = date.getFullYear();
-                          const month = String(date.getMonth() + 1).padStart(2, '0');
-                          const day = String(date.getDate()).padStart(2, '0');
-                          setEndDate(`${year}-${month}-${day}`);
+                          setEndDate(date);
                         }
                       }}
                     />
@@ -988,17 +1563,14 @@ export default function TimelineScreen() {
                       </TouchableOpacity>
                       {showEndPicker && (
                         <DateTimePicker
-                          value={endDate ? new Date(endDate + 'T12:00:00') : new Date()}
+                          value={endDate ? toPickerDate(endDate) : new Date()}
                           mode="date"
                           display={Platform.OS === 'ios' ? 'spinner' : 'default'}
                           themeVariant={colorScheme}
                           onChange={(event, date) => {
                             if (Platform.OS !== 'ios') setShowEndPicker(false);
                             if (date) {
-                              const year = date.getFullYear();
-                              const month = String(date.getMonth() + 1).padStart(2, '0');
-                              const day = String(date.getDate()).padStart(2, '0');
-                              setEndDate(`${year}-${month}-${day}`);
+                              setEndDate(fromPickerDate(date));
                             }
                           }}
                         />
@@ -1014,6 +1586,60 @@ export default function TimelineScreen() {
                     </>
                   )}
                 </VStack>
+
+                {/* Reason for the trip */}
+                <VStack space="sm" mt="$4">
+                  <Text style={styles.modalLabel}>Reason</Text>
+                  <Text style={styles.modalNote}>
+                    Time abroad while employed by the Canadian Armed Forces, the federal public administration or a
+                    provincial public service (or accompanying a spouse, partner or parent who is) counts as time in
+                    Canada. Trips for any other reason are deducted as absences.
+                  </Text>
+                  <View style={styles.statusPickerContainer}>
+                    {(Object.values(ABSENCE_REASONS) as AbsenceReason[]).map((reason) => {
+                      const isSelected = tripReason === reason;
+                      return (
+                        <TouchableOpacity
+                          key={reason}
+                          style={[
+                            styles.statusOption,
+                            {
+                              backgroundColor: isSelected ? '#f8faff' : '#f9fafb',
+                              borderColor: isSelected ? '#bfdbfe' : '#e5e7eb',
+                            }
+                          ]}
+                          onPress={() => setTripReason(reason)}
+                        >
+                          <Text style={[
+                            styles.statusOptionText,
+                            { flex: 1, color: isSelected ? '#1e3a8a' : '#6b7280' }
+                          ]}>
+                            {ABSENCE_REASON_LABELS[reason]}
+                          </Text>
+                          {isSelected && (
+                            <FontAwesome name="check" size={14} color="#1e3a8a" />
+                          )}
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                  {tripReason !== ABSENCE_REASONS.PERSONAL && (
+                    <Text style={styles.modalNote}>
+                      This trip won't reduce your eligible days. Keep proof of your employment (or your family
+                      member's) abroad - IRCC may ask for it.
+                    </Text>
+                  )}
+                </VStack>
+
+                {/* Target application date for the travel budget */}
+                {budgetBaseline && (
+                  <DateField
+                    label="Target Application Date"
+                    note={`When you'd like to apply for citizenship. Your earliest date without this trip is ${formatDate(budgetBaseline.earliestDate)}.`}
+                    value={budgetTarget || ''}
+                    onChange={setBudgetTargetDate}
+                  />
+                )}
               </>
             )}
           </ScrollView>
@@ -1042,6 +1668,220 @@ export default function TimelineScreen() {
           </View>
         </View>
       </Modal>
+
+      {/* Modal for the protection decision date */}
+      <Modal
+        visible={!!decisionEntry}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setDecisionEntry(null)}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Protection Decision Date</Text>
+            <TouchableOpacity onPress={() => setDecisionEntry(null)}>
+              <FontAwesome name="times" size={24} color="#64748b" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <Text style={styles.modalNote}>
+              Use the date on your IRB decision or IRCC Pre-Removal Risk Assessment approval. If you pick a date
+              after {decisionEntry ? formatDate(decisionEntry.from) : 'the start date'}, the days before it become a
+              Refugee Claimant entry, which doesn't earn pre-PR credit.
+            </Text>
+            <DateField
+              label="Decision Date"
+              value={decisionDate}
+              onChange={setDecisionDate}
+              maximumDate={decisionEntry?.to || todayLocalDate()}
+            />
+          </ScrollView>
+
+          <View style={styles.modalFooter}>
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={() => setDecisionEntry(null)}
+              disabled={isSaving}
+            >
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.saveButton,
+                isSaving && styles.saveButtonDisabled
+              ]}
+              onPress={handleSaveDecisionDate}
+              disabled={isSaving}
+            >
+              <Text style={styles.saveButtonText}>
+                {isSaving ? 'Saving...' : 'Save'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Modal for confirming an estimated status start date */}
+      <Modal
+        visible={!!estimatedEntry}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setEstimatedEntry(null)}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Status Start Date</Text>
+            <TouchableOpacity onPress={() => setEstimatedEntry(null)}>
+              <FontAwesome name="times" size={24} color="#64748b" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <Text style={styles.modalNote}>
+              Use the date your {estimatedEntry ? STATUS_TYPE_LABELS[estimatedEntry.status] : 'current'} status
+              started (for a permit, the date it was issued or you entered Canada with it). If the date shown is
+              right, just save it.
+            </Text>
+            <DateField
+              label="Start Date"
+              value={confirmedStartDate}
+              onChange={setConfirmedStartDate}
+              maximumDate={estimatedEntry?.to || todayLocalDate()}
+            />
+          </ScrollView>
+
+          <View style={styles.modalFooter}>
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={() => setEstimatedEntry(null)}
+              disabled={isSaving}
+            >
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.saveButton,
+                isSaving && styles.saveButtonDisabled
+              ]}
+              onPress={handleSaveStartDate}
+              disabled={isSaving}
+            >
+              <Text style={styles.saveButtonText}>
+                {isSaving ? 'Saving...' : 'Save'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Modal for sentence, probation and parole periods */}
+      <Modal
+        visible={periodModalVisible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setPeriodModalVisible(false)}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>
+              {editingPeriodId ? 'Edit Period' : 'Add Period'}
+            </Text>
+            <TouchableOpacity onPress={() => setPeriodModalVisible(false)}>
+              <FontAwesome name="times" size={24} color="#64748b" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <Text style={styles.modalNote}>
+              Time in Canada serving a term of imprisonment, on probation or on parole doesn't count toward
+              physical presence. These dates are stored separately from the rest of your profile and are only
+              used to calculate your eligibility.
+            </Text>
+            <VStack space="sm" mt="$4">
+              <Text style={styles.modalLabel}>Type</Text>
+              <View style={styles.statusPickerContainer}>
+                {(Object.values(NON_COUNTABLE_PERIOD_TYPES) as NonCountablePeriodType[]).map((type) => {
+                  const isSelected = periodType === type;
+                  return (
+                    <TouchableOpacity
+                      key={type}
+                      style={[
+                        styles.statusOption,
+                        {
+                          backgroundColor: isSelected ? '#fafaf9' : '#f9fafb',
+                          borderColor: isSelected ? '#a8a29e' : '#e5e7eb',
+                        }
+                      ]}
+                      onPress={() => setPeriodType(type)}
+                    >
+                      <Text style={[
+                        styles.statusOptionText,
+                        { color: isSelected ? '#44403c' : '#6b7280' }
+                      ]}>
+                        {NON_COUNTABLE_PERIOD_TYPE_LABELS[type]}
+                      </Text>
+                      {isSelected && (
+                        <FontAwesome name="check" size={14} color="#44403c" />
+                      )}
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </VStack>
+            <DateField
+              label="Start Date"
+              value={periodFrom}
+              onChange={setPeriodFrom}
+            />
+            <VStack space="sm" mt="$4">
+              <TouchableOpacity
+                style={styles.ongoingToggle}
+                onPress={() => setPeriodOngoing(!periodOngoing)}
+              >
+                <FontAwesome
+                  name={periodOngoing ? 'check-square-o' : 'square-o'}
+                  size={18}
+                  color={periodOngoing ? '#44403c' : '#64748b'}
+                />
+                <Text style={styles.ongoingToggleText}>Still ongoing (no end date yet)</Text>
+              </TouchableOpacity>
+              <Text style={styles.modalNote}>
+                Days from the start date on don't count until you add an end date.
+              </Text>
+            </VStack>
+            {!periodOngoing && (
+              <DateField
+                label="End Date"
+                value={periodTo}
+                onChange={setPeriodTo}
+              />
+            )}
+          </ScrollView>
+
+          <View style={styles.modalFooter}>
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={() => setPeriodModalVisible(false)}
+              disabled={isSaving}
+            >
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.saveButton,
+                isSaving && styles.saveButtonDisabled
+              ]}
+              onPress={handleSavePeriod}
+              disabled={isSaving}
+            >
+              <Text style={styles.saveButtonText}>
+                {isSaving ? 'Saving...' : 'Save'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
       </ScrollView>
     </View>
   );
@@ -1121,6 +1961,88 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#1e293b',
   },
+  abroadCard: {
+    backgroundColor: '#f0f9ff',
+    padding: 15,
+    borderRadius: 10,
+    borderLeftWidth: 3,
+    borderLeftColor: '#0ea5e9',
+  },
+  abroadTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0c4a6e',
+  },
+  abroadText: {
+    fontSize: 13,
+    color: '#475569',
+    lineHeight: 19,
+    marginTop: 2,
+  },
+  abroadButton: {
+    backgroundColor: '#0ea5e9',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  abroadButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  ongoingToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 4,
+  },
+  ongoingToggleText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  decisionCard: {
+    backgroundColor: '#f8f9ff',
+    padding: 15,
+    borderRadius: 10,
+    borderLeftWidth: 3,
+    borderLeftColor: '#6366f1',
+  },
+  decisionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#312e81',
+    marginBottom: 4,
+  },
+  decisionText: {
+    fontSize: 13,
+    color: '#475569',
+    lineHeight: 19,
+  },
+  decisionLink: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4f46e5',
+    marginTop: 8,
+  },
+  periodLink: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#64748b',
+    textAlign: 'center',
+  },
+  periodDot: {
+    backgroundColor: '#78716c',
+  },
+  periodContent: {
+    backgroundColor: '#fafaf9',
+    borderLeftWidth: 3,
+    borderLeftColor: '#78716c',
+  },
+  periodLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#44403c',
+  },
   emptyState: {
     alignItems: 'center',
     padding: 48,
@@ -1251,6 +2173,12 @@ const styles = StyleSheet.create({
     borderRadius: 10,
     backgroundColor: '#fbbf24',
   },
+  abroadBadge: {
+    paddingHorizontal: 7,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: '#0ea5e9',
+  },
   futureBadgeText: {
     fontSize: 8,
     fontWeight: '700',
@@ -1345,6 +2273,64 @@ const styles = StyleSheet.create({
     lineHeight: 17,
     flex: 1,
   },
+  budgetBox: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+    padding: 12,
+    backgroundColor: '#ecfdf5',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#a7f3d0',
+  },
+  budgetBoxWarning: {
+    backgroundColor: '#fffbeb',
+    borderColor: '#fde68a',
+  },
+  budgetTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#065f46',
+    marginBottom: 2,
+  },
+  budgetText: {
+    fontSize: 12,
+    color: '#047857',
+    lineHeight: 17,
+  },
+  budgetWarningText: {
+    fontSize: 12,
+    color: '#92400e',
+    fontWeight: '600',
+    lineHeight: 17,
+    marginTop: 4,
+  },
+  issueBox: {
+    backgroundColor: '#fffbeb',
+    borderRadius: 6,
+    padding: 8,
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: '#fde68a',
+  },
+  issueBoxError: {
+    backgroundColor: '#fef2f2',
+    borderColor: '#fecaca',
+  },
+  issueText: {
+    fontSize: 12,
+    color: '#92400e',
+    fontWeight: '600',
+    lineHeight: 17,
+  },
+  issueTextError: {
+    color: '#991b1b',
+  },
+  issueFixText: {
+    fontSize: 12,
+    color: '#64748b',
+    lineHeight: 17,
+    marginTop: 2,
+  },
   modalContent: {
     flex: 1,
     padding: 20,
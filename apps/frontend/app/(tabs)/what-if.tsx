@@ -0,0 +1,592 @@
+import React, { useState, useMemo } from 'react';
+import { StyleSheet, ScrollView, TouchableOpacity, Modal, TextInput, Platform, Alert } from 'react-native';
+import { View, Text, VStack, HStack } from '@gluestack-ui/themed';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { useAuth } from '@/context/AuthContext';
+import { useAnalytics, useScreenTracking } from '@/hooks/useAnalytics';
+import DateField from '@/components/DateField';
+import { formatDateForDisplay } from '@/utils/dateRangeValidation';
+import {
+  AbsenceEntry,
+  StatusEntry,
+  StatusType,
+  LocalDate,
+  STATUS_TYPE_LABELS,
+} from '@journey-to-citizen/types';
+import {
+  simulateEligibility,
+  getEligibilitySnapshot,
+  EligibilitySnapshot,
+} from '@journey-to-citizen/calculations';
+
+/**
+ * A named set of hypothetical changes (kept in local state only)
+ */
+interface Scenario {
+  id: string;
+  name: string;
+  absences: AbsenceEntry[];
+  statuses: StatusEntry[];
+}
+
+const generateId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+export default function WhatIfScreen() {
+  const { userProfile } = useAuth();
+  const { trackEvent } = useAnalytics();
+
+  useScreenTracking('WhatIf');
+
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+
+  // Modal state for adding a hypothetical change
+  const [modalVisible, setModalVisible] = useState(false);
+  const [modalType, setModalType] = useState<'trip' | 'status'>('trip');
+  const [targetScenarioId, setTargetScenarioId] = useState<string | null>(null);
+  const [selectedStatus, setSelectedStatus] = useState<StatusType>('permanent_resident');
+  const [startDate, setStartDate] = useState<LocalDate | ''>('');
+  const [endDate, setEndDate] = useState<LocalDate | ''>('');
+  const [tripPlace, setTripPlace] = useState('');
+
+  const trackWhatIfAction = (action: string, params?: Record<string, any>) => {
+    trackEvent('what_if_action', {
+      action,
+      screen: 'WhatIf',
+      ...params,
+    });
+  };
+
+  const baseline = useMemo(
+    () => getEligibilitySnapshot(userProfile || {}),
+    [userProfile]
+  );
+
+  const results = useMemo(
+    () => scenarios.map(scenario => ({
+      scenario,
+      result: simulateEligibility(userProfile || {}, {
+        absences: scenario.absences,
+        statuses: scenario.statuses,
+      }),
+    })),
+    [scenarios, userProfile]
+  );
+
+  const handleNewScenario = () => {
+    trackWhatIfAction('new_scenario', { scenario_count: scenarios.length + 1 });
+    setScenarios([
+      ...scenarios,
+      { id: generateId(), name: `Scenario ${scenarios.length + 1}`, absences: [], statuses: [] },
+    ]);
+  };
+
+  const handleDiscardScenario = (id: string) => {
+    trackWhatIfAction('discard_scenario');
+    setScenarios(scenarios.filter(scenario => scenario.id !== id));
+  };
+
+  const handleOpenAdd = (scenarioId: string, type: 'trip' | 'status') => {
+    trackWhatIfAction(type === 'trip' ? 'open_add_trip' : 'open_add_status');
+    setTargetScenarioId(scenarioId);
+    setModalType(type);
+    setSelectedStatus('permanent_resident');
+    setStartDate('');
+    setEndDate('');
+    setTripPlace('');
+    setModalVisible(true);
+  };
+
+  const handleRemoveChange = (scenarioId: string, changeId: string) => {
+    setScenarios(scenarios.map(scenario =>
+      scenario.id === scenarioId
+        ? {
+            ...scenario,
+            absences: scenario.absences.filter(entry => entry.id !== changeId),
+            statuses: scenario.statuses.filter(entry => entry.id !== changeId),
+          }
+        : scenario
+    ));
+  };
+
+  const handleSaveChange = () => {
+    if (!startDate || (modalType === 'trip' && !endDate)) {
+      const message = modalType === 'trip'
+        ? 'Please select departure and return dates'
+        : 'Please select a start date';
+      Platform.OS === 'web' ? alert(message) : Alert.alert('Required', message);
+      return;
+    }
+
+    if (endDate && startDate > endDate) {
+      const message = 'Start date must be before end date';
+      Platform.OS === 'web' ? alert(message) : Alert.alert('Invalid Dates', message);
+      return;
+    }
+
+    setScenarios(scenarios.map(scenario => {
+      if (scenario.id !== targetScenarioId) return scenario;
+      if (modalType === 'trip' && endDate) {
+        return {
+          ...scenario,
+          absences: [...scenario.absences, { id: generateId(), from: startDate, to: endDate, place: tripPlace }],
+        };
+      }
+      return {
+        ...scenario,
+        statuses: [...scenario.statuses, { id: generateId(), status: selectedStatus, from: startDate }],
+      };
+    }));
+    trackWhatIfAction(modalType === 'trip' ? 'add_trip' : 'add_status', { status_type: modalType === 'status' ? selectedStatus : undefined });
+    setModalVisible(false);
+  };
+
+  const renderShift = (days: number) => {
+    if (days === 0) return <Text style={styles.shiftNeutral}>No change</Text>;
+    return (
+      <Text style={days > 0 ? styles.shiftLater : styles.shiftEarlier}>
+        {days > 0 ? `${days} days later` : `${Math.abs(days)} days earlier`}
+      </Text>
+    );
+  };
+
+  const renderColumn = (key: string, title: string, snapshot: EligibilitySnapshot, shift?: number | null) => (
+    <View style={styles.compareColumn} key={key}>
+      <Text style={styles.compareTitle}>{title}</Text>
+      <Text style={styles.compareLabel}>Earliest application</Text>
+      <Text style={styles.compareDate}>
+        {snapshot.earliestEligibilityDate ? formatDateForDisplay(snapshot.earliestEligibilityDate) : 'Not reachable'}
+      </Text>
+      {shift !== undefined && shift !== null && renderShift(shift)}
+      <View style={styles.compareDivider} />
+      <Text style={styles.compareStat}>{snapshot.preDaysCredit} pre-PR credit</Text>
+      <Text style={styles.compareStat}>{snapshot.totalAbsenceDays} absence days</Text>
+      {!snapshot.hasPR && (
+        <Text style={styles.compareNote}>Assumes PR today</Text>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.wrapper}>
+      <ScrollView style={styles.container}>
+        <View style={styles.section}>
+          <VStack space="lg">
+            {/* Header */}
+            <View>
+              <HStack alignItems="center" mb="$2">
+                <FontAwesome name="flask" size={24} color="#3b82f6" />
+                <Text style={styles.title}>What If?</Text>
+              </HStack>
+              <Text style={styles.subtitle}>
+                Try out trips and status changes to see how they move your application date.
+              </Text>
+            </View>
+
+            {/* Info Card */}
+            <View style={styles.infoCard}>
+              <HStack space="sm" alignItems="flex-start">
+                <FontAwesome name="info-circle" size={16} color="#3b82f6" style={{ marginTop: 2 }} />
+                <Text style={styles.infoText}>
+                  Scenarios are a sandbox: nothing here is saved to your profile or timeline.
+                </Text>
+              </HStack>
+            </View>
+
+            {/* Side-by-side comparison */}
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              <HStack space="md">
+                {renderColumn('current', 'Current', baseline)}
+                {results.map(({ scenario, result }) =>
+                  renderColumn(scenario.id, scenario.name, result.after, result.earliestDateShiftDays)
+                )}
+              </HStack>
+            </ScrollView>
+
+            {/* Scenario builders */}
+            {scenarios.map(scenario => (
+              <View key={scenario.id} style={styles.scenarioCard}>
+                <View style={styles.scenarioHeader}>
+                  <Text style={styles.scenarioTitle}>{scenario.name}</Text>
+                  <TouchableOpacity onPress={() => handleDiscardScenario(scenario.id)}>
+                    <Text style={styles.discardText}>Discard</Text>
+                  </TouchableOpacity>
+                </View>
+
+                {scenario.absences.length === 0 && scenario.statuses.length === 0 && (
+                  <Text style={styles.emptyText}>Add a trip or a status change to this scenario.</Text>
+                )}
+
+                {scenario.statuses.map(status => (
+                  <View key={status.id} style={styles.changeRow}>
+                    <FontAwesome name="flag" size={13} color="#22c55e" />
+                    <Text style={styles.changeText}>
+                      {STATUS_TYPE_LABELS[status.status]} from {formatDateForDisplay(status.from)}
+                    </Text>
+                    <TouchableOpacity onPress={() => handleRemoveChange(scenario.id, status.id)}>
+                      <FontAwesome name="times" size={14} color="#94a3b8" />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+
+                {scenario.absences.map(absence => (
+                  <View key={absence.id} style={styles.changeRow}>
+                    <FontAwesome name="plane" size={13} color="#64748b" />
+                    <Text style={styles.changeText}>
+                      {absence.place || 'Trip'}: {formatDateForDisplay(absence.from)} → {absence.to ? formatDateForDisplay(absence.to) : 'Present'}
+                    </Text>
+                    <TouchableOpacity onPress={() => handleRemoveChange(scenario.id, absence.id)}>
+                      <FontAwesome name="times" size={14} color="#94a3b8" />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+
+                <HStack space="md" mt="$3">
+                  <TouchableOpacity
+                    style={styles.scenarioButton}
+                    onPress={() => handleOpenAdd(scenario.id, 'trip')}
+                  >
+                    <FontAwesome name="plane" size={14} color="#3b82f6" />
+                    <Text style={styles.scenarioButtonText}>Add Trip</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.scenarioButton}
+                    onPress={() => handleOpenAdd(scenario.id, 'status')}
+                  >
+                    <FontAwesome name="flag" size={14} color="#22c55e" />
+                    <Text style={styles.scenarioButtonText}>Change Status</Text>
+                  </TouchableOpacity>
+                </HStack>
+              </View>
+            ))}
+
+            <TouchableOpacity style={styles.newScenarioButton} onPress={handleNewScenario}>
+              <FontAwesome name="plus" size={16} color="#fff" />
+              <Text style={styles.newScenarioText}>New Scenario</Text>
+            </TouchableOpacity>
+          </VStack>
+        </View>
+      </ScrollView>
+
+      {/* Modal for adding a hypothetical change */}
+      <Modal
+        visible={modalVisible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>
+              {modalType === 'trip' ? 'Hypothetical Trip' : 'Hypothetical Status'}
+            </Text>
+            <TouchableOpacity onPress={() => setModalVisible(false)}>
+              <FontAwesome name="times" size={24} color="#64748b" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            {modalType === 'status' ? (
+              <>
+                <Text style={styles.modalLabel}>Status</Text>
+                <View style={styles.statusPickerContainer}>
+                  {(['study_permit', 'work_permit', 'protected_person', 'permanent_resident'] as StatusType[]).map(status => (
+                    <TouchableOpacity
+                      key={status}
+                      style={[styles.statusOption, selectedStatus === status && styles.statusOptionSelected]}
+                      onPress={() => setSelectedStatus(status)}
+                    >
+                      <Text style={styles.statusOptionText}>{STATUS_TYPE_LABELS[status]}</Text>
+                      {selectedStatus === status && <FontAwesome name="check" size={14} color="#3b82f6" />}
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <DateField
+                  label="Start Date"
+                  note="When would this status begin?"
+                  value={startDate}
+                  onChange={setStartDate}
+                />
+              </>
+            ) : (
+              <>
+                <Text style={styles.modalLabel}>Destination (Optional)</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={tripPlace}
+                  onChangeText={setTripPlace}
+                  placeholder="e.g., Mexico, India, USA"
+                  placeholderTextColor="#94a3b8"
+                />
+                <DateField label="Departure Date" value={startDate} onChange={setStartDate} />
+                <DateField label="Return Date" value={endDate} onChange={setEndDate} />
+              </>
+            )}
+          </ScrollView>
+
+          <View style={styles.modalFooter}>
+            <TouchableOpacity style={styles.cancelButton} onPress={() => setModalVisible(false)}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.saveButton} onPress={handleSaveChange}>
+              <Text style={styles.saveButtonText}>Add to Scenario</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrapper: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  container: {
+    flex: 1,
+  },
+  section: {
+    padding: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    marginLeft: 12,
+    color: '#1e293b',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#64748b',
+    marginTop: 4,
+  },
+  infoCard: {
+    backgroundColor: '#f8fafc',
+    padding: 15,
+    borderRadius: 10,
+    borderLeftWidth: 3,
+    borderLeftColor: '#3b82f6',
+  },
+  infoText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#64748b',
+    lineHeight: 18,
+  },
+  compareColumn: {
+    width: 180,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    backgroundColor: '#f8fafc',
+  },
+  compareTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  compareLabel: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  compareDate: {
+    fontSize: 17,
+    fontWeight: 'bold',
+    color: '#3b82f6',
+    marginTop: 2,
+  },
+  compareDivider: {
+    height: 1,
+    backgroundColor: '#e2e8f0',
+    marginVertical: 10,
+  },
+  compareStat: {
+    fontSize: 12,
+    color: '#475569',
+    marginTop: 2,
+  },
+  compareNote: {
+    fontSize: 11,
+    color: '#94a3b8',
+    fontStyle: 'italic',
+    marginTop: 6,
+  },
+  shiftNeutral: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 4,
+  },
+  shiftLater: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#ef4444',
+    marginTop: 4,
+  },
+  shiftEarlier: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#10b981',
+    marginTop: 4,
+  },
+  scenarioCard: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    backgroundColor: '#fff',
+  },
+  scenarioHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  scenarioTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  discardText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+  emptyText: {
+    fontSize: 13,
+    color: '#94a3b8',
+  },
+  changeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 6,
+  },
+  changeText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#475569',
+  },
+  scenarioButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#f8fafc',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  scenarioButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  newScenarioButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#3b82f6',
+    padding: 14,
+    borderRadius: 10,
+  },
+  newScenarioText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  // Modal styles
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  modalContent: {
+    flex: 1,
+    padding: 20,
+  },
+  modalLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  textInput: {
+    fontSize: 15,
+    padding: 14,
+    backgroundColor: '#f9fafb',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    color: '#1f2937',
+    marginTop: 8,
+  },
+  statusPickerContainer: {
+    marginTop: 8,
+    gap: 8,
+  },
+  statusOption: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 14,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#f9fafb',
+  },
+  statusOptionSelected: {
+    borderColor: '#bfdbfe',
+    backgroundColor: '#eff6ff',
+  },
+  statusOptionText: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#1f2937',
+  },
+  modalFooter: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#e2e8f0',
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 10,
+    alignItems: 'center',
+    backgroundColor: '#f1f5f9',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 10,
+    alignItems: 'center',
+    backgroundColor: '#3b82f6',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+});
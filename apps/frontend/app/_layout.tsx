@@ -107,6 +107,38 @@ function RootLayoutNav() {
                 presentation: 'card',
               }} 
             />
+            <Stack.Screen 
+              name="eligibility-explanation" 
+              options={{ 
+                title: 'Why This Date?',
+                headerShown: true,
+                presentation: 'card',
+              }} 
+            />
+            <Stack.Screen 
+              name="statistics" 
+              options={{ 
+                title: 'Presence by Year',
+                headerShown: true,
+                presentation: 'card',
+              }} 
+            />
+            <Stack.Screen 
+              name="import-travel-history" 
+              options={{ 
+                title: 'Import Travel History',
+                headerShown: true,
+                presentation: 'card',
+              }} 
+            />
+            <Stack.Screen 
+              name="restore-backup" 
+              options={{ 
+                title: 'Restore From Backup',
+                headerShown: true,
+                presentation: 'card',
+              }} 
+            />
             <Stack.Screen 
               name="support" 
               options={{ 
@@ -61,6 +61,7 @@ export default function DeleteAccountScreen() {
                 <Text>• Your account information (email address, display name)</Text>
                 <Text>• Your profile data (PR date, immigration status, country of origin)</Text>
                 <Text>• Your travel history and absence records</Text>
+                <Text>• Any sentence, probation or parole periods you recorded</Text>
                 <Text>• Your physical presence records in Canada</Text>
                 <Text>• All analytics and usage data associated with your account</Text>
               </VStack>
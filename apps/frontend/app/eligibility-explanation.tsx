@@ -0,0 +1,373 @@
+import { StyleSheet, ScrollView } from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { useMemo } from 'react';
+
+import { Text, View } from '@/components/Themed';
+import { useAuth } from '@/context/AuthContext';
+import { useScreenTracking } from '@/hooks/useAnalytics';
+import { formatDateForDisplay } from '@/utils/dateRangeValidation';
+import { STATUS_TYPE_LABELS } from '@journey-to-citizen/types';
+import {
+  explainEligibility,
+  EligibilityTraceStep,
+  TraceStatusRangeStep,
+  TraceAbsenceStep,
+} from '@journey-to-citizen/calculations';
+
+/**
+ * "Why this date?" screen
+ * Walks through the eligibility calculation step by step using the
+ * explanation trace from the shared calculations package.
+ */
+export default function EligibilityExplanationScreen() {
+  const { userProfile } = useAuth();
+
+  useScreenTracking('EligibilityExplanation');
+
+  const trace = useMemo(
+    () => explainEligibility(userProfile || {}),
+    [userProfile]
+  );
+
+  const statusRanges = trace.steps.filter(
+    (step): step is TraceStatusRangeStep => step.type === 'status_range'
+  );
+  const absences = trace.steps.filter(
+    (step): step is TraceAbsenceStep => step.type === 'absence'
+  );
+  const findStep = <T extends EligibilityTraceStep['type']>(type: T) =>
+    trace.steps.find((step) => step.type === type) as Extract<EligibilityTraceStep, { type: T }>;
+
+  const windowStep = findStep('window');
+  const creditStep = findStep('credit');
+  const totalStep = findStep('total');
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.section}>
+        {/* Result */}
+        <View style={styles.resultCard}>
+          <FontAwesome name="calendar-check-o" size={24} color="#3b82f6" />
+          <Text style={styles.resultLabel}>Earliest application date</Text>
+          <Text style={styles.resultValue}>
+            {totalStep.earliestEligibilityDate
+              ? formatDateForDisplay(totalStep.earliestEligibilityDate)
+              : totalStep.earliestEligibilityDate === null
+                ? 'Not reachable with your current timeline'
+                : 'Available once you add your PR date'}
+          </Text>
+        </View>
+
+        {/* Step 1: Window */}
+        <View style={styles.stepCard}>
+          <Text style={styles.stepNumber}>Step 1</Text>
+          <Text style={styles.stepTitle}>The 5-year window</Text>
+          <Text style={styles.stepText}>
+            IRCC looks at the 5 years immediately before your application date. Calculated as of{' '}
+            <Text style={styles.bold}>{formatDateForDisplay(windowStep.referenceDate)}</Text>, that is{' '}
+            <Text style={styles.bold}>{formatDateForDisplay(windowStep.windowStart)}</Text> to{' '}
+            <Text style={styles.bold}>{formatDateForDisplay(windowStep.windowEnd)}</Text>.
+          </Text>
+          {windowStep.prDate && (
+            <Text style={styles.stepNote}>
+              {windowStep.prDateInWindow
+                ? `Your PR date (${formatDateForDisplay(windowStep.prDate)}) falls inside the window, so days before it count as pre-PR time.`
+                : `Your PR date (${formatDateForDisplay(windowStep.prDate)}) is before the window, so every day in the window counts as PR time.`}
+            </Text>
+          )}
+        </View>
+
+        {/* Step 2: Status ranges */}
+        <View style={styles.stepCard}>
+          <Text style={styles.stepNumber}>Step 2</Text>
+          <Text style={styles.stepTitle}>Your status in the window</Text>
+          {statusRanges.map((range) => (
+            <View key={range.from} style={styles.row}>
+              <View style={styles.rowMain}>
+                <Text style={styles.rowTitle}>
+                  {range.status ? STATUS_TYPE_LABELS[range.status] : 'No status recorded'}
+                </Text>
+                <Text style={styles.rowSubtitle}>
+                  {formatDateForDisplay(range.from)} — {formatDateForDisplay(range.to)} · {range.days} days
+                </Text>
+              </View>
+              <Text style={styles.rowValue}>
+                {range.creditPerDay === 1 ? '1×' : range.creditPerDay === 0.5 ? '0.5×' : '0×'}
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        {/* Step 3: Absences */}
+        <View style={styles.stepCard}>
+          <Text style={styles.stepNumber}>Step 3</Text>
+          <Text style={styles.stepTitle}>Trips outside Canada</Text>
+          <Text style={styles.stepNote}>
+            Only full days outside Canada are deducted. The day you left and the day you came back count as present.
+          </Text>
+          {absences.length === 0 ? (
+            <Text style={styles.stepText}>No trips overlap the window.</Text>
+          ) : (
+            absences.map((absence) => (
+              <View key={absence.absenceId} style={styles.row}>
+                <View style={styles.rowMain}>
+                  <Text style={styles.rowTitle}>{absence.place || 'Trip abroad'}</Text>
+                  <Text style={styles.rowSubtitle}>
+                    {formatDateForDisplay(absence.from)} → {formatDateForDisplay(absence.to)}
+                  </Text>
+                </View>
+                <View style={styles.rowValues}>
+                  {absence.prDaysDeducted > 0 && (
+                    <Text style={styles.rowValueNegative}>-{absence.prDaysDeducted} PR days</Text>
+                  )}
+                  {absence.prePRDaysDeducted > 0 && (
+                    <Text style={styles.rowValueNegative}>-{absence.prePRDaysDeducted} pre-PR days</Text>
+                  )}
+                  {absence.uncountedDays > 0 && (
+                    <Text style={styles.rowValueMuted}>{absence.uncountedDays} days not counted anyway</Text>
+                  )}
+                </View>
+              </View>
+            ))
+          )}
+        </View>
+
+        {/* Step 4: Pre-PR credit */}
+        <View style={styles.stepCard}>
+          <Text style={styles.stepNumber}>Step 4</Text>
+          <Text style={styles.stepTitle}>Pre-PR credit</Text>
+          <View style={styles.calculationRow}>
+            <Text style={styles.calculationLabel}>Days on a countable status before PR:</Text>
+            <Text style={styles.calculationValue}>{creditStep.prePRGrossDays}</Text>
+          </View>
+          <View style={styles.calculationRow}>
+            <Text style={styles.calculationLabel}>- Full days absent:</Text>
+            <Text style={styles.calculationValue}>-{creditStep.prePRAbsenceDays}</Text>
+          </View>
+          {creditStep.prePRNonCountableDays > 0 && (
+            <View style={styles.calculationRow}>
+              <Text style={styles.calculationLabel}>- Days serving a sentence, on probation or parole:</Text>
+              <Text style={styles.calculationValue}>-{creditStep.prePRNonCountableDays}</Text>
+            </View>
+          )}
+          <View style={styles.calculationRow}>
+            <Text style={styles.calculationLabel}>× 0.5 (rounded down):</Text>
+            <Text style={styles.calculationValue}>{creditStep.uncappedCredit}</Text>
+          </View>
+          <View style={styles.calculationDivider} />
+          <View style={styles.calculationRow}>
+            <Text style={styles.calculationLabelBold}>Pre-PR credit (max {creditStep.cap}):</Text>
+            <Text style={styles.calculationValueBold}>{creditStep.preDaysCredit}</Text>
+          </View>
+          {creditStep.capApplied && (
+            <Text style={styles.stepNote}>
+              The {creditStep.cap}-day maximum was applied to your credit.
+            </Text>
+          )}
+        </View>
+
+        {/* Step 5: Total */}
+        <View style={styles.stepCard}>
+          <Text style={styles.stepNumber}>Step 5</Text>
+          <Text style={styles.stepTitle}>Putting it together</Text>
+          <View style={styles.calculationRow}>
+            <Text style={styles.calculationLabel}>+ Days as Permanent Resident:</Text>
+            <Text style={styles.calculationValue}>{totalStep.prDays}</Text>
+          </View>
+          <View style={styles.calculationRow}>
+            <Text style={styles.calculationLabel}>- Full days absent as PR:</Text>
+            <Text style={styles.calculationValue}>-{totalStep.prAbsenceDays}</Text>
+          </View>
+          {totalStep.prNonCountableDays > 0 && (
+            <View style={styles.calculationRow}>
+              <Text style={styles.calculationLabel}>- Days serving a sentence, on probation or parole:</Text>
+              <Text style={styles.calculationValue}>-{totalStep.prNonCountableDays}</Text>
+            </View>
+          )}
+          <View style={styles.calculationRow}>
+            <Text style={styles.calculationLabel}>+ Pre-PR credit:</Text>
+            <Text style={styles.calculationValue}>+{totalStep.preDaysCredit}</Text>
+          </View>
+          <View style={styles.calculationDivider} />
+          <View style={styles.calculationRow}>
+            <Text style={styles.calculationLabelBold}>Total eligible days:</Text>
+            <Text style={styles.calculationValueBold}>
+              {totalStep.totalEligibleDays} / {totalStep.daysRequired}
+            </Text>
+          </View>
+          <Text style={styles.stepText}>
+            {totalStep.daysRemaining === 0
+              ? 'You have enough eligible days to apply.'
+              : `You need ${totalStep.daysRemaining} more eligible days. The earliest date is found by moving the 5-year window forward day by day: days as a PR are added (minus any trips you've planned), while older days drop out of the window, until it holds ${totalStep.daysRequired} eligible days.`}
+          </Text>
+        </View>
+
+        {/* Disclaimer */}
+        <View style={styles.disclaimerCard}>
+          <FontAwesome name="info-circle" size={14} color="#64748b" />
+          <Text style={styles.disclaimerText}>
+            This explanation is based on the information you've provided and is for planning
+            purposes only. For official eligibility determination, consult IRCC.
+          </Text>
+        </View>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  section: {
+    padding: 20,
+  },
+  resultCard: {
+    backgroundColor: '#fff',
+    padding: 20,
+    borderRadius: 16,
+    marginBottom: 16,
+    borderWidth: 2,
+    borderColor: '#3b82f6',
+    alignItems: 'center',
+  },
+  resultLabel: {
+    fontSize: 14,
+    color: '#64748b',
+    marginTop: 8,
+  },
+  resultValue: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#1e293b',
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  stepCard: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  stepNumber: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#3b82f6',
+    letterSpacing: 0.8,
+    textTransform: 'uppercase',
+  },
+  stepTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  stepText: {
+    fontSize: 14,
+    color: '#475569',
+    lineHeight: 20,
+    marginTop: 4,
+  },
+  stepNote: {
+    fontSize: 12,
+    color: '#64748b',
+    fontStyle: 'italic',
+    lineHeight: 16,
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  bold: {
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+    backgroundColor: 'transparent',
+  },
+  rowMain: {
+    flex: 1,
+    backgroundColor: 'transparent',
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1e293b',
+  },
+  rowSubtitle: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  rowValues: {
+    alignItems: 'flex-end',
+    backgroundColor: 'transparent',
+  },
+  rowValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3b82f6',
+  },
+  rowValueNegative: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+  rowValueMuted: {
+    fontSize: 12,
+    color: '#94a3b8',
+  },
+  calculationRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    backgroundColor: 'transparent',
+  },
+  calculationLabel: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  calculationValue: {
+    fontSize: 14,
+    color: '#475569',
+    fontWeight: '500',
+  },
+  calculationLabelBold: {
+    fontSize: 14,
+    color: '#1e293b',
+    fontWeight: '600',
+  },
+  calculationValueBold: {
+    fontSize: 14,
+    color: '#3b82f6',
+    fontWeight: 'bold',
+  },
+  calculationDivider: {
+    height: 1,
+    backgroundColor: '#cbd5e1',
+    marginVertical: 8,
+  },
+  disclaimerCard: {
+    backgroundColor: '#f1f5f9',
+    padding: 16,
+    borderRadius: 10,
+    flexDirection: 'row',
+    gap: 10,
+    borderLeftWidth: 3,
+    borderLeftColor: '#94a3b8',
+  },
+  disclaimerText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#475569',
+    lineHeight: 18,
+  },
+});
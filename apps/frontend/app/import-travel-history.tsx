@@ -0,0 +1,389 @@
+import { StyleSheet, ScrollView, TouchableOpacity, TextInput, Platform, Alert, ActivityIndicator } from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { useMemo, useState } from 'react';
+import { useRouter } from 'expo-router';
+
+import { Text, View } from '@/components/Themed';
+import { useAuth } from '@/context/AuthContext';
+import { useAnalytics, useScreenTracking } from '@/hooks/useAnalytics';
+import { useFirebaseFunctions } from '@/hooks/useFirebaseFunctions';
+import { formatDateForDisplay, formatOverlappingRangesMessage } from '@/utils/dateRangeValidation';
+import { pickTextFile } from '@/utils/dataExport';
+import { importTravelHistory, TripCandidate, UnpairedRecord } from '@/utils/travelHistoryImport';
+import { daysBetweenLocalDates } from '@journey-to-citizen/calculations';
+
+const candidateKey = (candidate: TripCandidate) => `${candidate.exit.line}-${candidate.entry.line}`;
+
+// Trips already in the timeline, or overlapping one, can't be added
+const isSelectable = (candidate: TripCandidate) => !candidate.duplicate && candidate.overlapping.length === 0;
+
+function describeUnpaired({ record, reason }: UnpairedRecord): string {
+  const where = record.location ? ` (${record.location})` : '';
+  return reason === 'exit_without_entry'
+    ? `Left Canada on ${formatDateForDisplay(record.date)}${where}, but no later entry was found`
+    : `Entered Canada on ${formatDateForDisplay(record.date)}${where}, but no earlier exit was found`;
+}
+
+/**
+ * Import Travel History screen
+ * Turns the entry/exit records of a CBSA or IRCC travel history into trips.
+ * Users review the trips found (and the records that couldn't be paired)
+ * and choose which to add before anything is saved.
+ */
+export default function ImportTravelHistoryScreen() {
+  const router = useRouter();
+  const { userProfile, updateLocalProfile, refreshProfile } = useAuth();
+  const { addAbsences } = useFirebaseFunctions();
+  const { trackEvent } = useAnalytics();
+  const [historyText, setHistoryText] = useState('');
+  const [deselected, setDeselected] = useState<Record<string, boolean>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useScreenTracking('ImportTravelHistory');
+
+  const trackImportAction = (action: string, params?: Record<string, any>) => {
+    trackEvent('import_travel_history_action', { action, ...params });
+  };
+
+  const result = useMemo(
+    () => (historyText.trim() ? importTravelHistory(historyText, userProfile?.travelAbsences || []) : null),
+    [historyText, userProfile]
+  );
+
+  const selected = (result?.candidates || []).filter(
+    (candidate) => isSelectable(candidate) && !deselected[candidateKey(candidate)]
+  );
+
+  const handleChooseFile = async () => {
+    trackImportAction('choose_file');
+    try {
+      const text = await pickTextFile('.csv,.txt,text/csv,text/plain');
+      if (text !== null) {
+        setHistoryText(text);
+        setDeselected({});
+      }
+    } catch (error: any) {
+      alert(`Error: ${error.message || 'Failed to read the file'}`);
+    }
+  };
+
+  const toggleCandidate = (candidate: TripCandidate) => {
+    const key = candidateKey(candidate);
+    setDeselected({ ...deselected, [key]: !deselected[key] });
+  };
+
+  const handleSave = async () => {
+    if (selected.length === 0) return;
+
+    setIsSaving(true);
+    try {
+      trackImportAction('save_attempt', {
+        trips: selected.length,
+        candidates: result?.candidates.length,
+        unpaired: result?.unpaired.length,
+      });
+      const response = await addAbsences({
+        revision: userProfile?.revision ?? 0,
+        absences: selected.map((candidate) => candidate.absence),
+      });
+      if (response.data) {
+        updateLocalProfile(response.data);
+      }
+      trackImportAction('save_success', { trips: selected.length });
+
+      const message = `${selected.length} trip${selected.length !== 1 ? 's' : ''} added to your timeline.`;
+      Platform.OS === 'web' ? alert(message) : Alert.alert('Trips Imported', message);
+      router.back();
+    } catch (error: any) {
+      trackImportAction('save_error', { error: error.message });
+      let message = error.message || 'Failed to add trips';
+      // The timeline changed since it was loaded: reload it so the review is current
+      if (error?.code === 'functions/failed-precondition' && error?.details?.currentRevision !== undefined) {
+        await refreshProfile();
+        message = 'Your timeline was changed on another device. The trips have been checked again, please review them and try again.';
+      }
+      Platform.OS === 'web' ? alert(`Error: ${message}`) : Alert.alert('Error', message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
+      <View style={styles.section}>
+        <Text style={styles.intro}>
+          Add trips from your official travel history instead of typing them. You can request your entry and exit
+          records from the CBSA, or a travel history report from IRCC. Each exit from Canada is paired with the
+          next entry into Canada; you choose which trips to add.
+        </Text>
+
+        {Platform.OS === 'web' && (
+          <TouchableOpacity style={styles.fileButton} onPress={handleChooseFile} disabled={isSaving}>
+            <FontAwesome name="upload" size={16} color="#3b82f6" />
+            <Text style={styles.fileButtonText}>Choose CSV or text file</Text>
+          </TouchableOpacity>
+        )}
+
+        <Text style={styles.label}>
+          {Platform.OS === 'web' ? 'Or paste your travel history' : 'Paste your travel history'}
+        </Text>
+        <TextInput
+          style={styles.input}
+          value={historyText}
+          onChangeText={(text) => {
+            setHistoryText(text);
+            setDeselected({});
+          }}
+          placeholder={'Date,Direction,Port\n2024-01-05,Exit,Lacolle\n2024-01-19,Entry,Lacolle'}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+          editable={!isSaving}
+        />
+        <Text style={styles.note}>
+          One record per line, with the date and whether it's an entry or an exit. Dates like 2024-01-05,
+          Jan 5, 2024 or 05 JAN 2024 are recognized.
+        </Text>
+
+        {result && (
+          <>
+            {/* Trips found */}
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Trips found ({result.candidates.length})</Text>
+              {result.candidates.length === 0 && (
+                <Text style={styles.emptyText}>No exit followed by an entry was found.</Text>
+              )}
+              {result.candidates.map((candidate) => {
+                const selectable = isSelectable(candidate);
+                const isSelected = selectable && !deselected[candidateKey(candidate)];
+                const { from, to } = candidate.absence;
+                const days = to ? daysBetweenLocalDates(from, to) + 1 : 0;
+                const ports = [
+                  candidate.exit.location && `Left via ${candidate.exit.location}`,
+                  candidate.entry.location && `returned via ${candidate.entry.location}`,
+                ].filter(Boolean).join(', ');
+
+                return (
+                  <TouchableOpacity
+                    key={candidateKey(candidate)}
+                    style={styles.tripRow}
+                    onPress={() => toggleCandidate(candidate)}
+                    disabled={!selectable || isSaving}
+                  >
+                    <FontAwesome
+                      name={isSelected ? 'check-square' : 'square-o'}
+                      size={18}
+                      color={selectable ? '#3b82f6' : '#cbd5e1'}
+                      style={styles.checkbox}
+                    />
+                    <View style={styles.tripDetails}>
+                      <Text style={[styles.tripDates, !selectable && styles.tripDatesDisabled]}>
+                        {formatDateForDisplay(from)} – {to ? formatDateForDisplay(to) : 'Present'} ({days} day
+                        {days !== 1 ? 's' : ''})
+                      </Text>
+                      {!!ports && <Text style={styles.tripMeta}>{ports}</Text>}
+                      {candidate.duplicate ? (
+                        <Text style={styles.tripWarning}>Already in your timeline</Text>
+                      ) : candidate.overlapping.length > 0 ? (
+                        <Text style={styles.tripWarning}>
+                          Overlaps a trip in your timeline: {formatOverlappingRangesMessage(candidate.overlapping)}
+                        </Text>
+                      ) : null}
+                    </View>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {/* Records that couldn't be paired */}
+            {(result.unpaired.length > 0 || result.unrecognizedLines.length > 0) && (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Needs your attention</Text>
+                {result.unpaired.map((unpaired) => (
+                  <View key={`${unpaired.record.line}-${unpaired.record.direction}`} style={styles.issueRow}>
+                    <FontAwesome name="exclamation-triangle" size={12} color="#d97706" style={styles.issueIcon} />
+                    <Text style={styles.issueText}>
+                      Line {unpaired.record.line}: {describeUnpaired(unpaired)}
+                    </Text>
+                  </View>
+                ))}
+                {result.unrecognizedLines.length > 0 && (
+                  <View style={styles.issueRow}>
+                    <FontAwesome name="question-circle" size={12} color="#64748b" style={styles.issueIcon} />
+                    <Text style={styles.issueText}>
+                      No entry or exit recognized on line{result.unrecognizedLines.length !== 1 ? 's' : ''}{' '}
+                      {result.unrecognizedLines.join(', ')}
+                    </Text>
+                  </View>
+                )}
+                <Text style={styles.note}>
+                  Records that couldn't be paired aren't imported. If they're part of a trip, add it from the
+                  timeline with the dates you know. The entry of your first arrival in Canada has no matching exit.
+                </Text>
+              </View>
+            )}
+
+            <TouchableOpacity
+              style={[styles.saveButton, (selected.length === 0 || isSaving) && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={selected.length === 0 || isSaving}
+            >
+              {isSaving ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.saveButtonText}>
+                  {selected.length === 0
+                    ? 'No trips selected'
+                    : `Add ${selected.length} trip${selected.length !== 1 ? 's' : ''}`}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  section: {
+    padding: 20,
+  },
+  intro: {
+    fontSize: 14,
+    color: '#475569',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  fileButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#93c5fd',
+    backgroundColor: '#fff',
+    marginBottom: 16,
+  },
+  fileButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#3b82f6',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#cbd5e1',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    minHeight: 120,
+    maxHeight: 200,
+    textAlignVertical: 'top',
+    backgroundColor: '#fff',
+    marginBottom: 8,
+  },
+  note: {
+    fontSize: 12,
+    color: '#64748b',
+    fontStyle: 'italic',
+    lineHeight: 16,
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  tripRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+  },
+  checkbox: {
+    width: 24,
+    marginTop: 1,
+  },
+  tripDetails: {
+    flex: 1,
+    backgroundColor: 'transparent',
+  },
+  tripDates: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1e293b',
+  },
+  tripDatesDisabled: {
+    color: '#94a3b8',
+  },
+  tripMeta: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  tripWarning: {
+    fontSize: 12,
+    color: '#b45309',
+    marginTop: 2,
+  },
+  issueRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    paddingVertical: 4,
+    backgroundColor: 'transparent',
+  },
+  issueIcon: {
+    marginTop: 3,
+    width: 12,
+  },
+  issueText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#1e293b',
+    lineHeight: 18,
+  },
+  saveButton: {
+    backgroundColor: '#3b82f6',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+});
@@ -35,6 +35,7 @@ export default function PrivacyPolicyScreen() {
                 <Text>• <Text fontWeight="$bold">Immigration Details:</Text> PR date, immigration status, country of origin</Text>
                 <Text>• <Text fontWeight="$bold">Travel History:</Text> Dates of travel outside Canada, destinations</Text>
                 <Text>• <Text fontWeight="$bold">Presence History:</Text> Dates of presence in Canada before PR, purpose of stay</Text>
+                <Text>• <Text fontWeight="$bold">Non-Countable Periods (optional):</Text> Dates spent serving a sentence, on probation or on parole. These are stored separately from the rest of your profile, are only readable through the app, and are never written to logs</Text>
               </VStack>
 
               <Heading size="md" mt="$2">Automatically Collected Information</Heading>
@@ -108,7 +109,7 @@ export default function PrivacyPolicyScreen() {
                 <Text>• <Text fontWeight="$bold">Access:</Text> View all data we have about you through the app</Text>
                 <Text>• <Text fontWeight="$bold">Correction:</Text> Update or correct your information in your profile</Text>
                 <Text>• <Text fontWeight="$bold">Deletion:</Text> Request deletion of your account and data from Profile settings. Your account enters a 30-day grace period, after which all data is permanently deleted. You can cancel during this period.</Text>
-                <Text>• <Text fontWeight="$bold">Export:</Text> Request a copy of your data in a portable format (feature in development - contact support)</Text>
+                <Text>• <Text fontWeight="$bold">Export:</Text> Download a copy of your data (JSON, plus CSV files of your trips and statuses) from Profile settings with "Export My Data"</Text>
                 <Text>• <Text fontWeight="$bold">Opt-Out:</Text> Disable analytics tracking (feature in development - currently limited to browser/device settings)</Text>
               </VStack>
             </VStack>
@@ -185,7 +186,7 @@ export default function PrivacyPolicyScreen() {
               <VStack space="xs" ml="$4">
                 <Text>• We make reasonable efforts to comply with GDPR requirements</Text>
                 <Text>• You have additional rights under GDPR including data portability and the right to object</Text>
-                <Text>• <Text fontWeight="$bold">Note:</Text> Some features like data export and analytics opt-out are still in development</Text>
+                <Text>• <Text fontWeight="$bold">Note:</Text> Some features like analytics opt-out are still in development</Text>
                 <Text>• Contact us at privacy@journeytocitizen.com to exercise your GDPR rights</Text>
               </VStack>
             </VStack>
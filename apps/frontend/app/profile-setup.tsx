@@ -31,7 +31,17 @@ import {
 import { useAuth } from '@/context/AuthContext';
 import { useFirebaseFunctions } from '@/hooks/useFirebaseFunctions';
 import { useScreenTracking } from '@/hooks/useAnalytics';
-import { StatusType, STATUS_TYPE_LABELS } from '@journey-to-citizen/types';
+import {
+  StatusType,
+  LocalDate,
+  STATUS_TYPE_LABELS,
+  UpdateProfileData,
+  PROFILE_LIMITS,
+  parseSchema,
+  formatFieldErrors,
+  updateProfileDataSchema,
+} from '@journey-to-citizen/types';
+import { todayLocalDate, toPickerDate, fromPickerDate } from '@journey-to-citizen/calculations';
 
 // Status options with colors for visual distinction
 const STATUS_OPTIONS: { value: StatusType; label: string; description: string; color: string }[] = [
@@ -39,7 +49,8 @@ const STATUS_OPTIONS: { value: StatusType; label: string; description: string; c
   { value: 'work_permit', label: 'Work Permit', description: 'Working in Canada', color: '#22c55e' },
   { value: 'study_permit', label: 'Study Permit', description: 'Studying in Canada', color: '#3b82f6' },
   { value: 'visitor', label: 'Visitor', description: 'Visiting Canada', color: '#f59e0b' },
-  { value: 'protected_person', label: 'Protected Person', description: 'Refugee or protected status', color: '#a855f7' },
+  { value: 'refugee_claimant', label: 'Refugee Claimant', description: 'Waiting for a decision on my claim', color: '#6366f1' },
+  { value: 'protected_person', label: 'Protected Person', description: 'My refugee claim was accepted', color: '#a855f7' },
 ];
 
 export default function ProfileSetupScreen() {
@@ -54,7 +65,7 @@ export default function ProfileSetupScreen() {
   // Form state - simplified timeline approach
   const [displayName, setDisplayName] = useState('');
   const [currentStatus, setCurrentStatus] = useState<StatusType>('work_permit');
-  const [statusStartDate, setStatusStartDate] = useState<Date>(new Date());
+  const [statusStartDate, setStatusStartDate] = useState<LocalDate>(todayLocalDate());
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [hasTravelAbsences, setHasTravelAbsences] = useState<'yes' | 'no'>('no');
   const [agreedToPrivacy, setAgreedToPrivacy] = useState(false);
@@ -65,7 +76,7 @@ export default function ProfileSetupScreen() {
       setShowDatePicker(false);
     }
     if (selectedDate) {
-      setStatusStartDate(selectedDate);
+      setStatusStartDate(fromPickerDate(selectedDate));
     }
     if (event.type === 'dismissed') {
       setShowDatePicker(false);
@@ -100,35 +111,33 @@ export default function ProfileSetupScreen() {
 
     setIsSubmitting(true);
     try {
-      const statusStartDateStr = statusStartDate.toISOString().split('T')[0];
-      
       // Create the initial status entry for the timeline
       const statusEntry = {
         id: `initial-${Date.now()}`,
         status: currentStatus,
-        from: statusStartDateStr,
+        from: statusStartDate,
         to: undefined, // Current/ongoing status
+        // Protected person status is entered from the decision date (see date note below)
+        decisionDateConfirmed: currentStatus === 'protected_person' ? true : undefined,
       };
 
-      // Build profile data with both new and legacy formats for backward compatibility
-      const profileData: any = {
+      // New profiles use the timeline format only (no legacy
+      // immigrationStatus/prDate/presenceInCanada fields)
+      const profileData: UpdateProfileData = {
         displayName: displayName.trim(),
         profileComplete: true,
-        // NEW: Timeline-based status history
         statusHistory: [statusEntry],
-        // LEGACY: Keep for backward compatibility during migration
-        immigrationStatus: currentStatus === 'study_permit' ? 'student' 
-          : currentStatus === 'work_permit' ? 'worker'
-          : currentStatus === 'permanent_resident' ? 'permanent_resident'
-          : 'visitor',
-        // Set prDate if PR status
-        prDate: currentStatus === 'permanent_resident' ? statusStartDateStr : undefined,
-        // Initialize empty arrays
-        presenceInCanada: [],
         travelAbsences: [],
+        revision: userProfile?.revision ?? 0,
       };
 
-      const result = await updateUserProfile(profileData);
+      // Same checks as the function, so errors show before the call
+      const validation = parseSchema(updateProfileDataSchema, profileData);
+      if (!validation.success) {
+        throw new Error(formatFieldErrors(validation.errors));
+      }
+
+      const result = await updateUserProfile(validation.data);
 
       // Update local profile with returned data
       if (result.data) {
@@ -174,6 +183,7 @@ export default function ProfileSetupScreen() {
                 placeholder="Enter your full name"
                 value={displayName}
                 onChangeText={setDisplayName}
+                maxLength={PROFILE_LIMITS.DISPLAY_NAME_LENGTH}
                 autoCapitalize="words"
               />
             </Input>
@@ -236,13 +246,15 @@ export default function ProfileSetupScreen() {
             <Text size="xs" color="$textLight600" mb="$2">
               {isPR 
                 ? 'Refer to the back of your PR Card or Confirmation of PR document'
+                : currentStatus === 'protected_person'
+                ? 'The date you were found to be a protected person (not your claim date)'
                 : 'The date you entered Canada with this status or when it was issued'}
             </Text>
             {Platform.OS === 'web' ? (
               <WebDateInput
                 value={statusStartDate}
                 onChange={(date) => date && setStatusStartDate(date)}
-                max={new Date().toISOString().split('T')[0]}
+                max={todayLocalDate()}
               />
             ) : (
               <>
@@ -251,18 +263,18 @@ export default function ProfileSetupScreen() {
                   style={styles.dateButton}
                 >
                   <Text style={styles.dateButtonText}>
-                    {statusStartDate.toLocaleDateString('en-CA')}
+                    {statusStartDate}
                   </Text>
                   <FontAwesome name="calendar" size={16} color="#64748b" />
                 </TouchableOpacity>
                 {showDatePicker && (
                   <DateTimePicker
-                    value={statusStartDate}
+                    value={toPickerDate(statusStartDate)}
                     mode="date"
                     display={Platform.OS === 'ios' ? 'spinner' : 'default'}
                     themeVariant={colorScheme}
                     onChange={handleDateChange}
-                    maximumDate={new Date()}
+                    maximumDate={toPickerDate(todayLocalDate())}
                   />
                 )}
                 {Platform.OS === 'ios' && showDatePicker && (
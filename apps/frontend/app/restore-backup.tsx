@@ -0,0 +1,480 @@
+import { StyleSheet, ScrollView, TouchableOpacity, TextInput, Platform, Alert, ActivityIndicator } from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { useMemo, useState } from 'react';
+import { useRouter } from 'expo-router';
+
+import { Text, View } from '@/components/Themed';
+import { useAuth } from '@/context/AuthContext';
+import { useAnalytics, useScreenTracking } from '@/hooks/useAnalytics';
+import { useFirebaseFunctions } from '@/hooks/useFirebaseFunctions';
+import { formatDateForDisplay } from '@/utils/dateRangeValidation';
+import { pickTextFile } from '@/utils/dataExport';
+import {
+  AbsenceEntry,
+  NonCountablePeriod,
+  StatusEntry,
+  LocalDate,
+  RestoreMode,
+  RestoreDiff,
+  UserDataExport,
+  STATUS_TYPE_LABELS,
+  NON_COUNTABLE_PERIOD_TYPE_LABELS,
+  USER_DATA_EXPORT_VERSION,
+  userDataExportSchema,
+  parseSchema,
+  formatFieldErrors,
+  diffRestoreEntries,
+  restoreTaxYears,
+  isLocalDate,
+} from '@journey-to-citizen/types';
+
+type ParsedBackup =
+  | { backup: UserDataExport; error?: undefined }
+  | { backup?: undefined; error: string };
+
+/**
+ * Parse and validate the text of an exportUserData JSON file
+ */
+function parseBackup(text: string): ParsedBackup {
+  let value: any;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return { error: "This isn't a Journey to Citizen backup file (it isn't valid JSON)." };
+  }
+
+  if (typeof value?.exportVersion === 'number' && value.exportVersion > USER_DATA_EXPORT_VERSION) {
+    return { error: 'This backup was made by a newer version of the app. Update the app and try again.' };
+  }
+
+  const validation = parseSchema(userDataExportSchema, value);
+  if (!validation.success) {
+    return { error: `This backup can't be restored: ${formatFieldErrors(validation.errors)}` };
+  }
+  return { backup: validation.data };
+}
+
+function formatRange(entry: { from: LocalDate; to?: LocalDate }): string {
+  return `${formatDateForDisplay(entry.from)} – ${entry.to ? formatDateForDisplay(entry.to) : 'Present'}`;
+}
+
+function describeStatus(entry: StatusEntry): string {
+  return `${STATUS_TYPE_LABELS[entry.status]}: ${formatRange(entry)}`;
+}
+
+function describeTrip(entry: AbsenceEntry): string {
+  return `${entry.place || 'Trip'}: ${formatRange(entry)}`;
+}
+
+function describePeriod(entry: NonCountablePeriod): string {
+  return `${NON_COUNTABLE_PERIOD_TYPE_LABELS[entry.type]}: ${formatRange(entry)}`;
+}
+
+/**
+ * What a restore does to one list, with the entries it adds, changes or removes
+ */
+function DiffSection<T extends { id: string }>({
+  title,
+  diff,
+  describe,
+}: {
+  title: string;
+  diff: RestoreDiff<T>;
+  describe: (entry: T) => string;
+}) {
+  const rows: Array<{ key: string; icon: 'plus' | 'pencil' | 'minus'; color: string; text: string }> = [
+    ...diff.added.map((entry) => ({ key: `added-${entry.id}`, icon: 'plus' as const, color: '#16a34a', text: describe(entry) })),
+    ...diff.updated.map(({ current, backup }) => ({
+      key: `updated-${backup.id}`,
+      icon: 'pencil' as const,
+      color: '#d97706',
+      text: `${describe(current)} → ${describe(backup)}`,
+    })),
+    ...diff.removed.map((entry) => ({ key: `removed-${entry.id}`, icon: 'minus' as const, color: '#dc2626', text: describe(entry) })),
+  ];
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>{title}</Text>
+      <Text style={styles.summary}>
+        {diff.added.length} added · {diff.updated.length} replaced · {diff.unchanged.length} unchanged
+        {diff.removed.length > 0 ? ` · ${diff.removed.length} removed` : ''}
+        {diff.kept.length > 0 ? ` · ${diff.kept.length} kept` : ''}
+      </Text>
+      {rows.map((row) => (
+        <View key={row.key} style={styles.diffRow}>
+          <FontAwesome name={row.icon} size={12} color={row.color} style={styles.diffIcon} />
+          <Text style={styles.diffText}>{row.text}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+/**
+ * Restore From Backup screen
+ * Restores the statuses, trips, sentence/probation/parole periods and filed
+ * tax years of an "Export My Data" JSON file, e.g.
+ * after switching to a different sign-in method. Shows what will change
+ * before anything is written.
+ */
+export default function RestoreBackupScreen() {
+  const router = useRouter();
+  const { userProfile, updateLocalProfile, refreshProfile } = useAuth();
+  const { restoreBackup } = useFirebaseFunctions();
+  const { trackEvent } = useAnalytics();
+  const [backupText, setBackupText] = useState('');
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useScreenTracking('RestoreBackup');
+
+  const trackRestoreAction = (action: string, params?: Record<string, any>) => {
+    trackEvent('restore_backup_action', { action, ...params });
+  };
+
+  const parsed = useMemo(() => (backupText.trim() ? parseBackup(backupText) : null), [backupText]);
+  const backup = parsed?.backup;
+  const exportDate = backup?.exportedAt.substring(0, 10);
+
+  const statusDiff = useMemo(
+    () => backup && diffRestoreEntries(userProfile?.statusHistory || [], backup.statusHistory, mode),
+    [backup, userProfile, mode]
+  );
+  const tripDiff = useMemo(
+    () => backup && diffRestoreEntries(userProfile?.travelAbsences || [], backup.travelAbsences, mode),
+    [backup, userProfile, mode]
+  );
+  const periodDiff = useMemo(
+    () => backup && diffRestoreEntries(userProfile?.nonCountablePeriods || [], backup.nonCountablePeriods, mode),
+    [backup, userProfile, mode]
+  );
+  const currentTaxYears = restoreTaxYears(userProfile?.filedTaxYears || [], [], 'merge');
+  const restoredTaxYears = backup && restoreTaxYears(currentTaxYears, backup.profile.filedTaxYears, mode);
+  const taxYearsChange = !!restoredTaxYears && restoredTaxYears.join() !== currentTaxYears.join();
+
+  const hasChanges = taxYearsChange || (!!statusDiff && !!tripDiff && !!periodDiff && [statusDiff, tripDiff, periodDiff].some(
+    (diff) => diff.added.length + diff.updated.length + diff.removed.length > 0
+  ));
+
+  const handleChooseFile = async () => {
+    trackRestoreAction('choose_file');
+    try {
+      const text = await pickTextFile('application/json,.json');
+      if (text !== null) {
+        setBackupText(text);
+      }
+    } catch (error: any) {
+      alert(`Error: ${error.message || 'Failed to read the file'}`);
+    }
+  };
+
+  const handleModeChange = (nextMode: RestoreMode) => {
+    trackRestoreAction('change_mode', { mode: nextMode });
+    setMode(nextMode);
+  };
+
+  const restore = async () => {
+    if (!backup) return;
+
+    setIsRestoring(true);
+    try {
+      const result = await restoreBackup({ revision: userProfile?.revision ?? 0, mode, backup });
+      if (result.data) {
+        updateLocalProfile(result.data);
+      }
+      trackRestoreAction('restore_success', {
+        mode,
+        statuses: backup.statusHistory.length,
+        trips: backup.travelAbsences.length,
+        periods: backup.nonCountablePeriods.length,
+        tax_years: backup.profile.filedTaxYears.length,
+      });
+
+      const message = 'Your timeline and filed tax years were restored.';
+      Platform.OS === 'web' ? alert(message) : Alert.alert('Backup Restored', message);
+      router.back();
+    } catch (error: any) {
+      trackRestoreAction('restore_error', { mode, error: error.message });
+      let message = error.message || 'Failed to restore the backup';
+      // The timeline changed since it was loaded: reload it so the preview is current
+      if (error?.code === 'functions/failed-precondition' && error?.details?.currentRevision !== undefined) {
+        await refreshProfile();
+        message = 'Your timeline was changed on another device. The preview has been updated, please check it and try again.';
+      }
+      Platform.OS === 'web' ? alert(`Error: ${message}`) : Alert.alert('Error', message);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const handleRestore = () => {
+    trackRestoreAction('restore_click', { mode });
+    const message = mode === 'replace'
+      ? 'Your current statuses, trips, periods and filed tax years will be replaced by the ones in the backup.'
+      : 'The statuses, trips, periods and filed tax years in the backup will be added to yours, replacing entries with the same id.';
+
+    if (Platform.OS === 'web') {
+      if (window.confirm(message)) {
+        restore();
+      }
+    } else {
+      Alert.alert('Restore Backup?', message, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Restore', onPress: restore },
+      ]);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
+      <View style={styles.section}>
+        <Text style={styles.intro}>
+          Restore the statuses, trips, sentence/probation/parole periods and filed tax years from a file you
+          saved with "Export My Data" (for example, from an account with a different sign-in method). Your name
+          and other settings aren't changed.
+        </Text>
+
+        {Platform.OS === 'web' && (
+          <TouchableOpacity style={styles.fileButton} onPress={handleChooseFile} disabled={isRestoring}>
+            <FontAwesome name="upload" size={16} color="#3b82f6" />
+            <Text style={styles.fileButtonText}>Choose backup file</Text>
+          </TouchableOpacity>
+        )}
+
+        <Text style={styles.label}>
+          {Platform.OS === 'web' ? 'Or paste the contents of the file' : 'Paste the contents of the backup file'}
+        </Text>
+        <TextInput
+          style={styles.input}
+          value={backupText}
+          onChangeText={setBackupText}
+          placeholder='{ "exportVersion": 1, ... }'
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+          editable={!isRestoring}
+        />
+
+        {parsed?.error && (
+          <View style={styles.errorBox}>
+            <FontAwesome name="exclamation-circle" size={16} color="#dc2626" />
+            <Text style={styles.errorText}>{parsed.error}</Text>
+          </View>
+        )}
+
+        {backup && statusDiff && tripDiff && periodDiff && restoredTaxYears && (
+          <>
+            <Text style={styles.note}>
+              Backup from {isLocalDate(exportDate) ? formatDateForDisplay(exportDate) : backup.exportedAt}
+              {backup.account.email ? ` (${backup.account.email})` : ''}: {backup.statusHistory.length} statuses,{' '}
+              {backup.travelAbsences.length} trips, {backup.nonCountablePeriods.length} periods,{' '}
+              {backup.profile.filedTaxYears.length} filed tax years.
+            </Text>
+
+            {/* Mode toggle */}
+            <View style={styles.toggle}>
+              {(['merge', 'replace'] as RestoreMode[]).map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.toggleOption, mode === option && styles.toggleOptionActive]}
+                  onPress={() => handleModeChange(option)}
+                  disabled={isRestoring}
+                >
+                  <Text style={[styles.toggleText, mode === option && styles.toggleTextActive]}>
+                    {option === 'merge' ? 'Merge' : 'Replace'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.note}>
+              {mode === 'merge'
+                ? 'Backup entries are added to your timeline. Entries with the same id are replaced; your other entries are kept.'
+                : 'Your timeline becomes exactly the statuses, trips and periods in the backup. Entries not in the backup are removed.'}
+            </Text>
+
+            <DiffSection title="Statuses" diff={statusDiff} describe={describeStatus} />
+            <DiffSection title="Trips outside Canada" diff={tripDiff} describe={describeTrip} />
+            {(periodDiff.added.length + periodDiff.updated.length + periodDiff.unchanged.length +
+              periodDiff.removed.length + periodDiff.kept.length > 0) && (
+              <DiffSection title="Sentence, probation and parole" diff={periodDiff} describe={describePeriod} />
+            )}
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Filed tax years</Text>
+              <Text style={styles.summary}>
+                {taxYearsChange
+                  ? `${currentTaxYears.join(', ') || 'None'} → ${restoredTaxYears.join(', ') || 'None'}`
+                  : 'No change'}
+              </Text>
+            </View>
+
+            <TouchableOpacity
+              style={[styles.restoreButton, (!hasChanges || isRestoring) && styles.restoreButtonDisabled]}
+              onPress={handleRestore}
+              disabled={!hasChanges || isRestoring}
+            >
+              {isRestoring ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.restoreButtonText}>
+                  {hasChanges ? 'Restore' : 'Nothing to restore'}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  section: {
+    padding: 20,
+  },
+  intro: {
+    fontSize: 14,
+    color: '#475569',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  fileButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#93c5fd',
+    backgroundColor: '#fff',
+    marginBottom: 16,
+  },
+  fileButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#3b82f6',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#cbd5e1',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    minHeight: 120,
+    maxHeight: 200,
+    textAlignVertical: 'top',
+    backgroundColor: '#fff',
+    marginBottom: 16,
+  },
+  errorBox: {
+    flexDirection: 'row',
+    gap: 8,
+    backgroundColor: '#fef2f2',
+    padding: 12,
+    borderRadius: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: '#dc2626',
+    marginBottom: 16,
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#991b1b',
+    lineHeight: 18,
+  },
+  note: {
+    fontSize: 12,
+    color: '#64748b',
+    fontStyle: 'italic',
+    lineHeight: 16,
+    marginBottom: 12,
+  },
+  toggle: {
+    flexDirection: 'row',
+    backgroundColor: '#e2e8f0',
+    borderRadius: 10,
+    padding: 4,
+    marginBottom: 8,
+  },
+  toggleOption: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  toggleOptionActive: {
+    backgroundColor: '#fff',
+  },
+  toggleText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  toggleTextActive: {
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  card: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 4,
+  },
+  summary: {
+    fontSize: 13,
+    color: '#64748b',
+    marginBottom: 8,
+  },
+  diffRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    paddingVertical: 4,
+    backgroundColor: 'transparent',
+  },
+  diffIcon: {
+    marginTop: 3,
+    width: 12,
+  },
+  diffText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#1e293b',
+    lineHeight: 18,
+  },
+  restoreButton: {
+    backgroundColor: '#3b82f6',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  restoreButtonDisabled: {
+    opacity: 0.5,
+  },
+  restoreButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+});
@@ -0,0 +1,407 @@
+import { StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { useMemo, useState } from 'react';
+
+import { Text, View } from '@/components/Themed';
+import { useAuth } from '@/context/AuthContext';
+import { useAnalytics, useScreenTracking } from '@/hooks/useAnalytics';
+import { formatDateForDisplay } from '@/utils/dateRangeValidation';
+import {
+  calculatePresenceByYear,
+  YearPresence,
+  TaxYearPresence,
+} from '@journey-to-citizen/calculations';
+
+type BreakdownMode = 'calendar' | 'tax';
+
+const COLORS = {
+  present: '#22c55e',
+  absent: '#f97316',
+  pr: '#ec4899',
+  prePR: '#3b82f6',
+};
+
+/**
+ * One horizontal bar per year, split into segments
+ */
+function YearBarChart({
+  rows,
+  segments,
+  maxValue,
+}: {
+  rows: YearPresence[];
+  segments: Array<{ key: string; color: string; value: (row: YearPresence) => number }>;
+  maxValue: number;
+}) {
+  return (
+    <View style={styles.chart}>
+      {rows.map((row) => {
+        const total = segments.reduce((sum, segment) => sum + segment.value(row), 0);
+        return (
+          <View key={row.year} style={styles.chartRow}>
+            <Text style={styles.chartYear}>{row.year}</Text>
+            <View style={styles.chartTrack}>
+              {segments.map((segment) => {
+                const value = segment.value(row);
+                if (value <= 0 || maxValue <= 0) return null;
+                return (
+                  <View
+                    key={segment.key}
+                    style={[
+                      styles.chartSegment,
+                      { width: `${(value / maxValue) * 100}%`, backgroundColor: segment.color },
+                    ]}
+                  />
+                );
+              })}
+            </View>
+            <Text style={styles.chartValue}>{Math.floor(total)}</Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+function Legend({ items }: { items: Array<{ label: string; color: string }> }) {
+  return (
+    <View style={styles.legend}>
+      {items.map((item) => (
+        <View key={item.label} style={styles.legendItem}>
+          <View style={[styles.legendDot, { backgroundColor: item.color }]} />
+          <Text style={styles.legendText}>{item.label}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+/**
+ * Statistics screen
+ * Per calendar year and tax year presence, for filling in the per-year
+ * numbers on the IRCC application.
+ */
+export default function StatisticsScreen() {
+  const { userProfile } = useAuth();
+  const { trackEvent } = useAnalytics();
+  const [mode, setMode] = useState<BreakdownMode>('calendar');
+
+  useScreenTracking('Statistics');
+
+  const breakdown = useMemo(
+    () => calculatePresenceByYear(userProfile || {}),
+    [userProfile]
+  );
+
+  const rows: YearPresence[] = mode === 'calendar' ? breakdown.calendarYears : breakdown.taxYears;
+  const maxEligible = Math.max(0, ...rows.map((row) => row.prDays + row.prePRCreditedDays));
+
+  const handleModeChange = (nextMode: BreakdownMode) => {
+    trackEvent('statistics_action', { action: 'change_mode', mode: nextMode });
+    setMode(nextMode);
+  };
+
+  if (breakdown.calendarYears.length === 0) {
+    return (
+      <ScrollView style={styles.container}>
+        <View style={styles.section}>
+          <View style={styles.emptyCard}>
+            <FontAwesome name="bar-chart" size={32} color="#94a3b8" />
+            <Text style={styles.emptyText}>
+              Add your immigration statuses and trips to your timeline to see your presence by year.
+            </Text>
+          </View>
+        </View>
+      </ScrollView>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.section}>
+        {/* Mode toggle */}
+        <View style={styles.toggle}>
+          {(['calendar', 'tax'] as BreakdownMode[]).map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.toggleOption, mode === option && styles.toggleOptionActive]}
+              onPress={() => handleModeChange(option)}
+            >
+              <Text style={[styles.toggleText, mode === option && styles.toggleTextActive]}>
+                {option === 'calendar' ? 'Calendar years' : 'Tax years'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {mode === 'tax' && (
+          <Text style={styles.note}>
+            Canadian tax years follow the calendar year. Only years that have ended are shown, since the current
+            year can't be filed yet.
+          </Text>
+        )}
+
+        {rows.length === 0 ? (
+          <View style={styles.emptyCard}>
+            <Text style={styles.emptyText}>No tax years have ended since your timeline starts.</Text>
+          </View>
+        ) : (
+          <>
+            {/* Days in Canada */}
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Days in Canada</Text>
+              <Legend
+                items={[
+                  { label: 'Present', color: COLORS.present },
+                  { label: 'Absent', color: COLORS.absent },
+                ]}
+              />
+              <YearBarChart
+                rows={rows}
+                maxValue={366}
+                segments={[
+                  { key: 'present', color: COLORS.present, value: (row) => row.daysPresent },
+                  { key: 'absent', color: COLORS.absent, value: (row) => row.daysAbsent },
+                ]}
+              />
+            </View>
+
+            {/* Eligible days */}
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Eligible days earned</Text>
+              <Legend
+                items={[
+                  { label: 'As PR', color: COLORS.pr },
+                  { label: 'Pre-PR credit', color: COLORS.prePR },
+                ]}
+              />
+              <YearBarChart
+                rows={rows}
+                maxValue={maxEligible}
+                segments={[
+                  { key: 'pr', color: COLORS.pr, value: (row) => row.prDays },
+                  { key: 'prePR', color: COLORS.prePR, value: (row) => row.prePRCreditedDays },
+                ]}
+              />
+              <Text style={styles.note}>
+                Pre-PR credit is shown at half a day per day present, before the 365-day maximum is applied.
+              </Text>
+            </View>
+
+            {/* Numbers */}
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>By year</Text>
+              <View style={[styles.tableRow, styles.tableHeader]}>
+                <Text style={[styles.tableCell, styles.tableYear, styles.tableHeaderText]}>Year</Text>
+                <Text style={[styles.tableCell, styles.tableHeaderText]}>Present</Text>
+                <Text style={[styles.tableCell, styles.tableHeaderText]}>Absent</Text>
+                <Text style={[styles.tableCell, styles.tableHeaderText]}>PR</Text>
+                <Text style={[styles.tableCell, styles.tableHeaderText]}>Pre-PR</Text>
+              </View>
+              {rows.map((row) => {
+                const taxRow = mode === 'tax' ? (row as TaxYearPresence) : null;
+                return (
+                  <View key={row.year} style={styles.tableRow}>
+                    <View style={[styles.tableCell, styles.tableYear]}>
+                      <Text style={styles.tableYearText}>{row.year}</Text>
+                      {taxRow && (
+                        <Text style={[styles.badge, taxRow.filed ? styles.badgeFiled : styles.badgeMissing]}>
+                          {taxRow.filed ? 'Filed' : 'Not filed'}
+                        </Text>
+                      )}
+                    </View>
+                    <Text style={styles.tableCell}>{row.daysPresent}</Text>
+                    <Text style={styles.tableCell}>{row.daysAbsent}</Text>
+                    <Text style={styles.tableCell}>{row.prDays}</Text>
+                    <Text style={styles.tableCell}>{row.prePRCreditedDays}</Text>
+                  </View>
+                );
+              })}
+              {mode === 'calendar' && (
+                <Text style={styles.note}>
+                  {rows[0].year} starts on {formatDateForDisplay(rows[0].from)} (the start of your timeline) and{' '}
+                  {rows[rows.length - 1].year} runs through {formatDateForDisplay(rows[rows.length - 1].to)}.
+                </Text>
+              )}
+              {mode === 'tax' && (
+                <Text style={styles.note}>
+                  Years in your current 5-year window:{' '}
+                  {breakdown.taxYears.filter((row) => row.inWindow).map((row) => row.year).join(', ') || 'none'}.
+                </Text>
+              )}
+            </View>
+          </>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  section: {
+    padding: 20,
+  },
+  toggle: {
+    flexDirection: 'row',
+    backgroundColor: '#e2e8f0',
+    borderRadius: 10,
+    padding: 4,
+    marginBottom: 16,
+  },
+  toggleOption: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  toggleOptionActive: {
+    backgroundColor: '#fff',
+  },
+  toggleText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  toggleTextActive: {
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  card: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  note: {
+    fontSize: 12,
+    color: '#64748b',
+    fontStyle: 'italic',
+    lineHeight: 16,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  legend: {
+    flexDirection: 'row',
+    gap: 16,
+    marginBottom: 12,
+    backgroundColor: 'transparent',
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: 'transparent',
+  },
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#475569',
+  },
+  chart: {
+    gap: 8,
+    backgroundColor: 'transparent',
+  },
+  chartRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: 'transparent',
+  },
+  chartYear: {
+    width: 40,
+    fontSize: 12,
+    color: '#475569',
+  },
+  chartTrack: {
+    flex: 1,
+    flexDirection: 'row',
+    height: 16,
+    borderRadius: 4,
+    overflow: 'hidden',
+    backgroundColor: '#f1f5f9',
+  },
+  chartSegment: {
+    height: '100%',
+  },
+  chartValue: {
+    width: 36,
+    fontSize: 12,
+    color: '#1e293b',
+    textAlign: 'right',
+  },
+  tableRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+    backgroundColor: 'transparent',
+  },
+  tableHeader: {
+    borderTopWidth: 0,
+  },
+  tableHeaderText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#64748b',
+    textTransform: 'uppercase',
+  },
+  tableCell: {
+    flex: 1,
+    fontSize: 13,
+    color: '#1e293b',
+    textAlign: 'right',
+    backgroundColor: 'transparent',
+  },
+  tableYear: {
+    flex: 1.4,
+    alignItems: 'flex-start',
+    textAlign: 'left',
+  },
+  tableYearText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  badge: {
+    fontSize: 10,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  badgeFiled: {
+    color: '#15803d',
+  },
+  badgeMissing: {
+    color: '#b45309',
+  },
+  emptyCard: {
+    backgroundColor: '#fff',
+    padding: 24,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    alignItems: 'center',
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+});
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { StyleSheet, TouchableOpacity, Platform } from 'react-native';
+import { View, Text, VStack } from '@gluestack-ui/themed';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import WebDateInput from './WebDateInput';
+import { useColorScheme } from './useColorScheme';
+import { LocalDate } from '@journey-to-citizen/types';
+import { toPickerDate, fromPickerDate } from '@journey-to-citizen/calculations';
+
+interface DateFieldProps {
+  label: string;
+  note?: string;
+  value: LocalDate | ''; // '' when not set
+  onChange: (value: LocalDate | '') => void;
+  placeholder?: string;
+  maximumDate?: LocalDate;
+  allowClear?: boolean;
+}
+
+/**
+ * DateField - Cross-platform date input
+ *
+ * Renders WebDateInput on web and the native DateTimePicker elsewhere,
+ * using the same picker behaviour as the timeline modal.
+ */
+export default function DateField({
+  label,
+  note,
+  value,
+  onChange,
+  placeholder = 'Select date',
+  maximumDate,
+  allowClear = false,
+}: DateFieldProps) {
+  const colorScheme = useColorScheme();
+  const [showPicker, setShowPicker] = useState(false);
+
+  return (
+    <VStack space="sm" mt="$4">
+      <Text style={styles.label}>{label}</Text>
+      {note && <Text style={styles.note}>{note}</Text>}
+      {Platform.OS === 'web' ? (
+        <WebDateInput
+          value={value || null}
+          onChange={(date) => {
+            if (date) {
+              onChange(date);
+            } else if (allowClear) {
+              onChange('');
+            }
+          }}
+          max={maximumDate}
+        />
+      ) : (
+        <>
+          <TouchableOpacity
+            style={styles.dateButton}
+            onPress={() => setShowPicker(true)}
+          >
+            <Text style={[styles.dateButtonText, !value && { color: '#94a3b8' }]}>
+              {value || placeholder}
+            </Text>
+            <FontAwesome name="calendar" size={16} color="#64748b" />
+          </TouchableOpacity>
+          {showPicker && (
+            <DateTimePicker
+              value={value ? toPickerDate(value) : new Date()}
+              mode="date"
+              display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+              themeVariant={colorScheme}
+              onChange={(event, date) => {
+                if (Platform.OS !== 'ios') setShowPicker(false);
+                if (date) {
+                  onChange(fromPickerDate(date));
+                }
+              }}
+              maximumDate={maximumDate ? toPickerDate(maximumDate) : undefined}
+            />
+          )}
+          {Platform.OS === 'ios' && showPicker && (
+            <View style={styles.iosPickerButtons}>
+              {allowClear && (
+                <TouchableOpacity
+                  style={styles.clearButton}
+                  onPress={() => {
+                    onChange('');
+                    setShowPicker(false);
+                  }}
+                >
+                  <Text style={styles.clearButtonText}>Clear</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                style={styles.doneButton}
+                onPress={() => setShowPicker(false)}
+              >
+                <Text style={styles.doneButtonText}>Done</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </>
+      )}
+    </VStack>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  note: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  dateButton: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 14,
+    backgroundColor: '#f9fafb',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    marginTop: 8,
+  },
+  dateButtonText: {
+    fontSize: 15,
+    color: '#1f2937',
+  },
+  iosPickerButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  doneButton: {
+    flex: 1,
+    backgroundColor: '#3b82f6',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  doneButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  clearButton: {
+    flex: 1,
+    backgroundColor: '#f1f5f9',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  clearButtonText: {
+    color: '#64748b',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -5,11 +5,19 @@ import FontAwesome from '@expo/vector-icons/FontAwesome';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import WebDateInput from './WebDateInput';
 import { useColorScheme } from './useColorScheme';
+import { LocalDate } from '@journey-to-citizen/types';
+import {
+  todayLocalDate,
+  daysBetweenLocalDates,
+  formatLocalDate,
+  toPickerDate,
+  fromPickerDate,
+} from '@journey-to-citizen/calculations';
 
 export interface DateRangeEntry {
   id: string;
-  from: any; // Date or timestamp
-  to: any; // Date or timestamp
+  from: LocalDate;
+  to: LocalDate;
   [key: string]: any; // Allow additional fields like purpose, place, etc.
 }
 
@@ -54,35 +62,26 @@ export default function DateRangeList({
   const colorScheme = useColorScheme();
   const [isModalVisible, setIsModalVisible] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [fromDate, setFromDate] = useState<Date | null>(null);
-  const [toDate, setToDate] = useState<Date | null>(null);
+  const [fromDate, setFromDate] = useState<LocalDate | null>(null);
+  const [toDate, setToDate] = useState<LocalDate | null>(null);
   const [showFromPicker, setShowFromPicker] = useState(false);
   const [showToPicker, setShowToPicker] = useState(false);
   const [additionalFields, setAdditionalFields] = useState<Record<string, any>>({});
   const [isSaving, setIsSaving] = useState(false);
   const [showDropdownFor, setShowDropdownFor] = useState<string | null>(null);
 
-  const formatDate = (date: any): string => {
+  const formatDate = (date: LocalDate | null | undefined): string => {
     if (!date) return 'N/A';
-    const d = date instanceof Date ? date : new Date(date + 'T00:00:00.000Z');
-    return d.toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      timeZone: 'UTC'
-    }); // Sep 15, 2024 format
+    return formatLocalDate(date); // Sep 15, 2024 format
   };
 
-  const calculateDays = (from: any, to: any): number => {
+  const calculateDays = (from: LocalDate | null, to: LocalDate | null): number => {
     if (!from || !to) return 0;
-    const fromD = from instanceof Date ? from : new Date(from + 'T00:00:00.000Z');
-    const toD = to instanceof Date ? to : new Date(to + 'T00:00:00.000Z');
-    const diffTime = Math.abs(toD.getTime() - fromD.getTime());
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+    const diffDays = Math.abs(daysBetweenLocalDates(from, to));
     return diffDays + 1; // Include both start and end dates
   };
 
-  const calculateAbsentDays = (from: any, to: any): number => {
+  const calculateAbsentDays = (from: LocalDate | null, to: LocalDate | null): number => {
     if (!from || !to) return 0;
     const totalDays = calculateDays(from, to);
     // Absent days = total days - 2 (exclude departure and return days)
@@ -92,7 +91,7 @@ export default function DateRangeList({
 
   const handleOpenAdd = () => {
     setEditingId(null);
-    const today = new Date();
+    const today = todayLocalDate();
     setFromDate(today);
     setToDate(today);
     setAdditionalFields({});
@@ -102,8 +101,8 @@ export default function DateRangeList({
 
   const handleOpenEdit = (entry: DateRangeEntry) => {
     setEditingId(entry.id);
-    setFromDate(entry.from ? new Date(entry.from) : null);
-    setToDate(entry.to ? new Date(entry.to) : null);
+    setFromDate(entry.from || null);
+    setToDate(entry.to || null);
     
     const fieldsData: Record<string, any> = {};
     fields.forEach(field => {
@@ -153,8 +152,8 @@ export default function DateRangeList({
     setIsSaving(true);
     try {
       const entryData = {
-        from: fromDate.toISOString().split('T')[0], // Store as YYYY-MM-DD string
-        to: toDate.toISOString().split('T')[0], // Store as YYYY-MM-DD string
+        from: fromDate,
+        to: toDate,
         ...additionalFields,
       };
 
@@ -276,7 +275,7 @@ export default function DateRangeList({
                     <WebDateInput
                       value={fromDate}
                       onChange={setFromDate}
-                      max={allowFutureDates ? undefined : new Date().toISOString().split('T')[0]}
+                      max={allowFutureDates ? undefined : todayLocalDate()}
                     />
                   ) : (
                     /* Native: Use DateTimePicker */
@@ -293,25 +292,25 @@ export default function DateRangeList({
                       {showFromPicker && (
                         <View style={styles.pickerWrapper}>
                           <DateTimePicker
-                            value={fromDate || new Date()}
+                            value={fromDate ? toPickerDate(fromDate) : new Date()}
                             mode="date"
                             display={Platform.OS === 'ios' ? 'spinner' : 'default'}
                             themeVariant={colorScheme}
                             onChange={(event, date) => {
                               if (Platform.OS === 'ios') {
                                 // On iOS, update state but keep picker open
-                                if (date) setFromDate(date);
+                                if (date) setFromDate(fromPickerDate(date));
                               } else {
                                 // On Android, close after selection
                                 if (event.type === 'set' && date) {
-                                  setFromDate(date);
+                                  setFromDate(fromPickerDate(date));
                                   setShowFromPicker(false);
                                 } else if (event.type === 'dismissed') {
                                   setShowFromPicker(false);
                                 }
                               }
                             }}
-                            maximumDate={allowFutureDates ? undefined : new Date()}
+                            maximumDate={allowFutureDates ? undefined : toPickerDate(todayLocalDate())}
                           />
                           {/* 
                             iOS-specific Done button (Bug fix: 2025-10-11)
@@ -350,7 +349,7 @@ export default function DateRangeList({
                     <WebDateInput
                       value={toDate}
                       onChange={setToDate}
-                      max={allowFutureDates ? undefined : new Date().toISOString().split('T')[0]}
+                      max={allowFutureDates ? undefined : todayLocalDate()}
                     />
                   ) : (
                     /* Native: Use DateTimePicker */
@@ -367,25 +366,25 @@ export default function DateRangeList({
                       {showToPicker && (
                         <View style={styles.pickerWrapper}>
                           <DateTimePicker
-                            value={toDate || new Date()}
+                            value={toDate ? toPickerDate(toDate) : new Date()}
                             mode="date"
                             display={Platform.OS === 'ios' ? 'spinner' : 'default'}
                             themeVariant={colorScheme}
                             onChange={(event, date) => {
                               if (Platform.OS === 'ios') {
                                 // On iOS, update state but keep picker open
-                                if (date) setToDate(date);
+                                if (date) setToDate(fromPickerDate(date));
                               } else {
                                 // On Android, close after selection
                                 if (event.type === 'set' && date) {
-                                  setToDate(date);
+                                  setToDate(fromPickerDate(date));
                                   setShowToPicker(false);
                                 } else if (event.type === 'dismissed') {
                                   setShowToPicker(false);
                                 }
                               }
                             }}
-                            maximumDate={allowFutureDates ? undefined : new Date()}
+                            maximumDate={allowFutureDates ? undefined : toPickerDate(todayLocalDate())}
                           />
                           {/* iOS-specific Done button - see comment on fromDate picker above */}
                           {Platform.OS === 'ios' && (
@@ -6,10 +6,19 @@ interface DeleteAccountModalProps {
   visible: boolean;
   onClose: () => void;
   onConfirm: () => Promise<void>;
+  onExportData: () => void;
+  isExporting: boolean;
   userEmail: string;
 }
 
-export default function DeleteAccountModal({ visible, onClose, onConfirm, userEmail }: DeleteAccountModalProps) {
+export default function DeleteAccountModal({
+  visible,
+  onClose,
+  onConfirm,
+  onExportData,
+  isExporting,
+  userEmail,
+}: DeleteAccountModalProps) {
   const [confirmText, setConfirmText] = useState('');
   const [isDeleting, setIsDeleting] = useState(false);
 
@@ -86,6 +95,10 @@ export default function DeleteAccountModal({ visible, onClose, onConfirm, userEm
                 <FontAwesome name="circle" size={6} color="#64748b" />
                 <Text style={styles.dataText}>All travel history and absence records</Text>
               </View>
+              <View style={styles.dataItem}>
+                <FontAwesome name="circle" size={6} color="#64748b" />
+                <Text style={styles.dataText}>Any sentence, probation or parole periods you recorded</Text>
+              </View>
               <View style={styles.dataItem}>
                 <FontAwesome name="circle" size={6} color="#64748b" />
                 <Text style={styles.dataText}>Physical presence records in Canada</Text>
@@ -100,9 +113,25 @@ export default function DeleteAccountModal({ visible, onClose, onConfirm, userEm
               <FontAwesome name="info-circle" size={16} color="#3b82f6" />
               <Text style={styles.warningText}>
                 You'll have 30 days to cancel by signing in again. After 30 days, your account will be permanently deleted.
+                Export your data below to keep a copy of your timeline.
               </Text>
             </View>
 
+            <TouchableOpacity
+              style={styles.exportButton}
+              onPress={onExportData}
+              disabled={isExporting || isDeleting}
+            >
+              {isExporting ? (
+                <ActivityIndicator color="#3b82f6" />
+              ) : (
+                <>
+                  <FontAwesome name="download" size={16} color="#3b82f6" />
+                  <Text style={styles.exportButtonText}>Export my data first</Text>
+                </>
+              )}
+            </TouchableOpacity>
+
             <Text style={styles.confirmInstruction}>
               Type <Text style={styles.boldText}>DELETE</Text> below to confirm:
             </Text>
@@ -217,6 +246,22 @@ const styles = StyleSheet.create({
     flex: 1,
     lineHeight: 18,
   },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#93c5fd',
+    marginBottom: 24,
+  },
+  exportButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#3b82f6',
+  },
   confirmInstruction: {
     fontSize: 14,
     color: '#475569',
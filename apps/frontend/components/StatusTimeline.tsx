@@ -8,18 +8,27 @@ import { useColorScheme } from './useColorScheme';
 import { 
   StatusEntry, 
   StatusType, 
+  LocalDate,
   STATUS_TYPE_LABELS,
   getCurrentStatus,
   hasPRStatus,
   UserProfile,
 } from '@journey-to-citizen/types';
+import {
+  todayLocalDate,
+  daysBetweenLocalDates,
+  compareLocalDates,
+  formatLocalDate,
+  toPickerDate,
+  fromPickerDate,
+} from '@journey-to-citizen/calculations';
 
 interface StatusTimelineProps {
   entries: StatusEntry[];
   onAddStatus: (entry: Omit<StatusEntry, 'id'>) => Promise<void>;
   onEditStatus: (id: string, updates: Partial<StatusEntry>) => Promise<void>;
   onDeleteStatus: (id: string) => Promise<void>;
-  onStatusChange?: (newStatus: StatusType, startDate: string) => Promise<void>;
+  onStatusChange?: (newStatus: StatusType, startDate: LocalDate) => Promise<void>;
   profile?: UserProfile | null;
 }
 
@@ -28,6 +37,7 @@ const STATUS_COLORS: Record<StatusType, { bg: string; border: string; text: stri
   visitor: { bg: '#fef3c7', border: '#f59e0b', text: '#92400e' },
   study_permit: { bg: '#dbeafe', border: '#3b82f6', text: '#1e40af' },
   work_permit: { bg: '#dcfce7', border: '#22c55e', text: '#166534' },
+  refugee_claimant: { bg: '#e0e7ff', border: '#6366f1', text: '#3730a3' },
   protected_person: { bg: '#f3e8ff', border: '#a855f7', text: '#6b21a8' },
   permanent_resident: { bg: '#fce7f3', border: '#ec4899', text: '#9d174d' },
 };
@@ -45,38 +55,26 @@ export default function StatusTimeline({
   const [modalMode, setModalMode] = useState<'add' | 'edit' | 'status-change'>('add');
   const [editingId, setEditingId] = useState<string | null>(null);
   const [selectedStatus, setSelectedStatus] = useState<StatusType>('work_permit');
-  const [startDate, setStartDate] = useState<Date>(new Date());
-  const [endDate, setEndDate] = useState<Date | null>(null);
+  const [startDate, setStartDate] = useState<LocalDate>(todayLocalDate());
+  const [endDate, setEndDate] = useState<LocalDate | null>(null);
   const [showStartPicker, setShowStartPicker] = useState(false);
   const [showEndPicker, setShowEndPicker] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [expandedId, setExpandedId] = useState<string | null>(null);
 
   // Sort entries by date (newest first for display)
-  const sortedEntries = [...entries].sort(
-    (a, b) => new Date(b.from).getTime() - new Date(a.from).getTime()
-  );
+  const sortedEntries = [...entries].sort((a, b) => compareLocalDates(b.from, a.from));
 
   const currentStatus = getCurrentStatus(profile);
   const userHasPR = hasPRStatus(profile);
 
-  const formatDate = (dateStr: string | undefined): string => {
+  const formatDate = (dateStr: LocalDate | undefined): string => {
     if (!dateStr) return 'Present';
-    const d = new Date(dateStr + 'T00:00:00.000Z');
-    return d.toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      timeZone: 'UTC'
-    });
+    return formatLocalDate(dateStr);
   };
 
-  const calculateDuration = (from: string, to?: string): string => {
-    const fromDate = new Date(from);
-    const toDate = to ? new Date(to) : new Date();
-    
-    const diffTime = toDate.getTime() - fromDate.getTime();
-    const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
+  const calculateDuration = (from: LocalDate, to?: LocalDate): string => {
+    const diffDays = daysBetweenLocalDates(from, to || todayLocalDate());
     
     if (diffDays < 30) return `${diffDays} days`;
     if (diffDays < 365) {
@@ -95,7 +93,7 @@ export default function StatusTimeline({
     setModalMode('add');
     setEditingId(null);
     setSelectedStatus('work_permit');
-    setStartDate(new Date());
+    setStartDate(todayLocalDate());
     setEndDate(null);
     setIsModalVisible(true);
   };
@@ -104,7 +102,7 @@ export default function StatusTimeline({
     setModalMode('status-change');
     setEditingId(null);
     setSelectedStatus('permanent_resident');
-    setStartDate(new Date());
+    setStartDate(todayLocalDate());
     setEndDate(null);
     setIsModalVisible(true);
   };
@@ -113,8 +111,8 @@ export default function StatusTimeline({
     setModalMode('edit');
     setEditingId(entry.id);
     setSelectedStatus(entry.status);
-    setStartDate(new Date(entry.from));
-    setEndDate(entry.to ? new Date(entry.to) : null);
+    setStartDate(entry.from);
+    setEndDate(entry.to || null);
     setIsModalVisible(true);
   };
 
@@ -167,8 +165,8 @@ export default function StatusTimeline({
 
     setIsSaving(true);
     try {
-      const startDateStr = startDate.toISOString().split('T')[0];
-      const endDateStr = endDate ? endDate.toISOString().split('T')[0] : undefined;
+      const startDateStr = startDate;
+      const endDateStr = endDate || undefined;
 
       if (modalMode === 'status-change' && onStatusChange) {
         // Handle status change (e.g., got PR)
@@ -202,7 +200,7 @@ export default function StatusTimeline({
     // Filter statuses based on modal mode
     const availableStatuses = modalMode === 'status-change' 
       ? ['permanent_resident'] as StatusType[]
-      : (['visitor', 'study_permit', 'work_permit', 'protected_person', 'permanent_resident'] as StatusType[]);
+      : (['visitor', 'study_permit', 'work_permit', 'refugee_claimant', 'protected_person', 'permanent_resident'] as StatusType[]);
 
     return (
       <VStack space="sm">
@@ -412,7 +410,7 @@ export default function StatusTimeline({
                 <WebDateInput
                   value={startDate}
                   onChange={(date) => date && setStartDate(date)}
-                  max={new Date().toISOString().split('T')[0]}
+                  max={todayLocalDate()}
                 />
               ) : (
                 <>
@@ -421,21 +419,21 @@ export default function StatusTimeline({
                     onPress={() => setShowStartPicker(true)}
                   >
                     <Text style={styles.dateButtonText}>
-                      {startDate.toLocaleDateString('en-CA')}
+                      {startDate}
                     </Text>
                     <FontAwesome name="calendar" size={16} color="#64748b" />
                   </TouchableOpacity>
                   {showStartPicker && (
                     <DateTimePicker
-                      value={startDate}
+                      value={toPickerDate(startDate)}
                       mode="date"
                       display={Platform.OS === 'ios' ? 'spinner' : 'default'}
                       themeVariant={colorScheme}
                       onChange={(event, date) => {
                         if (Platform.OS !== 'ios') setShowStartPicker(false);
-                        if (date) setStartDate(date);
+                        if (date) setStartDate(fromPickerDate(date));
                       }}
-                      maximumDate={new Date()}
+                      maximumDate={toPickerDate(todayLocalDate())}
                     />
                   )}
                   {Platform.OS === 'ios' && showStartPicker && (
@@ -461,7 +459,7 @@ export default function StatusTimeline({
                   <WebDateInput
                     value={endDate}
                     onChange={setEndDate}
-                    max={new Date().toISOString().split('T')[0]}
+                    max={todayLocalDate()}
                   />
                 ) : (
                   <>
@@ -473,21 +471,21 @@ export default function StatusTimeline({
                         styles.dateButtonText,
                         !endDate && { color: '#94a3b8' }
                       ]}>
-                        {endDate ? endDate.toLocaleDateString('en-CA') : 'Not set (current)'}
+                        {endDate || 'Not set (current)'}
                       </Text>
                       <FontAwesome name="calendar" size={16} color="#64748b" />
                     </TouchableOpacity>
                     {showEndPicker && (
                       <DateTimePicker
-                        value={endDate || new Date()}
+                        value={endDate ? toPickerDate(endDate) : new Date()}
                         mode="date"
                         display={Platform.OS === 'ios' ? 'spinner' : 'default'}
                         themeVariant={colorScheme}
                         onChange={(event, date) => {
                           if (Platform.OS !== 'ios') setShowEndPicker(false);
-                          if (date) setEndDate(date);
+                          if (date) setEndDate(fromPickerDate(date));
                         }}
-                        maximumDate={new Date()}
+                        maximumDate={toPickerDate(todayLocalDate())}
                       />
                     )}
                     {Platform.OS === 'ios' && showEndPicker && (
@@ -1,9 +1,10 @@
 import React from 'react';
+import { LocalDate, isLocalDate } from '@journey-to-citizen/types';
 
 interface WebDateInputProps {
-  value: Date | null;
-  onChange: (date: Date | null) => void;
-  max?: string;
+  value: LocalDate | null;
+  onChange: (date: LocalDate | null) => void;
+  max?: LocalDate;
   style?: React.CSSProperties;
 }
 
@@ -12,10 +13,11 @@ interface WebDateInputProps {
  * 
  * This component provides a native browser date picker on web.
  * Should only be used when Platform.OS === 'web'.
+ * The input works with calendar dates directly, so no timezone conversion happens.
  * 
  * @param value - The date value (or null)
  * @param onChange - Callback when date changes
- * @param max - Maximum date in YYYY-MM-DD format (optional)
+ * @param max - Maximum date (optional)
  * @param style - Additional inline styles (optional)
  */
 export default function WebDateInput({ value, onChange, max, style }: WebDateInputProps) {
@@ -32,11 +34,11 @@ export default function WebDateInput({ value, onChange, max, style }: WebDateInp
         borderStyle: 'solid',
         ...style,
       }}
-      value={value ? value.toISOString().split('T')[0] : ''}
+      value={value || ''}
       onChange={(e: any) => {
         const inputValue = e.target.value;
-        if (inputValue) {
-          onChange(new Date(inputValue + 'T00:00:00.000Z'));
+        if (isLocalDate(inputValue)) {
+          onChange(inputValue);
         } else {
           onChange(null);
         }
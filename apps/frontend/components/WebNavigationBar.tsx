@@ -14,6 +14,7 @@ interface NavItem {
 const navItems: NavItem[] = [
   { path: '/(tabs)', label: 'Dashboard', icon: 'home' },
   { path: '/(tabs)/timeline', label: 'Timeline', icon: 'history' },
+  { path: '/(tabs)/what-if', label: 'What If', icon: 'flask' },
   { path: '/(tabs)/profile', label: 'Profile', icon: 'user' },
 ];
 
@@ -1,6 +1,24 @@
 import { httpsCallable, HttpsCallableResult } from 'firebase/functions';
 import { functions } from '../config/firebase';
-import { UserProfile, UpdateProfileData, ApiResponse } from '@journey-to-citizen/types';
+import {
+  UserProfile,
+  UpdateProfileData,
+  ApiResponse,
+  AddAbsenceData,
+  AddAbsencesData,
+  UpdateAbsenceData,
+  DeleteAbsenceData,
+  AddStatusData,
+  UpdateStatusData,
+  DeleteStatusData,
+  CloseCurrentStatusData,
+  GetEntriesPageData,
+  EntriesPage,
+  AbsenceEntry,
+  StatusEntry,
+  UserDataExportResult,
+  RestoreBackupData,
+} from '@journey-to-citizen/types';
 
 /**
  * Hook to interact with Firebase Cloud Functions
@@ -27,6 +45,103 @@ export const useFirebaseFunctions = () => {
     return result.data;
   };
 
+  /**
+   * Get a page of trips outside Canada, newest first
+   * (getUserInfo already returns every trip; use this for long lists)
+   */
+  const getAbsences = async (data: GetEntriesPageData = {}): Promise<ApiResponse<EntriesPage<AbsenceEntry>>> => {
+    const getAbsencesFn = httpsCallable<GetEntriesPageData, ApiResponse<EntriesPage<AbsenceEntry>>>(
+      functions,
+      'getAbsences'
+    );
+    const result = await getAbsencesFn(data);
+    return result.data;
+  };
+
+  /**
+   * Get a page of status entries, newest first
+   */
+  const getStatusHistory = async (data: GetEntriesPageData = {}): Promise<ApiResponse<EntriesPage<StatusEntry>>> => {
+    const getStatusHistoryFn = httpsCallable<GetEntriesPageData, ApiResponse<EntriesPage<StatusEntry>>>(
+      functions,
+      'getStatusHistory'
+    );
+    const result = await getStatusHistoryFn(data);
+    return result.data;
+  };
+
+  /**
+   * Call a single-entry timeline edit function
+   * Rejected with `functions/failed-precondition` if the profile changed since
+   * `data.revision` (details include `currentRevision`).
+   */
+  const editTimeline = async <T extends { revision: number }>(
+    name: string,
+    data: T
+  ): Promise<ApiResponse<UserProfile>> => {
+    const editTimelineFn = httpsCallable<T, ApiResponse<UserProfile>>(functions, name);
+    const result = await editTimelineFn(data);
+    return result.data;
+  };
+
+  /**
+   * Add a trip outside Canada
+   */
+  const addAbsence = (data: AddAbsenceData) => editTimeline('addAbsence', data);
+
+  /**
+   * Add several trips outside Canada at once (e.g. imported from a travel history)
+   */
+  const addAbsences = (data: AddAbsencesData) => editTimeline('addAbsences', data);
+
+  /**
+   * Replace a trip outside Canada (matched by id)
+   */
+  const updateAbsence = (data: UpdateAbsenceData) => editTimeline('updateAbsence', data);
+
+  /**
+   * Delete a trip outside Canada
+   */
+  const deleteAbsence = (data: DeleteAbsenceData) => editTimeline('deleteAbsence', data);
+
+  /**
+   * Add a status entry (ends the current status the day before it starts)
+   */
+  const addStatus = (data: AddStatusData) => editTimeline('addStatus', data);
+
+  /**
+   * Replace a status entry (matched by id)
+   */
+  const updateStatus = (data: UpdateStatusData) => editTimeline('updateStatus', data);
+
+  /**
+   * Delete a status entry
+   */
+  const deleteStatus = (data: DeleteStatusData) => editTimeline('deleteStatus', data);
+
+  /**
+   * End the current (open-ended) status
+   */
+  const closeCurrentStatus = (data: CloseCurrentStatusData) => editTimeline('closeCurrentStatus', data);
+
+  /**
+   * Export everything stored for the current user (JSON and CSV files)
+   */
+  const exportUserData = async (): Promise<ApiResponse<UserDataExportResult>> => {
+    const exportUserDataFn = httpsCallable<void, ApiResponse<UserDataExportResult>>(
+      functions,
+      'exportUserData'
+    );
+    const result: HttpsCallableResult<ApiResponse<UserDataExportResult>> = await exportUserDataFn();
+    return result.data;
+  };
+
+  /**
+   * Restore the statuses and trips of an exportUserData backup
+   * (same revision check as the single-entry edits)
+   */
+  const restoreBackup = (data: RestoreBackupData) => editTimeline('restoreBackup', data);
+
   /**
    * Schedule account deletion (30-day grace period)
    */
@@ -54,6 +169,18 @@ export const useFirebaseFunctions = () => {
   return {
     getUserInfo,
     updateUserProfile,
+    getAbsences,
+    getStatusHistory,
+    addAbsence,
+    addAbsences,
+    updateAbsence,
+    deleteAbsence,
+    addStatus,
+    updateStatus,
+    deleteStatus,
+    closeCurrentStatus,
+    exportUserData,
+    restoreBackup,
     scheduleAccountDeletion,
     cancelAccountDeletion,
   };
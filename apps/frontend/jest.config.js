@@ -0,0 +1,20 @@
+// Jest config for the utility tests (run with `pnpm test`)
+
+// West of UTC, so tests catch device-day vs UTC-day mix-ups
+process.env.TZ = 'America/Vancouver';
+
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/utils'],
+  testMatch: ['**/__tests__/**/*-test.ts'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', {
+      tsconfig: {
+        module: 'commonjs',
+        esModuleInterop: true,
+        strict: true,
+        target: 'es2017',
+      },
+    }],
+  },
+};
@@ -0,0 +1,148 @@
+/**
+ * Travel history import tests
+ */
+
+import { LocalDate } from '@journey-to-citizen/types';
+import { importTravelHistory, parseTravelRecords, pairTravelRecords, TravelRecord } from '../travelHistoryImport';
+
+/**
+ * Records as "date direction" strings, for compact expectations
+ */
+function describeRecords(records: TravelRecord[]): string[] {
+  return records.map((record) => `${record.date} ${record.direction}`);
+}
+
+describe('parseTravelRecords', () => {
+  it.each([
+    {
+      name: 'reads a CSV export with a direction column',
+      text: [
+        'Date,Direction,Port of entry',
+        '2023-01-05,Exit,Peace Arch',
+        '2023-01-20,Entry,Vancouver International Airport',
+        '2023-04-02,OUT,Douglas',
+        '2023-04-09,IN,Douglas',
+      ].join('\n'),
+      records: ['2023-01-05 exit', '2023-01-20 entry', '2023-04-02 exit', '2023-04-09 entry'],
+      unrecognizedLines: [],
+    },
+    {
+      name: 'reads a CSV export with exit and entry date columns',
+      text: [
+        'Departure date;Return date;Destination',
+        '2023-03-01;2023-03-10;Mexico',
+        '"Jun 2, 2023";"Jun 30, 2023";France',
+      ].join('\n'),
+      records: ['2023-03-01 exit', '2023-03-10 entry', '2023-06-02 exit', '2023-06-30 entry'],
+      unrecognizedLines: [],
+    },
+    {
+      name: 'reads text pasted from a report',
+      text: [
+        'Travel history report',
+        'Jan 5, 2023 Exited Canada at Peace Arch',
+        '',
+        'Entered Canada 20 JAN 2023 at Vancouver International Airport',
+        'Page 1 of 1',
+      ].join('\n'),
+      records: ['2023-01-05 exit', '2023-01-20 entry'],
+      unrecognizedLines: [1, 5],
+    },
+    {
+      name: 'skips ambiguous day-first dates (05/01/2023)',
+      text: ['05/01/2023 Exit', '05/20/2023 Entry'].join('\n'),
+      records: [],
+      unrecognizedLines: [1, 2],
+    },
+    {
+      name: 'skips ambiguous day-first dates in a CSV export',
+      text: ['Date,Direction', '05/01/2023,Exit', '2023-05-20,Entry'].join('\n'),
+      records: ['2023-05-20 entry'],
+      unrecognizedLines: [2],
+    },
+  ])('$name', ({ text, records, unrecognizedLines }) => {
+    const result = parseTravelRecords(text);
+    expect(describeRecords(result.records)).toEqual(records);
+    expect(result.unrecognizedLines).toEqual(unrecognizedLines);
+  });
+
+  it('keeps the port of the records in a CSV export', () => {
+    const { records } = parseTravelRecords(['Date,Direction,Port of entry', '2023-01-05,Exit,Peace Arch'].join('\n'));
+    expect(records[0]).toEqual({ line: 2, date: '2023-01-05', direction: 'exit', location: 'Peace Arch' });
+  });
+});
+
+describe('pairTravelRecords', () => {
+  it.each([
+    {
+      name: 'pairs oldest-first records',
+      records: ['2023-01-05 exit', '2023-01-20 entry', '2023-06-01 exit', '2023-06-10 entry'],
+      trips: ['2023-01-05 – 2023-01-20', '2023-06-01 – 2023-06-10'],
+      unpaired: [],
+    },
+    {
+      name: 'pairs newest-first records',
+      records: ['2023-06-10 entry', '2023-06-01 exit', '2023-01-20 entry', '2023-01-05 exit'],
+      trips: ['2023-01-05 – 2023-01-20', '2023-06-01 – 2023-06-10'],
+      unpaired: [],
+    },
+    {
+      name: 'reports an exit without an entry',
+      records: ['2023-01-05 exit', '2023-02-01 exit', '2023-02-10 entry', '2023-05-01 exit'],
+      trips: ['2023-02-01 – 2023-02-10'],
+      unpaired: ['2023-01-05 exit_without_entry', '2023-05-01 exit_without_entry'],
+    },
+    {
+      name: 'reports an entry without an exit',
+      records: ['2022-09-01 entry', '2023-01-05 exit', '2023-01-20 entry'],
+      trips: ['2023-01-05 – 2023-01-20'],
+      unpaired: ['2022-09-01 entry_without_exit'],
+    },
+    {
+      name: 'pairs a same-day trip (oldest first)',
+      records: ['2023-01-01 entry', '2023-03-01 exit', '2023-03-01 entry'],
+      trips: ['2023-03-01 – 2023-03-01'],
+      unpaired: ['2023-01-01 entry_without_exit'],
+    },
+    {
+      name: 'pairs a same-day trip (newest first)',
+      records: ['2023-03-01 entry', '2023-03-01 exit', '2023-01-01 entry'],
+      trips: ['2023-03-01 – 2023-03-01'],
+      unpaired: ['2023-01-01 entry_without_exit'],
+    },
+  ])('$name', ({ records, trips, unpaired }) => {
+    const input: TravelRecord[] = records.map((record, index) => {
+      const [date, direction] = record.split(' ');
+      return { line: index + 1, date: date as LocalDate, direction: direction as TravelRecord['direction'] };
+    });
+
+    const result = pairTravelRecords(input);
+    expect(result.trips.map(({ exit, entry }) => `${exit.date} – ${entry.date}`)).toEqual(trips);
+    expect(result.unpaired.map(({ record, reason }) => `${record.date} ${reason}`)).toEqual(unpaired);
+  });
+});
+
+describe('importTravelHistory', () => {
+  it('checks the trips against the timeline', () => {
+    const text = [
+      '2023-06-10 Entry',
+      '2023-06-01 Exit',
+      '2023-01-20 Entry',
+      '2023-01-05 Exit',
+    ].join('\n');
+    const existingTrips = [
+      { id: 'mexico', from: '2023-01-05' as LocalDate, to: '2023-01-20' as LocalDate },
+      { id: 'france', from: '2023-06-05' as LocalDate, to: '2023-06-20' as LocalDate },
+    ];
+
+    const result = importTravelHistory(text, existingTrips);
+    expect(result.candidates.map(({ absence }) => `${absence.from} – ${absence.to}`)).toEqual([
+      '2023-01-05 – 2023-01-20',
+      '2023-06-01 – 2023-06-10',
+    ]);
+    expect(result.candidates.map(({ duplicate }) => duplicate)).toEqual([true, false]);
+    expect(result.candidates[1].overlapping.map(({ id }) => id)).toEqual(['france']);
+    expect(result.unpaired).toEqual([]);
+    expect(result.unrecognizedLines).toEqual([]);
+  });
+});
@@ -0,0 +1,66 @@
+import { Platform, Share } from 'react-native';
+import { ExportFile } from '@journey-to-citizen/types';
+
+/**
+ * Save the files of a personal data export
+ * On the web each file is downloaded. The native apps have no file system
+ * module, so they open the share sheet once per file, in order, with the
+ * file's content as the message.
+ *
+ * @param files - Files returned by exportUserData
+ */
+export async function saveExportFiles(files: ExportFile[]): Promise<void> {
+  if (Platform.OS === 'web') {
+    files.forEach((file) => {
+      const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    });
+    return;
+  }
+
+  for (const file of files) {
+    await Share.share({ title: file.filename, message: file.content });
+  }
+}
+
+/**
+ * Let the user choose a text file (e.g. a backup) and read it (web only)
+ *
+ * @param accept - File types to offer (file input `accept` attribute)
+ * @returns File content, or null if no file was chosen
+ */
+export function pickTextFile(accept: string): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+
+    let settled = false;
+    const settle = (file: File | null) => {
+      if (settled) return;
+      settled = true;
+      window.removeEventListener('focus', handleFocus);
+      if (!file) {
+        resolve(null);
+        return;
+      }
+      file.text().then(resolve, reject);
+    };
+    // Browsers without the input's cancel event: the window gets focus back
+    // when the dialog closes, just before change fires if a file was chosen
+    const handleFocus = () => {
+      setTimeout(() => settle(input.files?.[0] ?? null), 500);
+    };
+
+    input.onchange = () => settle(input.files?.[0] ?? null);
+    input.addEventListener('cancel', () => settle(null));
+    window.addEventListener('focus', handleFocus);
+    input.click();
+  });
+}
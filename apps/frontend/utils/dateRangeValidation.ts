@@ -2,9 +2,16 @@
  * Utility functions for validating and checking date ranges
  */
 
+import { LocalDate } from '@journey-to-citizen/types';
+import {
+  compareLocalDates,
+  daysBetweenLocalDates,
+  formatLocalDate,
+} from '@journey-to-citizen/calculations';
+
 interface DateRange {
-  from: string; // YYYY-MM-DD
-  to: string;   // YYYY-MM-DD
+  from: LocalDate;
+  to?: LocalDate; // undefined = ongoing
   [key: string]: any; // Allow additional fields like place, purpose, etc.
 }
 
@@ -12,14 +19,12 @@ interface DateRange {
  * Check if two date ranges overlap
  */
 export function doDateRangesOverlap(range1: DateRange, range2: DateRange): boolean {
-  const start1 = new Date(range1.from + 'T00:00:00.000Z');
-  const end1 = new Date(range1.to + 'T00:00:00.000Z');
-  const start2 = new Date(range2.from + 'T00:00:00.000Z');
-  const end2 = new Date(range2.to + 'T00:00:00.000Z');
-
   // Ranges overlap if:
-  // start1 <= end2 AND start2 <= end1
-  return start1 <= end2 && start2 <= end1;
+  // start1 <= end2 AND start2 <= end1 (ongoing ranges have no end)
+  return (
+    (!range2.to || compareLocalDates(range1.from, range2.to) <= 0) &&
+    (!range1.to || compareLocalDates(range2.from, range1.to) <= 0)
+  );
 }
 
 /**
@@ -57,13 +62,14 @@ export function formatOverlappingRangesMessage(ranges: DateRange[]): string {
   const formatRange = (r: DateRange): string => {
     const fromDate = formatDateForDisplay(r.from);
     
-    // Calculate days
-    const from = new Date(r.from + 'T00:00:00.000Z');
-    const to = new Date(r.to + 'T00:00:00.000Z');
-    const days = Math.ceil((to.getTime() - from.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-    
     // Build concise message: "4 days from Sep 7, 2025"
-    let message = `${days} day${days !== 1 ? 's' : ''} from ${fromDate}`;
+    let message: string;
+    if (r.to) {
+      const days = daysBetweenLocalDates(r.from, r.to) + 1;
+      message = `${days} day${days !== 1 ? 's' : ''} from ${fromDate}`;
+    } else {
+      message = `Ongoing since ${fromDate}`;
+    }
     
     // Add place or purpose if available
     if (r.place) {
@@ -86,12 +92,6 @@ export function formatOverlappingRangesMessage(ranges: DateRange[]): string {
  * Format date string for user-friendly display
  * Returns format like "Sep 15, 2024"
  */
-export function formatDateForDisplay(dateString: string): string {
-  const date = new Date(dateString + 'T00:00:00.000Z');
-  return date.toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'short',
-    day: 'numeric',
-    timeZone: 'UTC'
-  });
+export function formatDateForDisplay(dateString: LocalDate): string {
+  return formatLocalDate(dateString);
 }
@@ -1,8 +1,11 @@
-import { UserProfile, EligibilityCalculation } from '@journey-to-citizen/types';
+import { UserProfile, EligibilityCalculation, LocalDate, getPRDate } from '@journey-to-citizen/types';
 import { 
-  calculateStaticEligibility, 
-  parseDate as sharedParseDate,
+  getEligibilitySnapshot,
+  calculateTaxFilingRequirement,
+  ProjectionResult,
   DAYS_REQUIRED,
+  todayLocalDate,
+  currentDate,
 } from '@journey-to-citizen/calculations';
 
 /**
@@ -12,85 +15,93 @@ function parseDate(dateString: string): Date {
   return new Date(dateString + 'T00:00:00.000Z');
 }
 
+/**
+ * Eligibility for any profile - PR users and projections alike
+ * For users without PR, the presence values are the projection ("if you got
+ * PR today") and isEligible is always false.
+ */
+export interface EligibilityResult extends EligibilityCalculation {
+  /** Whether the profile has a PR date (from statusHistory, or the legacy prDate) */
+  hasPR: boolean;
+  /** PR date, if any */
+  prDate: LocalDate | null;
+  /** Earliest application date (projected for users without PR) */
+  earliestApplicationDate: Date | null;
+  /** Projection used for users without PR */
+  projection: ProjectionResult;
+}
+
 /**
  * Get complete eligibility data by calculating on-the-fly using shared package
  * 
- * This function calculates eligibility in real-time using the shared calculation
- * package, ensuring consistency between frontend and backend calculations.
+ * Works from the profile's statusHistory (falling back to the legacy prDate)
+ * through the shared eligibility snapshot, so PR users and users still
+ * waiting for PR get the same result shape.
  * 
  * Calculated values:
- * - daysInCanadaAsPR: Days in eligibility window as PR
+ * - daysInCanadaAsPR: Days in eligibility window as PR (0 without PR)
  * - preDaysCredit: Credit from pre-PR presence (max 365)
  * - totalAbsenceDays: Total days absent
- * - earliestEligibilityDate: When user becomes eligible (date string YYYY-MM-DD)
+ * - earliestEligibilityDate: When user becomes eligible (date string YYYY-MM-DD, null if not reachable)
  * - daysRemaining: Days until eligibility
- * - isEligible: Whether eligible today
+ * - isEligible: Whether eligible today (presence AND tax filing requirements met)
+ * - taxYearsFiled: Filed tax years inside the 5-year window
  * - progress: Percentage towards eligibility
  */
-export function getEligibility(profile: UserProfile | null): EligibilityCalculation & {
-  earliestApplicationDate: Date | null;
-} {
-  const defaultResult: EligibilityCalculation & { earliestApplicationDate: Date | null } = {
-    daysInCanadaAsPR: 0,
-    preDaysCredit: 0,
-    totalAbsenceDays: 0,
-    earliestEligibilityDate: '',
-    totalEligibleDays: 0,
-    daysRequired: DAYS_REQUIRED,
-    daysRemaining: DAYS_REQUIRED,
-    isEligible: false,
-    earliestApplicationDate: null,
-    progress: 0,
-  };
-
-  if (!profile || !profile.prDate) {
-    return defaultResult;
-  }
+export function getEligibility(profile: UserProfile | null): EligibilityResult {
+  // Today on the device (the engine's default too)
+  const today = currentDate();
+  const snapshot = getEligibilitySnapshot(profile || {}, today);
+  const prDate = getPRDate(profile) || null;
+  const staticData = snapshot.staticEligibility;
 
-  // Calculate eligibility on-the-fly using shared package
-  const staticData = calculateStaticEligibility(profile);
-  
-  if (!staticData) {
-    // Calculation returned null (shouldn't happen if prDate exists, but handle it)
-    return defaultResult;
-  }
-  
   // Convert earliest eligibility date from date string
-  let earliestDate: Date | null = null;
-  if (staticData.earliestEligibilityDate) {
-    earliestDate = parseDate(staticData.earliestEligibilityDate);
-  }
+  const earliestDate = snapshot.earliestEligibilityDate
+    ? parseDate(snapshot.earliestEligibilityDate)
+    : null;
 
-  // Calculate dynamic values based on current date
-  const today = new Date();
-  const totalEligibleDays = staticData.daysInCanadaAsPR + staticData.preDaysCredit - staticData.totalAbsenceDays;
-  
-  // Calculate days remaining until eligibility
-  let daysRemaining = 0;
-  let isEligible = false;
+  // Without a reachable date, the eligible days still missing today
+  let daysRemaining = Math.max(0, DAYS_REQUIRED - snapshot.totalEligibleDays);
+  let meetsPresenceRequirement = false;
   if (earliestDate) {
     const msRemaining = earliestDate.getTime() - today.getTime();
     daysRemaining = Math.max(0, Math.ceil(msRemaining / (1000 * 60 * 60 * 24)));
-    isEligible = today >= earliestDate;
+    // Only PR time can complete the presence requirement
+    meetsPresenceRequirement = snapshot.hasPR && today >= earliestDate;
   }
 
+  // Tax filing requirement (3 of the 5 tax years in the window)
+  const taxFiling = calculateTaxFilingRequirement(profile || {}, today);
+  const isEligible = meetsPresenceRequirement && taxFiling.requirementMet;
+
   // Calculate progress percentage
-  const progress = Math.min(100, (totalEligibleDays / DAYS_REQUIRED) * 100);
+  const progress = Math.max(0, Math.min(100, (snapshot.totalEligibleDays / DAYS_REQUIRED) * 100));
 
   return {
+    hasPR: snapshot.hasPR,
+    prDate,
+
     // Calculated data from shared package
-    daysInCanadaAsPR: staticData.daysInCanadaAsPR,
-    preDaysCredit: staticData.preDaysCredit,
-    totalAbsenceDays: staticData.totalAbsenceDays,
-    earliestEligibilityDate: staticData.earliestEligibilityDate,
+    daysInCanadaAsPR: staticData?.daysInCanadaAsPR ?? 0,
+    preDaysCredit: snapshot.preDaysCredit,
+    totalAbsenceDays: snapshot.totalAbsenceDays,
+    nonCountableDays: staticData
+      ? staticData.nonCountableDays
+      : snapshot.projection.nonCountableDaysDeducted,
+    earliestEligibilityDate: snapshot.earliestEligibilityDate,
     
     // Derived values
-    totalEligibleDays,
+    totalEligibleDays: snapshot.totalEligibleDays,
     daysRequired: DAYS_REQUIRED,
     daysRemaining,
     isEligible,
+    meetsPresenceRequirement,
+    meetsTaxRequirement: taxFiling.requirementMet,
+    taxYearsFiled: taxFiling.filedYearsInWindow.length,
+    taxYearsRequired: taxFiling.yearsRequired,
     progress,
     earliestApplicationDate: earliestDate,
+    projection: snapshot.projection,
   };
 }
 
@@ -98,9 +109,7 @@ export function getEligibility(profile: UserProfile | null): EligibilityCalculat
  * @deprecated Use getEligibility() instead - it now calculates on-the-fly
  * This function is kept for backward compatibility but will be removed
  */
-export function calculateEligibility(profile: UserProfile | null): EligibilityCalculation & {
-  earliestApplicationDate: Date | null;
-} {
+export function calculateEligibility(profile: UserProfile | null): EligibilityResult {
   console.warn('calculateEligibility() is deprecated. Use getEligibility() instead.');
   return getEligibility(profile);
 }
@@ -113,11 +122,8 @@ export function getUpcomingTrips(profile: UserProfile | null): number {
     return 0;
   }
 
-  const today = new Date();
-  return profile.travelAbsences.filter(absence => {
-    const fromDate = new Date(absence.from);
-    return fromDate > today;
-  }).length;
+  const today = todayLocalDate();
+  return profile.travelAbsences.filter(absence => absence.from > today).length;
 }
 
 /**
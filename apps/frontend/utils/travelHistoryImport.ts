@@ -0,0 +1,327 @@
+/**
+ * Import trips from an official travel history
+ *
+ * Reads the entry and exit records of a CBSA travel history (entry/exit
+ * records) or an IRCC travel history report and pairs each exit from Canada
+ * with the next entry into Canada to get trip candidates. Accepts a CSV
+ * export with a header row, or text with one record per line (e.g. copied
+ * from a PDF report).
+ *
+ * Dates can be YYYY-MM-DD (also with / or .), "Jan 5, 2023" or
+ * "05 JAN 2023". Day-first numeric dates (05/01/2023) are ambiguous and are
+ * not recognized.
+ */
+
+import {
+  AbsenceEntry,
+  LocalDate,
+  isLocalDate,
+  localDateFromParts,
+} from '@journey-to-citizen/types';
+import { compareLocalDates } from '@journey-to-citizen/calculations';
+import { findOverlappingRanges, isExactDuplicate } from './dateRangeValidation';
+
+export type TravelDirection = 'exit' | 'entry';
+
+/**
+ * One entry into or exit from Canada
+ */
+export interface TravelRecord {
+  line: number; // Line of the input (1-based)
+  date: LocalDate;
+  direction: TravelDirection;
+  location?: string; // Port of entry or exit, if the record has one
+}
+
+/**
+ * Trip built from an exit and the entry that followed it
+ */
+export interface TripCandidate {
+  absence: AbsenceEntry;
+  exit: TravelRecord;
+  entry: TravelRecord;
+  duplicate: boolean; // Same dates as a trip already in the timeline
+  overlapping: AbsenceEntry[]; // Trips in the timeline it overlaps
+}
+
+/**
+ * Record that couldn't be paired into a trip
+ */
+export interface UnpairedRecord {
+  record: TravelRecord;
+  // exit_without_entry: left Canada, but no later entry (or another exit came first)
+  // entry_without_exit: entered Canada without an earlier exit (e.g. the first arrival)
+  reason: 'exit_without_entry' | 'entry_without_exit';
+}
+
+export interface TravelHistoryImport {
+  candidates: TripCandidate[];
+  unpaired: UnpairedRecord[];
+  unrecognizedLines: number[]; // Non-empty lines without a record
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const ISO_DATE = /\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/;
+const DAY_MONTH_YEAR = /\b(\d{1,2})[\s-]([A-Za-z]{3,9})\.?[\s-]+(\d{4})\b/;
+const MONTH_DAY_YEAR = /\b([A-Za-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})\b/;
+
+// "Port of entry" names a place, not a direction
+const PORT_OF_ENTRY = /\bports?\s+of\s+entry\b/gi;
+const EXIT_WORDS = /\b(exit|exited|exiting|departure|departed|outbound)\b/i;
+const ENTRY_WORDS = /\b(entry|entered|entering|arrival|arrived|inbound)\b/i;
+
+/**
+ * Month number (1-12) of an English month name or abbreviation
+ */
+function parseMonth(name: string): number | null {
+  const index = MONTHS.indexOf(name.substring(0, 3).toLowerCase());
+  return index === -1 ? null : index + 1;
+}
+
+/**
+ * Find the first recognized date in a piece of text
+ */
+function findDate(text: string): LocalDate | null {
+  const candidates: Array<[number, number | null, number]> = [];
+
+  const iso = ISO_DATE.exec(text);
+  if (iso) candidates.push([Number(iso[1]), Number(iso[2]), Number(iso[3])]);
+  const dayFirst = DAY_MONTH_YEAR.exec(text);
+  if (dayFirst) candidates.push([Number(dayFirst[3]), parseMonth(dayFirst[2]), Number(dayFirst[1])]);
+  const monthFirst = MONTH_DAY_YEAR.exec(text);
+  if (monthFirst) candidates.push([Number(monthFirst[3]), parseMonth(monthFirst[1]), Number(monthFirst[2])]);
+
+  for (const [year, month, day] of candidates) {
+    if (month === null) continue;
+    const date = localDateFromParts(year, month, day);
+    if (isLocalDate(date)) return date;
+  }
+  return null;
+}
+
+/**
+ * Direction of a record from its wording, or null if unclear
+ */
+function findDirection(text: string): TravelDirection | null {
+  // Direction columns may just say IN or OUT
+  const cell = text.trim().toLowerCase();
+  if (cell === 'in') return 'entry';
+  if (cell === 'out') return 'exit';
+
+  const words = text.replace(PORT_OF_ENTRY, ' ');
+  const isExit = EXIT_WORDS.test(words);
+  const isEntry = ENTRY_WORDS.test(words);
+  if (isExit === isEntry) return null;
+  return isExit ? 'exit' : 'entry';
+}
+
+/**
+ * Split one CSV line into cells (quoted cells may contain the delimiter)
+ */
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * CSV delimiter of a header line, or null if it isn't a CSV header
+ * (a header has a delimiter and a date column)
+ */
+function detectCsvDelimiter(line: string): string | null {
+  const counts = [',', ';', '\t'].map((delimiter) => ({
+    delimiter,
+    count: line.split(delimiter).length - 1,
+  }));
+  const best = counts.sort((a, b) => b.count - a.count)[0];
+  if (best.count === 0) return null;
+  const header = splitCsvLine(line, best.delimiter);
+  const hasDateColumn = header.some((cell) => /date/i.test(cell));
+  return hasDateColumn && !findDate(line) ? best.delimiter : null;
+}
+
+/**
+ * Read records from CSV rows, using the header to find the columns
+ * Handles one record per row (a date and a direction column) and one trip
+ * per row (separate exit and entry date columns).
+ */
+function parseCsvRecords(
+  lines: Array<{ line: number; text: string }>,
+  delimiter: string
+): { records: TravelRecord[]; unrecognizedLines: number[] } {
+  const [headerLine, ...rows] = lines;
+  const header = splitCsvLine(headerLine.text, delimiter).map((cell) => cell.toLowerCase());
+  const columnOf = (pattern: RegExp, exclude: number[] = []) =>
+    header.findIndex((cell, index) => pattern.test(cell) && exclude.indexOf(index) === -1);
+
+  // Separate exit and entry date columns (one trip per row)
+  const exitDateColumn = columnOf(/(exit|departure|left).*date|date.*(exit|departure)/);
+  const entryDateColumn = columnOf(/(entry|arrival|return).*date|date.*(entry|arrival|return)/, [exitDateColumn]);
+  const dateColumn = columnOf(/date/);
+  const directionColumn = columnOf(
+    /direction|movement|event|travel type|entry\s*\/\s*exit|in\s*\/\s*out|^type$/,
+    [dateColumn]
+  );
+  // e.g. "Date of entry" in a report of entries only
+  const dateColumnDirection = dateColumn !== -1 ? findDirection(header[dateColumn]) : null;
+  const locationColumn = columnOf(/port|location|place|crossing|office|point/, [dateColumn]);
+
+  const records: TravelRecord[] = [];
+  const unrecognizedLines: number[] = [];
+
+  rows.forEach(({ line, text }) => {
+    const cells = splitCsvLine(text, delimiter);
+    const location = locationColumn !== -1 && cells[locationColumn] ? cells[locationColumn] : undefined;
+    const found: TravelRecord[] = [];
+
+    if (exitDateColumn !== -1 && entryDateColumn !== -1) {
+      const exitDate = findDate(cells[exitDateColumn] || '');
+      const entryDate = findDate(cells[entryDateColumn] || '');
+      if (exitDate) found.push({ line, date: exitDate, direction: 'exit', location });
+      if (entryDate) found.push({ line, date: entryDate, direction: 'entry', location });
+    } else {
+      const date = findDate(dateColumn !== -1 ? cells[dateColumn] || '' : text);
+      const direction = directionColumn !== -1
+        ? findDirection(cells[directionColumn] || '')
+        : findDirection(text) || dateColumnDirection;
+      if (date && direction) found.push({ line, date, direction, location });
+    }
+
+    if (found.length === 0) {
+      unrecognizedLines.push(line);
+    }
+    records.push(...found);
+  });
+
+  return { records, unrecognizedLines };
+}
+
+/**
+ * Read the entry and exit records of a travel history
+ *
+ * @param text - CSV export or text with one record per line
+ * @returns Records in input order, and lines that had none
+ */
+export function parseTravelRecords(text: string): { records: TravelRecord[]; unrecognizedLines: number[] } {
+  const lines = text
+    .split(/\r?\n/)
+    .map((lineText, index) => ({ line: index + 1, text: lineText.trim() }))
+    .filter(({ text: lineText }) => lineText.length > 0);
+
+  if (lines.length === 0) {
+    return { records: [], unrecognizedLines: [] };
+  }
+
+  const delimiter = detectCsvDelimiter(lines[0].text);
+  if (delimiter) {
+    return parseCsvRecords(lines, delimiter);
+  }
+
+  const records: TravelRecord[] = [];
+  const unrecognizedLines: number[] = [];
+  lines.forEach(({ line, text: lineText }) => {
+    const date = findDate(lineText);
+    const direction = findDirection(lineText);
+    if (date && direction) {
+      records.push({ line, date, direction });
+    } else {
+      unrecognizedLines.push(line);
+    }
+  });
+  return { records, unrecognizedLines };
+}
+
+/**
+ * Pair each exit with the next entry
+ * Reports are often newest first: records are put in date order, keeping
+ * the report's order for records on the same day.
+ *
+ * @param records - Records in input order
+ * @returns Exit/entry pairs and the records left over
+ */
+export function pairTravelRecords(records: TravelRecord[]): {
+  trips: Array<{ exit: TravelRecord; entry: TravelRecord }>;
+  unpaired: UnpairedRecord[];
+} {
+  const newestFirst = records.length > 1 && compareLocalDates(records[0].date, records[records.length - 1].date) > 0;
+  const ordered = (newestFirst ? [...records].reverse() : [...records])
+    .map((record, index) => ({ record, index }))
+    .sort((a, b) => compareLocalDates(a.record.date, b.record.date) || a.index - b.index)
+    .map(({ record }) => record);
+
+  const trips: Array<{ exit: TravelRecord; entry: TravelRecord }> = [];
+  const unpaired: UnpairedRecord[] = [];
+  let pendingExit: TravelRecord | null = null;
+
+  for (const record of ordered) {
+    if (record.direction === 'exit') {
+      if (pendingExit) {
+        unpaired.push({ record: pendingExit, reason: 'exit_without_entry' });
+      }
+      pendingExit = record;
+    } else if (pendingExit) {
+      trips.push({ exit: pendingExit, entry: record });
+      pendingExit = null;
+    } else {
+      unpaired.push({ record, reason: 'entry_without_exit' });
+    }
+  }
+
+  if (pendingExit) {
+    unpaired.push({ record: pendingExit, reason: 'exit_without_entry' });
+  }
+
+  return { trips, unpaired };
+}
+
+/**
+ * Turn a travel history into trip candidates, checked against the timeline
+ *
+ * @param text - CSV export or text with one record per line
+ * @param existingTrips - Trips already in the timeline
+ * @returns Candidates (oldest first), unpaired records and unrecognized lines
+ */
+export function importTravelHistory(text: string, existingTrips: AbsenceEntry[]): TravelHistoryImport {
+  const { records, unrecognizedLines } = parseTravelRecords(text);
+  const { trips, unpaired } = pairTravelRecords(records);
+
+  const candidates = trips.map(({ exit, entry }) => {
+    const absence: AbsenceEntry = {
+      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      from: exit.date,
+      to: entry.date,
+    };
+    return {
+      absence,
+      exit,
+      entry,
+      duplicate: isExactDuplicate(absence, existingTrips),
+      overlapping: findOverlappingRanges(absence, existingTrips) as AbsenceEntry[],
+    };
+  });
+
+  return { candidates, unpaired, unrecognizedLines };
+}
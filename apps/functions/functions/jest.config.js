@@ -0,0 +1,17 @@
+// Jest config for the Firestore security rules tests (run via test:rules,
+// which starts the Firestore emulator first)
+module.exports = {
+  testEnvironment: "node",
+  roots: ["<rootDir>/test"],
+  testTimeout: 20000,
+  transform: {
+    "^.+\\.ts$": ["ts-jest", {
+      tsconfig: {
+        module: "commonjs",
+        esModuleInterop: true,
+        strict: true,
+        target: "es2020",
+      },
+    }],
+  },
+};
@@ -10,18 +10,52 @@
 import {setGlobalOptions} from "firebase-functions";
 import {onRequest} from "firebase-functions/https";
 import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {onSchedule} from "firebase-functions/v2/scheduler";
 import * as logger from "firebase-functions/logger";
 import * as admin from "firebase-admin";
 import {CloudTasksClient} from "@google-cloud/tasks";
 import {
   UserProfile,
-  UpdateProfileData,
+  StaticEligibilityData,
   ApiResponse,
+  NonCountablePeriod,
+  AbsenceEntry,
+  StatusEntry,
   DELETION_STATUS,
+  STATUS_TYPE_LABELS,
+  ABSENCE_REASONS,
+  ABSENCE_REASON_LABELS,
+  USER_DATA_EXPORT_VERSION,
+  UserDataExport,
+  UserDataExportResult,
+  restoreBackupDataSchema,
+  restoreEntries,
+  restoreTaxYears,
+  Schema,
+  parseSchema,
+  formatFieldErrors,
+  updateProfileDataSchema,
+  addAbsenceDataSchema,
+  addAbsencesDataSchema,
+  updateAbsenceDataSchema,
+  deleteAbsenceDataSchema,
+  addStatusDataSchema,
+  updateStatusDataSchema,
+  deleteStatusDataSchema,
+  closeCurrentStatusDataSchema,
+  getEntriesPageDataSchema,
+  EntriesPage,
+  PROFILE_SCHEMA_VERSION,
+  needsSchemaUpgrade,
+  convertLegacyToStatusHistory,
 } from "@journey-to-citizen/types";
 import {
   calculateStaticEligibility,
   hasEligibilityFieldsChanged,
+  validateProfile,
+  getProfileIssueKey,
+  ProfileIssue,
+  addDaysToLocalDate,
 } from "@journey-to-citizen/calculations";
 
 // Initialize Firebase Admin SDK
@@ -88,6 +122,380 @@ function updateEligibilityData(
   }
 }
 
+/**
+ * Whether stored eligibility already holds the calculated values
+ * Compared field by field, since Firestore doesn't preserve key order.
+ * calculatedAsOf is ignored: values that didn't change aren't rewritten
+ * just because they were calculated on a later day.
+ *
+ * @param {StaticEligibilityData} staticData - Calculated eligibility
+ * @param {Partial<StaticEligibilityData>} stored - Stored values, if any
+ * @return {boolean} True if no value differs
+ */
+function isStoredEligibilityCurrent(
+  staticData: StaticEligibilityData,
+  stored: Partial<StaticEligibilityData> | undefined
+): boolean {
+  if (!stored) {
+    return false;
+  }
+  return (Object.keys(staticData) as Array<keyof StaticEligibilityData>)
+    .filter((key) => key !== "calculatedAsOf")
+    .every((key) => staticData[key] === stored[key]);
+}
+
+/**
+ * Reference to the private document holding a user's sentence, probation
+ * and parole periods. It lives outside the user document (and is denied to
+ * clients by the security rules) so it is only ever read by these functions.
+ *
+ * @param {string} userId - User ID
+ * @return {admin.firestore.DocumentReference} Private periods document
+ */
+function nonCountablePeriodsRef(
+  userId: string
+): admin.firestore.DocumentReference {
+  return db.collection("users").doc(userId)
+    .collection("private").doc("nonCountablePeriods");
+}
+
+/**
+ * Read a user's sentence, probation and parole periods
+ * The periods are sensitive: never log their contents.
+ *
+ * @param {string} userId - User ID
+ * @return {Promise<NonCountablePeriod[]>} Stored periods (empty if none)
+ */
+async function getNonCountablePeriods(
+  userId: string
+): Promise<NonCountablePeriod[]> {
+  const doc = await nonCountablePeriodsRef(userId).get();
+  return doc.exists ? doc.data()?.periods || [] : [];
+}
+
+// Entries read per page from the absences and statusHistory subcollections
+const ENTRY_PAGE_SIZE = 500;
+
+/**
+ * Subcollection holding each timeline list, keyed by the profile field
+ */
+const TIMELINE_SUBCOLLECTIONS = {
+  statusHistory: "statusHistory",
+  travelAbsences: "absences",
+} as const;
+
+type TimelineField = keyof typeof TIMELINE_SUBCOLLECTIONS;
+
+const TIMELINE_FIELDS = Object.keys(
+  TIMELINE_SUBCOLLECTIONS
+) as TimelineField[];
+
+/**
+ * Runs a query, in or outside a transaction
+ */
+type QueryReader = (
+  query: admin.firestore.Query
+) => Promise<admin.firestore.QuerySnapshot>;
+
+/**
+ * Anything entries can be written with (transaction or batch)
+ */
+interface EntryWriter {
+  set(
+    ref: admin.firestore.DocumentReference,
+    data: admin.firestore.DocumentData
+  ): unknown;
+  delete(ref: admin.firestore.DocumentReference): unknown;
+}
+
+/**
+ * Reference to one of a user's entry subcollections
+ *
+ * @param {string} userId - User ID
+ * @param {TimelineField} field - Profile field the entries belong to
+ * @return {admin.firestore.CollectionReference} Entry subcollection
+ */
+function timelineEntriesRef(
+  userId: string,
+  field: TimelineField
+): admin.firestore.CollectionReference {
+  return db.collection("users").doc(userId)
+    .collection(TIMELINE_SUBCOLLECTIONS[field]);
+}
+
+/**
+ * Read every entry of a subcollection, one page at a time
+ *
+ * @param {admin.firestore.CollectionReference} collection - Subcollection
+ * @param {QueryReader} read - Runs each page query
+ * @return {Promise<Array>} Entries, oldest first
+ */
+async function readAllEntries<T extends {id: string; from: string}>(
+  collection: admin.firestore.CollectionReference,
+  read: QueryReader
+): Promise<T[]> {
+  const entries: T[] = [];
+  const firstPage = collection
+    .orderBy(admin.firestore.FieldPath.documentId())
+    .limit(ENTRY_PAGE_SIZE);
+
+  for (let query = firstPage; ;) {
+    const snapshot = await read(query);
+    snapshot.docs.forEach((doc) => entries.push(doc.data() as T));
+    if (snapshot.size < ENTRY_PAGE_SIZE) {
+      break;
+    }
+    query = firstPage.startAfter(snapshot.docs[snapshot.docs.length - 1]);
+  }
+
+  return entries.sort((a, b) =>
+    a.from === b.from ? a.id.localeCompare(b.id) : a.from.localeCompare(b.from)
+  );
+}
+
+/**
+ * Add a user's status history and trips to their user document data
+ * Users still storing them as arrays in the user document are returned
+ * unchanged, so callers see the same shape either way.
+ *
+ * @param {string} userId - User ID
+ * @param {admin.firestore.DocumentData} userData - User document data
+ * @param {QueryReader} read - Runs each page query (e.g. in a transaction)
+ * @return {Promise<admin.firestore.DocumentData>} User data with both arrays
+ */
+async function withTimelineEntries(
+  userId: string,
+  userData: admin.firestore.DocumentData,
+  read: QueryReader = (query) => query.get()
+): Promise<admin.firestore.DocumentData> {
+  if (!userData.timelineInSubcollections) {
+    return userData;
+  }
+
+  const [statusHistory, travelAbsences] = await Promise.all([
+    readAllEntries<StatusEntry>(
+      timelineEntriesRef(userId, "statusHistory"), read
+    ),
+    readAllEntries<AbsenceEntry>(
+      timelineEntriesRef(userId, "travelAbsences"), read
+    ),
+  ]);
+  return {...userData, statusHistory, travelAbsences};
+}
+
+/**
+ * Whether two entries hold the same values (missing and null are equal)
+ *
+ * @param {object} a - Entry
+ * @param {object} b - Entry
+ * @return {boolean} True if every field matches
+ */
+function isSameEntry(a: object, b: object): boolean {
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  return Object.keys({...left, ...right}).every(
+    (key) => (left[key] ?? null) === (right[key] ?? null)
+  );
+}
+
+/**
+ * Write status history and trip changes to the entry subcollections
+ * Only added, changed and removed entries are written. Users still storing
+ * arrays in the user document are moved to the subcollections (the arrays
+ * are removed and timelineInSubcollections is set).
+ *
+ * Call after validation and eligibility calculation: the arrays are removed
+ * from userData, which is then ready to write to the user document.
+ *
+ * @param {EntryWriter} writer - Transaction or batch to write with
+ * @param {string} userId - User ID
+ * @param {admin.firestore.DocumentData} existingData - Stored data (with
+ * entries)
+ * @param {admin.firestore.DocumentData} userData - User document update
+ */
+function writeTimelineEntries(
+  writer: EntryWriter,
+  userId: string,
+  existingData: admin.firestore.DocumentData,
+  userData: admin.firestore.DocumentData
+): void {
+  const inSubcollections = !!existingData.timelineInSubcollections;
+
+  TIMELINE_FIELDS.forEach((field) => {
+    const updated: Array<{id: string}> | undefined = userData[field];
+    delete userData[field];
+    if (inSubcollections && updated === undefined) {
+      return;
+    }
+
+    const collection = timelineEntriesRef(userId, field);
+    const previous: Array<{id: string}> =
+      inSubcollections ? existingData[field] || [] : [];
+    const next: Array<{id: string}> = updated ?? existingData[field] ?? [];
+    const nextIds = new Set(next.map((entry) => entry.id));
+
+    previous
+      .filter((entry) => !nextIds.has(entry.id))
+      .forEach((entry) => writer.delete(collection.doc(entry.id)));
+    next
+      .filter((entry) => {
+        const stored = previous.find((item) => item.id === entry.id);
+        return !stored || !isSameEntry(stored, entry);
+      })
+      .forEach((entry) => {
+        // Firestore rejects undefined values (e.g. an open-ended `to`)
+        const data = Object.keys(entry).reduce<Record<string, unknown>>(
+          (result, key) => {
+            const value = (entry as Record<string, unknown>)[key];
+            return value === undefined ? result : {...result, [key]: value};
+          },
+          {}
+        );
+        writer.set(collection.doc(entry.id), data);
+      });
+
+    if (!inSubcollections) {
+      userData[field] = admin.firestore.FieldValue.delete();
+    }
+  });
+
+  if (!inSubcollections) {
+    userData.timelineInSubcollections = true;
+  }
+}
+
+/**
+ * Pick the status history and trips to return from a write
+ *
+ * @param {admin.firestore.DocumentData} existingData - Stored data (with
+ * entries)
+ * @param {admin.firestore.DocumentData} userData - User document update
+ * @return {object} Entries after the write
+ */
+function getUpdatedTimeline(
+  existingData: admin.firestore.DocumentData,
+  userData: admin.firestore.DocumentData
+): {statusHistory: StatusEntry[]; travelAbsences: AbsenceEntry[]} {
+  return {
+    statusHistory:
+      userData.statusHistory ?? existingData.statusHistory ?? [],
+    travelAbsences:
+      userData.travelAbsences ?? existingData.travelAbsences ?? [],
+  };
+}
+
+/**
+ * Find blocking validation issues introduced by an update
+ * Issues already present in the stored profile are not counted, so users
+ * can still save other changes (or fix one issue at a time).
+ *
+ * @param {admin.firestore.DocumentData} userData - User data to update
+ * @param {admin.firestore.DocumentData} existingData - Existing user data
+ * @return {ProfileIssue[]} New blocking issues
+ */
+function findNewBlockingIssues(
+  userData: admin.firestore.DocumentData,
+  existingData: admin.firestore.DocumentData
+): ProfileIssue[] {
+  const existingKeys = new Set(
+    validateProfile(existingData).errors.map(getProfileIssueKey)
+  );
+
+  return validateProfile({...existingData, ...userData}).errors.filter(
+    (issue) => !existingKeys.has(getProfileIssueKey(issue))
+  );
+}
+
+/**
+ * Validate a callable payload against its schema
+ * Invalid payloads are rejected with field-level errors in the details.
+ *
+ * @param {Schema} schema - Payload schema from @journey-to-citizen/types
+ * @param {unknown} data - Request data
+ * @return {T} Validated payload
+ */
+function parsePayload<T>(schema: Schema<T>, data: unknown): T {
+  const result = parseSchema(schema, data);
+  if (!result.success) {
+    throw new HttpsError(
+      "invalid-argument",
+      formatFieldErrors(result.errors),
+      {errors: result.errors}
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Reject a write made against an outdated profile revision
+ * The client reloads the profile on this conflict (details.currentRevision)
+ * instead of overwriting an edit made on another device.
+ *
+ * @param {string} userId - User ID
+ * @param {number | undefined} revision - Revision the write was made against
+ * @param {number} currentRevision - Stored revision (missing = 0)
+ */
+function assertCurrentRevision(
+  userId: string,
+  revision: number | undefined,
+  currentRevision: number
+): void {
+  if (revision === currentRevision) {
+    return;
+  }
+  logger.info(
+    `Rejected stale timeline edit for userId: ${userId} ` +
+    `(revision ${revision}, current ${currentRevision})`
+  );
+  throw new HttpsError(
+    "failed-precondition",
+    "Your timeline was changed on another device. " +
+    "Refresh and try again.",
+    {currentRevision}
+  );
+}
+
+// Profile fields that change the timeline; updateUserProfile only accepts
+// them with the current revision
+const TIMELINE_UPDATE_FIELDS = [
+  "statusHistory",
+  "travelAbsences",
+  "nonCountablePeriods",
+  "immigrationStatus",
+  "prDate",
+  "presenceInCanada",
+] as const;
+
+/**
+ * Whether a write changes the timeline (and so the profile revision)
+ * Other fields (display name, filed tax years) don't bump the revision, so
+ * editing them on one device doesn't make timeline edits on another stale.
+ * Lists are compared by entry, in any order.
+ *
+ * @param {admin.firestore.DocumentData} userData - Fields being written
+ * @param {admin.firestore.DocumentData} existingData - Stored profile
+ * @return {boolean} True if a timeline field gets a different value
+ */
+function changesTimelineData(
+  userData: admin.firestore.DocumentData,
+  existingData: admin.firestore.DocumentData
+): boolean {
+  return TIMELINE_UPDATE_FIELDS.some((field) => {
+    const updated = userData[field];
+    const stored = existingData[field];
+    if (updated === undefined) {
+      return false;
+    }
+    if (!Array.isArray(updated) || !Array.isArray(stored)) {
+      return JSON.stringify(updated) !== JSON.stringify(stored);
+    }
+    return updated.length !== stored.length ||
+      updated.some((entry) =>
+        !stored.some((item) => isSameEntry(item, entry))
+      );
+  });
+}
+
 /**
  * Sample HTTP function that responds with a greeting
  */
@@ -119,7 +527,8 @@ export const getUserInfo = onCall(async (request): Promise<UserProfile> => {
     logger.info(`Fetching user info for userId: ${userId}`);
 
     // Get user document from Firestore
-    const userDoc = await db.collection("users").doc(userId).get();
+    const userRef = db.collection("users").doc(userId);
+    let userDoc = await userRef.get();
 
     if (!userDoc.exists) {
       // If user doesn't exist, return basic info from auth
@@ -133,7 +542,7 @@ export const getUserInfo = onCall(async (request): Promise<UserProfile> => {
     }
 
     // Return user data from Firestore
-    const userData = userDoc.data();
+    let userData = userDoc.data();
     
     // Check deletion status
     if (userData?.deletionStatus === DELETION_STATUS.SCHEDULED_FOR_DELETION) {
@@ -152,34 +561,654 @@ export const getUserInfo = onCall(async (request): Promise<UserProfile> => {
         // DO NOT return profile data (statusHistory, absences, etc.)
       };
     }
-    
+
+    // Upgrade legacy profiles the first time they're read. If that fails,
+    // the legacy data is still readable (the helpers fall back to it).
+    if (userData && needsSchemaUpgrade(userData)) {
+      try {
+        if (await upgradeUserProfile(userId)) {
+          userDoc = await userRef.get();
+          userData = userDoc.data();
+        }
+      } catch (upgradeError) {
+        logger.error(
+          `Error upgrading profile schema for userId: ${userId}`,
+          upgradeError
+        );
+      }
+    }
+
+    const [profileData, nonCountablePeriods] = await Promise.all([
+      withTimelineEntries(userId, userData || {}),
+      getNonCountablePeriods(userId),
+    ]);
+
     logger.info(`User info retrieved for userId: ${userId}`);
 
-    return {
-      uid: userId,
-      email: request.auth.token.email || null,
-      deletionStatus: DELETION_STATUS.ACTIVE,
-      ...userData,
-    };
-  } catch (error) {
-    logger.error("Error fetching user info:", error);
-    throw new HttpsError(
-      "internal",
-      "Failed to fetch user information",
-      error
-    );
+    return {
+      uid: userId,
+      email: request.auth.token.email || null,
+      deletionStatus: DELETION_STATUS.ACTIVE,
+      ...profileData,
+      nonCountablePeriods,
+    };
+  } catch (error) {
+    logger.error("Error fetching user info:", error);
+    throw new HttpsError(
+      "internal",
+      "Failed to fetch user information",
+      error
+    );
+  }
+});
+
+/**
+ * Callable function to create or update user profile
+ * Runs in a transaction. Updates that change the timeline (statuses, trips,
+ * periods or the legacy fields) must carry the profile's current revision
+ * and are rejected with failed-precondition otherwise, so a whole-list write
+ * can't silently overwrite an edit made on another device.
+ *
+ * @param {object} request - The request object containing profile data
+ * @returns {object} Success message with updated data
+ */
+export const updateUserProfile = onCall(
+  async (request): Promise<ApiResponse<UserProfile>> => {
+    // Check if user is authenticated
+    if (!request.auth) {
+      throw new HttpsError(
+        "unauthenticated",
+        "User must be authenticated to call this function"
+      );
+    }
+
+    const userId = request.auth.uid;
+    const profileData = parsePayload(updateProfileDataSchema, request.data);
+
+    try {
+      logger.info(`Updating user profile for userId: ${userId}`);
+
+      // Sentence/probation/parole periods are stored in a private document,
+      // never in the user document; the revision is only checked
+      const {nonCountablePeriods, revision, ...profileFields} = profileData;
+      const changesTimeline = TIMELINE_UPDATE_FIELDS.some(
+        (field) => profileData[field] !== undefined
+      );
+
+      const userRef = db.collection("users").doc(userId);
+      const result = await db.runTransaction(async (transaction) => {
+        // Get current profile data (single fetch)
+        const [userDoc, periodsDoc] = await transaction.getAll(
+          userRef,
+          nonCountablePeriodsRef(userId)
+        );
+        const existingData: admin.firestore.DocumentData = {
+          ...await withTimelineEntries(
+            userId,
+            userDoc.exists ? userDoc.data() || {} : {},
+            (query) => transaction.get(query)
+          ),
+          nonCountablePeriods:
+            periodsDoc.exists ? periodsDoc.data()?.periods || [] : [],
+        };
+        const isNewUser = !userDoc.exists;
+        const currentRevision: number = existingData.revision ?? 0;
+
+        if (changesTimeline) {
+          assertCurrentRevision(userId, revision, currentRevision);
+        }
+
+        // Prepare user document data
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const userData: Record<string, any> = {
+          ...profileFields,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        };
+
+        // Validate and calculate with the periods, then strip them before
+        // writing the user document
+        if (nonCountablePeriods !== undefined) {
+          userData.nonCountablePeriods = nonCountablePeriods;
+        }
+
+        // Add createdAt for first-time profile creation
+        if (isNewUser) {
+          userData.createdAt = admin.firestore.FieldValue.serverTimestamp();
+          userData.schemaVersion = PROFILE_SCHEMA_VERSION;
+        }
+
+        // Reject updates that make the status history or trips incoherent
+        const blockingIssues = findNewBlockingIssues(userData, existingData);
+        if (blockingIssues.length > 0) {
+          logger.info(
+            `Rejected profile update for userId: ${userId} ` +
+            `(${blockingIssues.map((issue) => issue.code).join(", ")})`
+          );
+          throw new HttpsError(
+            "invalid-argument",
+            `${blockingIssues[0].message} ${blockingIssues[0].suggestedFix}`,
+            {issues: blockingIssues}
+          );
+        }
+
+        // Check if relevant fields changed and recalculate eligibility if
+        // needed
+        if (hasEligibilityFieldsChanged(userData, existingData, isNewUser)) {
+          updateEligibilityData(userId, userData, existingData);
+        } else {
+          logger.info(
+            `Skipping eligibility calculation for userId: ${userId} ` +
+            "(no relevant fields changed)"
+          );
+        }
+
+        // Write update to Firestore (trips and statuses go to their
+        // subcollections)
+        const timeline = getUpdatedTimeline(existingData, userData);
+        if (changesTimelineData(userData, existingData)) {
+          userData.revision = currentRevision + 1;
+        }
+        delete userData.nonCountablePeriods;
+        writeTimelineEntries(transaction, userId, existingData, userData);
+        transaction.set(userRef, userData, {merge: true});
+        if (nonCountablePeriods !== undefined) {
+          transaction.set(nonCountablePeriodsRef(userId), {
+            periods: nonCountablePeriods,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+        }
+
+        return {
+          ...timeline,
+          nonCountablePeriods:
+            nonCountablePeriods ?? existingData.nonCountablePeriods,
+        };
+      });
+
+      logger.info(`User profile updated for userId: ${userId}`);
+
+      // Read back for complete data with resolved timestamps
+      // Note: Reading from same DocumentReference after write is strongly
+      // consistent in Cloud Functions (guaranteed by Firestore)
+      const updatedDoc = await userRef.get();
+      const completeData = updatedDoc.data() || {};
+
+      // Return complete profile with all fields
+      return {
+        success: true,
+        message: "Profile updated successfully",
+        data: {
+          uid: userId,
+          email: request.auth.token.email || null,
+          ...completeData,
+          ...result,
+        } as UserProfile,
+      };
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      logger.error("Error updating user profile:", error);
+      throw new HttpsError(
+        "internal",
+        "Failed to update user profile",
+        error
+      );
+    }
+  }
+);
+
+// ============================================================================
+// SINGLE-ENTRY TIMELINE EDITS (OPTIMISTIC CONCURRENCY)
+// ============================================================================
+
+/**
+ * Builds the user document fields to write from the stored profile
+ */
+type TimelineChange = (
+  existingData: admin.firestore.DocumentData
+) => admin.firestore.DocumentData;
+
+/**
+ * Apply a single-entry timeline edit in a transaction
+ * The edit is rejected with failed-precondition if the profile changed since
+ * the revision the client edited (e.g. on another device). Validation and
+ * eligibility recalculation work as in updateUserProfile; changed periods are
+ * written to their private document.
+ *
+ * @param {string} userId - User ID
+ * @param {number} revision - Profile revision the edit was made against
+ * @param {TimelineChange} change - Builds the fields to write
+ * @return {Promise<UserProfile>} Updated profile (without uid and email)
+ */
+async function applyTimelineChange(
+  userId: string,
+  revision: number,
+  change: TimelineChange
+): Promise<Omit<UserProfile, "uid" | "email">> {
+  const userRef = db.collection("users").doc(userId);
+
+  const entries = await db.runTransaction(async (transaction) => {
+    const [userDoc, periodsDoc] = await transaction.getAll(
+      userRef,
+      nonCountablePeriodsRef(userId)
+    );
+    if (!userDoc.exists) {
+      throw new HttpsError(
+        "failed-precondition",
+        "Complete your profile before editing your timeline"
+      );
+    }
+
+    const periods: NonCountablePeriod[] =
+      periodsDoc.exists ? periodsDoc.data()?.periods || [] : [];
+    const existingData: admin.firestore.DocumentData = {
+      ...await withTimelineEntries(
+        userId,
+        userDoc.data() || {},
+        (query) => transaction.get(query)
+      ),
+      nonCountablePeriods: periods,
+    };
+
+    const currentRevision: number = existingData.revision ?? 0;
+    assertCurrentRevision(userId, revision, currentRevision);
+
+    const userData = change(existingData);
+
+    // Reject edits that make the status history or trips incoherent
+    const blockingIssues = findNewBlockingIssues(userData, existingData);
+    if (blockingIssues.length > 0) {
+      throw new HttpsError(
+        "invalid-argument",
+        `${blockingIssues[0].message} ${blockingIssues[0].suggestedFix}`,
+        {issues: blockingIssues}
+      );
+    }
+
+    if (hasEligibilityFieldsChanged(userData, existingData, false)) {
+      updateEligibilityData(userId, userData, existingData);
+    }
+
+    const timeline = getUpdatedTimeline(existingData, userData);
+    if (changesTimelineData(userData, existingData)) {
+      userData.revision = currentRevision + 1;
+    }
+    const updatedPeriods: NonCountablePeriod[] | undefined =
+      userData.nonCountablePeriods;
+    delete userData.nonCountablePeriods;
+    writeTimelineEntries(transaction, userId, existingData, userData);
+    transaction.set(userRef, {
+      ...userData,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    }, {merge: true});
+    if (updatedPeriods !== undefined) {
+      transaction.set(nonCountablePeriodsRef(userId), {
+        periods: updatedPeriods,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+
+    return {...timeline, nonCountablePeriods: updatedPeriods ?? periods};
+  });
+
+  // Read back for resolved timestamps
+  const updatedDoc = await userRef.get();
+  return {...updatedDoc.data(), ...entries};
+}
+
+/**
+ * Create a callable for a single-entry timeline edit
+ *
+ * @param {Schema} schema - Payload schema
+ * @param {string} action - Action name for logs and messages
+ * @param {Function} buildChange - Builds the change from the payload
+ * @return {Function} Callable function
+ */
+function timelineEditCallable<T extends {revision: number}>(
+  schema: Schema<T>,
+  action: string,
+  buildChange: (payload: T) => TimelineChange
+) {
+  return onCall(async (request): Promise<ApiResponse<UserProfile>> => {
+    if (!request.auth) {
+      throw new HttpsError(
+        "unauthenticated",
+        "User must be authenticated to call this function"
+      );
+    }
+
+    const userId = request.auth.uid;
+    const payload = parsePayload(schema, request.data);
+
+    try {
+      logger.info(`Timeline edit (${action}) for userId: ${userId}`);
+      const profile = await applyTimelineChange(
+        userId,
+        payload.revision,
+        buildChange(payload)
+      );
+
+      return {
+        success: true,
+        message: "Timeline updated successfully",
+        data: {
+          uid: userId,
+          email: request.auth.token.email || null,
+          ...profile,
+        },
+      };
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      logger.error(`Error applying timeline edit (${action}):`, error);
+      throw new HttpsError(
+        "internal",
+        "Failed to update timeline",
+        error
+      );
+    }
+  });
+}
+
+/**
+ * Find an entry by ID or fail with not-found
+ *
+ * @param {Array} entries - Trips or status entries
+ * @param {string} id - Entry ID
+ * @param {string} label - Entry label for the error message
+ */
+function assertEntryExists(
+  entries: Array<{id: string}>,
+  id: string,
+  label: string
+): void {
+  if (!entries.some((entry) => entry.id === id)) {
+    throw new HttpsError("not-found", `${label} not found`);
+  }
+}
+
+/**
+ * Fail with already-exists if an entry ID is taken
+ *
+ * @param {Array} entries - Trips or status entries
+ * @param {string} id - Entry ID
+ * @param {string} label - Entry label for the error message
+ */
+function assertEntryIsNew(
+  entries: Array<{id: string}>,
+  id: string,
+  label: string
+): void {
+  if (entries.some((entry) => entry.id === id)) {
+    throw new HttpsError("already-exists", `${label} already exists`);
+  }
+}
+
+/**
+ * Callable function to add a trip outside Canada
+ */
+export const addAbsence = timelineEditCallable(
+  addAbsenceDataSchema,
+  "add absence",
+  ({absence}) => (existingData) => {
+    const travelAbsences: AbsenceEntry[] = existingData.travelAbsences || [];
+    assertEntryIsNew(travelAbsences, absence.id, "Trip");
+    return {travelAbsences: [...travelAbsences, absence]};
+  }
+);
+
+/**
+ * Callable function to add several trips outside Canada at once (e.g.
+ * imported from a CBSA or IRCC travel history)
+ */
+export const addAbsences = timelineEditCallable(
+  addAbsencesDataSchema,
+  "add absences",
+  ({absences}) => (existingData) => {
+    const travelAbsences: AbsenceEntry[] = existingData.travelAbsences || [];
+    absences.forEach((absence) =>
+      assertEntryIsNew(travelAbsences, absence.id, "Trip")
+    );
+    return {travelAbsences: [...travelAbsences, ...absences]};
+  }
+);
+
+/**
+ * Callable function to replace a trip outside Canada
+ */
+export const updateAbsence = timelineEditCallable(
+  updateAbsenceDataSchema,
+  "update absence",
+  ({absence}) => (existingData) => {
+    const travelAbsences: AbsenceEntry[] = existingData.travelAbsences || [];
+    assertEntryExists(travelAbsences, absence.id, "Trip");
+    return {
+      travelAbsences: travelAbsences.map((entry) =>
+        entry.id === absence.id ? absence : entry
+      ),
+    };
+  }
+);
+
+/**
+ * Callable function to delete a trip outside Canada
+ */
+export const deleteAbsence = timelineEditCallable(
+  deleteAbsenceDataSchema,
+  "delete absence",
+  ({absenceId}) => (existingData) => {
+    const travelAbsences: AbsenceEntry[] = existingData.travelAbsences || [];
+    assertEntryExists(travelAbsences, absenceId, "Trip");
+    return {
+      travelAbsences: travelAbsences.filter((entry) => entry.id !== absenceId),
+    };
+  }
+);
+
+/**
+ * Callable function to add a status entry
+ * Ends the open-ended status that started before it on the previous day
+ * (the same way the timeline screen does).
+ */
+export const addStatus = timelineEditCallable(
+  addStatusDataSchema,
+  "add status",
+  ({status}) => (existingData) => {
+    const statusHistory: StatusEntry[] = existingData.statusHistory || [];
+    assertEntryIsNew(statusHistory, status.id, "Status entry");
+
+    const previousEnd = addDaysToLocalDate(status.from, -1);
+    const closedHistory = statusHistory.map((entry) =>
+      !entry.to && entry.from <= previousEnd ?
+        {...entry, to: previousEnd} :
+        entry
+    );
+    return {statusHistory: [...closedHistory, status]};
+  }
+);
+
+/**
+ * Callable function to replace a status entry
+ */
+export const updateStatus = timelineEditCallable(
+  updateStatusDataSchema,
+  "update status",
+  ({status}) => (existingData) => {
+    const statusHistory: StatusEntry[] = existingData.statusHistory || [];
+    assertEntryExists(statusHistory, status.id, "Status entry");
+    return {
+      statusHistory: statusHistory.map((entry) =>
+        entry.id === status.id ? status : entry
+      ),
+    };
+  }
+);
+
+/**
+ * Callable function to delete a status entry
+ */
+export const deleteStatus = timelineEditCallable(
+  deleteStatusDataSchema,
+  "delete status",
+  ({statusId}) => (existingData) => {
+    const statusHistory: StatusEntry[] = existingData.statusHistory || [];
+    assertEntryExists(statusHistory, statusId, "Status entry");
+    return {
+      statusHistory: statusHistory.filter((entry) => entry.id !== statusId),
+    };
+  }
+);
+
+/**
+ * Callable function to end the current (open-ended) status
+ */
+export const closeCurrentStatus = timelineEditCallable(
+  closeCurrentStatusDataSchema,
+  "close current status",
+  ({to}) => (existingData) => {
+    const statusHistory: StatusEntry[] = existingData.statusHistory || [];
+    const current = statusHistory.find((entry) => !entry.to);
+    if (!current) {
+      throw new HttpsError(
+        "failed-precondition",
+        "There is no current status to end"
+      );
+    }
+    if (to < current.from) {
+      throw new HttpsError(
+        "invalid-argument",
+        "The end date must be on or after the start of the current status"
+      );
+    }
+    return {
+      statusHistory: statusHistory.map((entry) =>
+        entry.id === current.id ? {...entry, to} : entry
+      ),
+    };
+  }
+);
+
+// ============================================================================
+// PERSONAL DATA EXPORT AND RESTORE
+// ============================================================================
+
+/**
+ * Format a stored Firestore timestamp as an ISO 8601 string
+ *
+ * @param {unknown} value - Stored value
+ * @return {string | null} ISO timestamp, or null if not a timestamp
+ */
+function toIsoTimestamp(value: unknown): string | null {
+  return value instanceof admin.firestore.Timestamp ?
+    value.toDate().toISOString() :
+    null;
+}
+
+/**
+ * Format one CSV cell (RFC 4180 quoting)
+ * Text starting with =, +, - or @ is prefixed with ' so spreadsheet apps
+ * don't run it as a formula.
+ *
+ * @param {unknown} value - Cell value (missing values are left empty)
+ * @return {string} CSV cell
+ */
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
   }
-});
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+}
 
 /**
- * Callable function to create or update user profile
+ * Format rows as a CSV file with a header row
  *
- * @param {object} request - The request object containing profile data
- * @returns {object} Success message with updated data
+ * @param {string[]} header - Column names
+ * @param {Array<unknown[]>} rows - Cell values
+ * @return {string} CSV content
  */
-export const updateUserProfile = onCall(
-  async (request): Promise<ApiResponse<UserProfile>> => {
-    // Check if user is authenticated
+function toCsv(header: string[], rows: unknown[][]): string {
+  return [header, ...rows]
+    .map((row) => row.map(csvCell).join(","))
+    .join("\r\n") + "\r\n";
+}
+
+/**
+ * Sort entries oldest first (ties by ID), like the subcollection reads
+ *
+ * @param {Array} entries - Trips or status entries
+ * @return {Array} Sorted copy
+ */
+function sortEntries<T extends {id: string; from: string}>(entries: T[]): T[] {
+  return [...entries].sort((a, b) =>
+    a.from.localeCompare(b.from) || a.id.localeCompare(b.id)
+  );
+}
+
+/**
+ * Build a user's data export from everything stored for them
+ *
+ * @param {string} userId - User ID
+ * @param {string | null} email - Account email
+ * @param {admin.firestore.DocumentData} userData - User document with both
+ * arrays
+ * @param {NonCountablePeriod[]} nonCountablePeriods - Private periods
+ * @param {string} exportedAt - Export time (ISO 8601)
+ * @return {UserDataExport} Export document
+ */
+function buildUserDataExport(
+  userId: string,
+  email: string | null,
+  userData: admin.firestore.DocumentData,
+  nonCountablePeriods: NonCountablePeriod[],
+  exportedAt: string
+): UserDataExport {
+  return {
+    exportVersion: USER_DATA_EXPORT_VERSION,
+    exportedAt,
+    account: {uid: userId, email},
+    profile: {
+      displayName: userData.displayName ?? null,
+      profileComplete: userData.profileComplete ?? false,
+      filedTaxYears: userData.filedTaxYears || [],
+      schemaVersion: userData.schemaVersion ?? 1,
+      revision: userData.revision ?? 0,
+      createdAt: toIsoTimestamp(userData.createdAt),
+      updatedAt: toIsoTimestamp(userData.updatedAt),
+      ...(userData.immigrationStatus !== undefined &&
+        {immigrationStatus: userData.immigrationStatus}),
+      ...(userData.prDate !== undefined && {prDate: userData.prDate}),
+      ...(userData.presenceInCanada !== undefined &&
+        {presenceInCanada: userData.presenceInCanada}),
+    },
+    statusHistory: sortEntries<StatusEntry>(userData.statusHistory || []),
+    travelAbsences: sortEntries<AbsenceEntry>(userData.travelAbsences || []),
+    nonCountablePeriods,
+    staticEligibility: userData.staticEligibility ?? null,
+    deletion: {
+      status: userData.deletionStatus || DELETION_STATUS.ACTIVE,
+      scheduledAt: toIsoTimestamp(userData.deletionScheduledAt),
+      executionDate: userData.deletionExecutionDate ?? null,
+    },
+  };
+}
+
+/**
+ * Callable function to export everything stored for the user
+ * Returns the export as a versioned JSON document plus CSV files of trips
+ * and statuses. Also available while deletion is scheduled, so users can
+ * keep a copy before their data is deleted.
+ *
+ * @param {object} request - The request object
+ * @returns {object} Export files
+ */
+export const exportUserData = onCall(
+  async (request): Promise<ApiResponse<UserDataExportResult>> => {
     if (!request.auth) {
       throw new HttpsError(
         "unauthenticated",
@@ -188,71 +1217,136 @@ export const updateUserProfile = onCall(
     }
 
     const userId = request.auth.uid;
-    const profileData = request.data as UpdateProfileData;
 
     try {
-      logger.info(`Updating user profile for userId: ${userId}`);
+      logger.info(`Exporting data for userId: ${userId}`);
 
-      // Prepare user document data
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const userData: Record<string, any> = {
-        ...profileData,
-        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-      };
-
-      // Get current profile data (single fetch)
-      const userRef = db.collection("users").doc(userId);
-      const userDoc = await userRef.get();
-      const existingData = userDoc.exists ? userDoc.data() || {} : {};
-      const isNewUser = !userDoc.exists;
-
-      // Add createdAt for first-time profile creation
-      if (isNewUser) {
-        userData.createdAt = admin.firestore.FieldValue.serverTimestamp();
-      }
-
-      // Check if relevant fields changed and recalculate eligibility if needed
-      if (hasEligibilityFieldsChanged(userData, existingData, isNewUser)) {
-        updateEligibilityData(userId, userData, existingData);
-      } else {
-        logger.info(
-          `Skipping eligibility calculation for userId: ${userId} ` +
-          "(no relevant fields changed)"
-        );
-      }
-
-      // Write update to Firestore
-      await userRef.set(userData, {merge: true});
+      const userDoc = await db.collection("users").doc(userId).get();
+      const [userData, nonCountablePeriods] = await Promise.all([
+        withTimelineEntries(userId, userDoc.data() || {}),
+        getNonCountablePeriods(userId),
+      ]);
+
+      const exportedAt = new Date().toISOString();
+      const data = buildUserDataExport(
+        userId,
+        request.auth.token.email || null,
+        userData,
+        nonCountablePeriods,
+        exportedAt
+      );
 
-      logger.info(`User profile updated for userId: ${userId}`);
+      const trips = toCsv(
+        ["id", "from", "to", "place", "reason", "reasonLabel"],
+        data.travelAbsences.map((entry) => {
+          const reason = entry.reason || ABSENCE_REASONS.PERSONAL;
+          return [
+            entry.id,
+            entry.from,
+            entry.to,
+            entry.place,
+            reason,
+            ABSENCE_REASON_LABELS[reason],
+          ];
+        })
+      );
+      const statuses = toCsv(
+        [
+          "id",
+          "status",
+          "statusLabel",
+          "from",
+          "to",
+          "decisionDateConfirmed",
+          "startDateEstimated",
+        ],
+        data.statusHistory.map((entry) => [
+          entry.id,
+          entry.status,
+          STATUS_TYPE_LABELS[entry.status],
+          entry.from,
+          entry.to,
+          entry.decisionDateConfirmed,
+          entry.startDateEstimated,
+        ])
+      );
 
-      // Read back for complete data with resolved timestamps
-      // Note: Reading from same DocumentReference after write is strongly
-      // consistent in Cloud Functions (guaranteed by Firestore)
-      const updatedDoc = await userRef.get();
-      const completeData = updatedDoc.data() || {};
+      const prefix = `journey-to-citizen-${exportedAt.substring(0, 10)}`;
+      logger.info(
+        `Data exported for userId: ${userId} ` +
+        `(${data.statusHistory.length} statuses, ` +
+        `${data.travelAbsences.length} trips)`
+      );
 
-      // Return complete profile with all fields
       return {
         success: true,
-        message: "Profile updated successfully",
+        message: "Data exported successfully",
         data: {
-          uid: userId,
-          email: request.auth.token.email || null,
-          ...completeData,
-        } as UserProfile,
+          exportedAt,
+          files: [
+            {
+              filename: `${prefix}.json`,
+              mimeType: "application/json",
+              content: JSON.stringify(data, null, 2),
+            },
+            {
+              filename: `${prefix}-trips.csv`,
+              mimeType: "text/csv",
+              content: trips,
+            },
+            {
+              filename: `${prefix}-statuses.csv`,
+              mimeType: "text/csv",
+              content: statuses,
+            },
+          ],
+        },
       };
     } catch (error) {
-      logger.error("Error updating user profile:", error);
+      logger.error("Error exporting user data:", error);
       throw new HttpsError(
         "internal",
-        "Failed to update user profile",
+        "Failed to export data",
         error
       );
     }
   }
 );
 
+/**
+ * Callable function to restore the statuses, trips, sentence/probation/parole
+ * periods and filed tax years of an exportUserData backup (e.g. after
+ * switching sign-in method), replacing them or merging into them by entry ID.
+ * Applied in one transaction with the same revision check and validation as
+ * single-entry edits; the name and other settings are not restored.
+ */
+export const restoreBackup = timelineEditCallable(
+  restoreBackupDataSchema,
+  "restore backup",
+  ({mode, backup}) => (existingData) => ({
+    statusHistory: restoreEntries<StatusEntry>(
+      existingData.statusHistory || [],
+      backup.statusHistory,
+      mode
+    ),
+    travelAbsences: restoreEntries<AbsenceEntry>(
+      existingData.travelAbsences || [],
+      backup.travelAbsences,
+      mode
+    ),
+    nonCountablePeriods: restoreEntries<NonCountablePeriod>(
+      existingData.nonCountablePeriods || [],
+      backup.nonCountablePeriods,
+      mode
+    ),
+    filedTaxYears: restoreTaxYears(
+      existingData.filedTaxYears || [],
+      backup.profile.filedTaxYears,
+      mode
+    ),
+  })
+);
+
 // ============================================================================
 // ACCOUNT DELETION WITH 30-DAY GRACE PERIOD
 // ============================================================================
@@ -347,6 +1441,7 @@ async function sendDeletionNotificationEmail(
     - Profile data (PR date, immigration status)
     - Travel history and absence records
     - Physical presence records
+    - Sentence, probation and parole periods
     - All analytics and usage data
     
     This action cannot be undone after ${deletionDate}.
@@ -485,8 +1580,14 @@ export const executeAccountDeletion = onRequest(async (req, res) => {
     // Delete all subcollections (absences, status history, etc.)
     const userRef = db.collection("users").doc(userId);
     
-    // Delete subcollections if they exist
-    const subcollections = ["absences", "statusHistory", "presenceInCanada"];
+    // Delete subcollections if they exist (private holds sentence,
+    // probation and parole periods)
+    const subcollections = [
+      "absences",
+      "statusHistory",
+      "presenceInCanada",
+      "private",
+    ];
     for (const subcollection of subcollections) {
       const snapshot = await userRef.collection(subcollection).get();
       const batch = db.batch();
@@ -615,3 +1716,526 @@ export const cancelAccountDeletion = onCall(
   }
 );
 
+// ============================================================================
+// SCHEDULED ELIGIBILITY RECOMPUTATION
+// ============================================================================
+
+// Users processed per page (one Firestore batch write per page, max 500)
+const RECOMPUTE_PAGE_SIZE = 200;
+
+/**
+ * Recompute stored staticEligibility for every active user
+ * daysInCanadaAsPR and the earliest date depend on the current date, so the
+ * values stored by updateUserProfile go stale without an edit. Users are
+ * read in pages ordered by ID; users scheduled for deletion and users
+ * without a PR date are skipped. Users whose stored values are unchanged
+ * aren't rewritten.
+ *
+ * @param {Date} referenceDate - Date to calculate eligibility as of
+ * @return {Promise<object>} Counts of users processed, updated, unchanged
+ * and skipped
+ */
+async function recomputeAllEligibility(
+  referenceDate: Date
+): Promise<{
+  processed: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+}> {
+  let processed = 0;
+  let updated = 0;
+  let unchanged = 0;
+  let skipped = 0;
+  let lastDoc: admin.firestore.QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    let query = db.collection("users")
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .limit(RECOMPUTE_PAGE_SIZE);
+    if (lastDoc) {
+      query = query.startAfter(lastDoc);
+    }
+
+    const snapshot = await query.get();
+    if (snapshot.empty) {
+      break;
+    }
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+
+    const activeDocs = snapshot.docs.filter((doc) =>
+      doc.data().deletionStatus !== DELETION_STATUS.SCHEDULED_FOR_DELETION
+    );
+    skipped += snapshot.size - activeDocs.length;
+
+    // Sentence/probation/parole periods live in each user's private
+    // document, trips and statuses in their subcollections (once migrated)
+    const periodDocs = activeDocs.length > 0 ?
+      await db.getAll(
+        ...activeDocs.map((doc) => nonCountablePeriodsRef(doc.id))
+      ) :
+      [];
+    const profiles = await Promise.all(
+      activeDocs.map((doc) => withTimelineEntries(doc.id, doc.data()))
+    );
+
+    const batch = db.batch();
+    let batchSize = 0;
+    activeDocs.forEach((doc, index) => {
+      processed++;
+      const staticData = calculateStaticEligibility({
+        ...profiles[index],
+        nonCountablePeriods: periodDocs[index].data()?.periods || [],
+      }, referenceDate);
+
+      if (!staticData) {
+        skipped++;
+        return;
+      }
+      const stored = doc.data().staticEligibility;
+      if (isStoredEligibilityCurrent(staticData, stored)) {
+        unchanged++;
+        return;
+      }
+
+      batch.set(doc.ref, {staticEligibility: staticData}, {merge: true});
+      batchSize++;
+    });
+
+    if (batchSize > 0) {
+      await batch.commit();
+      updated += batchSize;
+    }
+
+    if (snapshot.size < RECOMPUTE_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return {processed, updated, unchanged, skipped};
+}
+
+/**
+ * Scheduled function to recompute eligibility every day
+ * Runs just after midnight Eastern so calculatedAsOf is the new day.
+ */
+export const recomputeEligibilityDaily = onSchedule(
+  {
+    schedule: "every day 00:15",
+    timeZone: "America/Toronto",
+    timeoutSeconds: 540,
+  },
+  async () => {
+    const startedAt = Date.now();
+    const result = await recomputeAllEligibility(new Date());
+
+    logger.info(
+      "Daily eligibility recomputation finished: " +
+      `processed=${result.processed}, updated=${result.updated}, ` +
+      `unchanged=${result.unchanged}, skipped=${result.skipped}, ` +
+      `durationMs=${Date.now() - startedAt}`
+    );
+  }
+);
+
+/**
+ * HTTP function to run the recomputation on demand in the emulator
+ * Scheduled functions don't fire in the emulator, so this lets the job be
+ * exercised against the Firestore emulator. Optional ?date=YYYY-MM-DD sets
+ * the reference date. Disabled outside the emulator.
+ *
+ * @param {object} req - Express request
+ * @param {object} res - Express response
+ */
+export const runEligibilityRecomputation = onRequest(async (req, res) => {
+  if (process.env.FUNCTIONS_EMULATOR !== "true") {
+    res.status(404).send({error: "Not found"});
+    return;
+  }
+
+  const date = typeof req.query.date === "string" ? req.query.date : "";
+  const referenceDate = date ?
+    new Date(`${date}T00:00:00.000Z`) :
+    new Date();
+  if (isNaN(referenceDate.getTime())) {
+    res.status(400).send({error: "date must be YYYY-MM-DD"});
+    return;
+  }
+
+  try {
+    const result = await recomputeAllEligibility(referenceDate);
+    logger.info(
+      "Eligibility recomputation (emulator) finished: " +
+      `processed=${result.processed}, updated=${result.updated}, ` +
+      `unchanged=${result.unchanged}, skipped=${result.skipped}`
+    );
+    res.status(200).send(result);
+  } catch (error) {
+    logger.error("Error recomputing eligibility:", error);
+    res.status(500).send({error: "Failed to recompute eligibility"});
+  }
+});
+
+// ============================================================================
+// TRIP AND STATUS ENTRY SUBCOLLECTIONS
+// ============================================================================
+
+// Entries per page when the request doesn't set pageSize
+const DEFAULT_ENTRIES_PAGE_SIZE = 50;
+
+// Users read per page by the migration
+const MIGRATION_PAGE_SIZE = 200;
+
+/**
+ * Read one page of a user's trips or status entries, newest first
+ *
+ * @param {string} userId - User ID
+ * @param {TimelineField} field - Profile field the entries belong to
+ * @param {number} pageSize - Entries per page
+ * @param {string} startAfter - ID of the last entry of the previous page
+ * @return {Promise<EntriesPage>} Page of entries
+ */
+async function readEntriesPage<T extends {id: string; from: string}>(
+  userId: string,
+  field: TimelineField,
+  pageSize: number,
+  startAfter?: string
+): Promise<EntriesPage<T>> {
+  const userDoc = await db.collection("users").doc(userId).get();
+  const userData = userDoc.data() || {};
+
+  if (userData.deletionStatus === DELETION_STATUS.SCHEDULED_FOR_DELETION) {
+    throw new HttpsError(
+      "failed-precondition",
+      "Account is scheduled for deletion"
+    );
+  }
+
+  // Not migrated yet: page through the array the same way
+  if (!userData.timelineInSubcollections) {
+    const entries: T[] = [...(userData[field] || [])].sort((a: T, b: T) =>
+      a.from === b.from ?
+        b.id.localeCompare(a.id) :
+        b.from.localeCompare(a.from)
+    );
+    const start = startAfter ?
+      entries.findIndex((entry) => entry.id === startAfter) + 1 :
+      0;
+    if (startAfter && start === 0) {
+      throw new HttpsError("not-found", "Page start entry not found");
+    }
+    const page = entries.slice(start, start + pageSize);
+    return {
+      entries: page,
+      nextStartAfter: start + pageSize < entries.length ?
+        page[page.length - 1].id :
+        null,
+    };
+  }
+
+  const collection = timelineEntriesRef(userId, field);
+  let query = collection
+    .orderBy("from", "desc")
+    .orderBy(admin.firestore.FieldPath.documentId(), "desc")
+    .limit(pageSize + 1);
+  if (startAfter) {
+    const startDoc = await collection.doc(startAfter).get();
+    if (!startDoc.exists) {
+      throw new HttpsError("not-found", "Page start entry not found");
+    }
+    query = query.startAfter(startDoc);
+  }
+
+  const snapshot = await query.get();
+  const page = snapshot.docs.slice(0, pageSize).map((doc) => doc.data() as T);
+  return {
+    entries: page,
+    nextStartAfter: snapshot.size > pageSize ?
+      page[page.length - 1].id :
+      null,
+  };
+}
+
+/**
+ * Create a callable that returns a page of trips or status entries
+ *
+ * @param {TimelineField} field - Profile field the entries belong to
+ * @return {Function} Callable function
+ */
+function entriesPageCallable<T extends {id: string; from: string}>(
+  field: TimelineField
+) {
+  return onCall(async (request): Promise<ApiResponse<EntriesPage<T>>> => {
+    if (!request.auth) {
+      throw new HttpsError(
+        "unauthenticated",
+        "User must be authenticated to call this function"
+      );
+    }
+
+    const userId = request.auth.uid;
+    const {pageSize, startAfter} =
+      parsePayload(getEntriesPageDataSchema, request.data);
+
+    try {
+      const page = await readEntriesPage<T>(
+        userId,
+        field,
+        pageSize ?? DEFAULT_ENTRIES_PAGE_SIZE,
+        startAfter ?? undefined
+      );
+
+      return {
+        success: true,
+        message: "Entries retrieved successfully",
+        data: page,
+      };
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      logger.error(`Error reading ${field} page:`, error);
+      throw new HttpsError(
+        "internal",
+        "Failed to read entries",
+        error
+      );
+    }
+  });
+}
+
+/**
+ * Callable function to get a page of trips outside Canada, newest first
+ */
+export const getAbsences = entriesPageCallable<AbsenceEntry>(
+  "travelAbsences"
+);
+
+/**
+ * Callable function to get a page of status entries, newest first
+ */
+export const getStatusHistory = entriesPageCallable<StatusEntry>(
+  "statusHistory"
+);
+
+/**
+ * Move one user's trips and statuses from arrays in the user document to
+ * the subcollections
+ *
+ * @param {string} userId - User ID
+ * @return {Promise<boolean>} False if already migrated or deleted
+ */
+async function migrateUserTimeline(userId: string): Promise<boolean> {
+  const userRef = db.collection("users").doc(userId);
+
+  return db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    const userData = userDoc.data();
+    if (!userData || userData.timelineInSubcollections) {
+      return false;
+    }
+
+    const update: admin.firestore.DocumentData = {};
+    writeTimelineEntries(transaction, userId, userData, update);
+    transaction.set(userRef, update, {merge: true});
+    return true;
+  });
+}
+
+/**
+ * Create a one-time migration that runs for every user needing it
+ * Users are read in pages ordered by ID (with only the fields needed to
+ * decide) and migrated one at a time, so it's safe to re-run. Private: call
+ * it with an identity token of an account allowed to invoke functions.
+ *
+ * @param {string} name - Migration name for logs
+ * @param {string[]} fields - Fields needsMigration reads
+ * @param {Function} needsMigration - Whether a user needs migrating
+ * @param {Function} migrate - Migrates one user (false if nothing to do)
+ * @return {Function} HTTP function
+ */
+function userMigrationFunction(
+  name: string,
+  fields: string[],
+  needsMigration: (data: admin.firestore.DocumentData) => boolean,
+  migrate: (userId: string) => Promise<boolean>
+) {
+  return onRequest(
+    {invoker: "private", timeoutSeconds: 540},
+    async (req, res) => {
+      let processed = 0;
+      let migrated = 0;
+      let failed = 0;
+      let lastDoc: admin.firestore.QueryDocumentSnapshot | undefined;
+
+      try {
+        for (;;) {
+          let query = db.collection("users")
+            .orderBy(admin.firestore.FieldPath.documentId())
+            .select(...fields)
+            .limit(MIGRATION_PAGE_SIZE);
+          if (lastDoc) {
+            query = query.startAfter(lastDoc);
+          }
+
+          const snapshot = await query.get();
+          if (snapshot.empty) {
+            break;
+          }
+          lastDoc = snapshot.docs[snapshot.docs.length - 1];
+
+          for (const doc of snapshot.docs) {
+            processed++;
+            if (!needsMigration(doc.data())) {
+              continue;
+            }
+            try {
+              if (await migrate(doc.id)) {
+                migrated++;
+              }
+            } catch (error) {
+              failed++;
+              logger.error(`${name} failed for userId: ${doc.id}`, error);
+            }
+          }
+
+          if (snapshot.size < MIGRATION_PAGE_SIZE) {
+            break;
+          }
+        }
+
+        logger.info(
+          `${name} finished: ` +
+          `processed=${processed}, migrated=${migrated}, failed=${failed}`
+        );
+        res.status(200).send({processed, migrated, failed});
+      } catch (error) {
+        logger.error(`${name} failed:`, error);
+        res.status(500).send({
+          error: `${name} failed`,
+          processed,
+          migrated,
+          failed,
+        });
+      }
+    }
+  );
+}
+
+/**
+ * HTTP function to migrate every user's trips and statuses to the
+ * subcollections (one-time)
+ * Users are moved as soon as a function writes their profile, so this only
+ * moves the data of users who haven't saved anything since.
+ */
+export const migrateTimelineToSubcollections = userMigrationFunction(
+  "Timeline migration",
+  ["timelineInSubcollections"],
+  (data) => !data.timelineInSubcollections,
+  migrateUserTimeline
+);
+
+// ============================================================================
+// PROFILE SCHEMA UPGRADES
+// ============================================================================
+
+/**
+ * Upgrade a stored profile to PROFILE_SCHEMA_VERSION
+ * Legacy profiles (immigrationStatus, prDate, presenceInCanada) have the
+ * legacy fields folded into their statusHistory by
+ * convertLegacyToStatusHistory, then removed. A start date the converter has
+ * to guess is marked startDateEstimated, and the app asks the user to
+ * confirm it. The converted history goes through the same schema and
+ * validation checks as timeline edits; a profile that fails them is left as
+ * is (the legacy data stays readable) and the upgrade throws so it's logged.
+ *
+ * @param {string} userId - User ID
+ * @return {Promise<boolean>} False if already up to date or deleted
+ */
+async function upgradeUserProfile(userId: string): Promise<boolean> {
+  const userRef = db.collection("users").doc(userId);
+
+  const upgraded = await db.runTransaction(async (transaction) => {
+    const [userDoc, periodsDoc] = await transaction.getAll(
+      userRef,
+      nonCountablePeriodsRef(userId)
+    );
+    const storedData = userDoc.data();
+    if (!storedData || !needsSchemaUpgrade(storedData)) {
+      return false;
+    }
+
+    const existingData: admin.firestore.DocumentData = {
+      ...await withTimelineEntries(
+        userId,
+        storedData,
+        (query) => transaction.get(query)
+      ),
+      nonCountablePeriods: periodsDoc.data()?.periods || [],
+    };
+
+    const statusHistory =
+      convertLegacyToStatusHistory(existingData as UserProfile);
+    const parsed = parseSchema(updateProfileDataSchema, {statusHistory});
+    if (!parsed.success) {
+      throw new Error(
+        "Converted status history is invalid " +
+        `(${parsed.errors.map((error) => error.field).join(", ")})`
+      );
+    }
+
+    const blockingIssues = findNewBlockingIssues({statusHistory}, existingData);
+    if (blockingIssues.length > 0) {
+      throw new Error(
+        "Converted status history is incoherent " +
+        `(${blockingIssues.map((issue) => issue.code).join(", ")})`
+      );
+    }
+
+    const userData: admin.firestore.DocumentData = {
+      statusHistory,
+      immigrationStatus: admin.firestore.FieldValue.delete(),
+      prDate: admin.firestore.FieldValue.delete(),
+      presenceInCanada: admin.firestore.FieldValue.delete(),
+      schemaVersion: PROFILE_SCHEMA_VERSION,
+      revision: (existingData.revision ?? 0) + 1,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+
+    const staticData = calculateStaticEligibility({
+      ...existingData,
+      statusHistory,
+      immigrationStatus: undefined,
+      prDate: undefined,
+      presenceInCanada: undefined,
+    });
+    if (staticData) {
+      userData.staticEligibility = staticData;
+    }
+
+    writeTimelineEntries(transaction, userId, existingData, userData);
+    transaction.set(userRef, userData, {merge: true});
+    return true;
+  });
+
+  if (upgraded) {
+    logger.info(
+      `Upgraded profile to schemaVersion ${PROFILE_SCHEMA_VERSION} ` +
+      `for userId: ${userId}`
+    );
+  }
+  return upgraded;
+}
+
+/**
+ * HTTP function to upgrade every stored profile to PROFILE_SCHEMA_VERSION
+ * (one-time)
+ * getUserInfo upgrades profiles when they're read, so this only upgrades
+ * users who haven't opened the app since.
+ */
+export const migrateProfileSchemas = userMigrationFunction(
+  "Profile schema migration",
+  ["schemaVersion"],
+  needsSchemaUpgrade,
+  upgradeUserProfile
+);
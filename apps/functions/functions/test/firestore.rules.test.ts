@@ -0,0 +1,267 @@
+/**
+ * Firestore security rules tests
+ *
+ * Run against the Firestore emulator with `npm run test:rules`, which starts
+ * the emulator with the repository's firestore.rules and runs this suite.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {afterAll, beforeAll, beforeEach, describe, it} from "@jest/globals";
+import {
+  RulesTestEnvironment,
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import {
+  doc,
+  getDoc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+  serverTimestamp,
+} from "firebase/firestore";
+
+const PROJECT_ID = "demo-journey-to-citizen";
+const RULES_PATH = path.resolve(__dirname, "../../../../firestore.rules");
+
+const ALICE = "alice";
+const BOB = "bob";
+
+let testEnv: RulesTestEnvironment;
+
+const aliceDb = () => testEnv.authenticatedContext(ALICE).firestore();
+
+/**
+ * Seed a user document, bypassing the rules (as Cloud Functions would)
+ *
+ * @param {string} userId - User ID
+ * @param {Record<string, unknown>} data - Document data
+ */
+async function seedUser(
+  userId: string,
+  data: Record<string, unknown>
+): Promise<void> {
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    await setDoc(doc(context.firestore(), "users", userId), data);
+  });
+}
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: {rules: fs.readFileSync(RULES_PATH, "utf8")},
+  });
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+});
+
+describe("reading users/{userId}", () => {
+  beforeEach(async () => {
+    await seedUser(ALICE, {displayName: "Alice"});
+  });
+
+  it("lets the owner read their document", async () => {
+    await assertSucceeds(getDoc(doc(aliceDb(), "users", ALICE)));
+  });
+
+  it("denies other users", async () => {
+    const bobDb = testEnv.authenticatedContext(BOB).firestore();
+    await assertFails(getDoc(doc(bobDb, "users", ALICE)));
+  });
+
+  it("denies unauthenticated users", async () => {
+    const anonDb = testEnv.unauthenticatedContext().firestore();
+    await assertFails(getDoc(doc(anonDb, "users", ALICE)));
+  });
+});
+
+describe("creating users/{userId}", () => {
+  it("allows editable fields", async () => {
+    await assertSucceeds(setDoc(doc(aliceDb(), "users", ALICE), {
+      displayName: "Alice",
+      profileComplete: true,
+      filedTaxYears: [2023],
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    }));
+  });
+
+  it("denies another user's document", async () => {
+    await assertFails(setDoc(doc(aliceDb(), "users", BOB), {
+      displayName: "Bob",
+    }));
+  });
+
+  it("denies a client-chosen createdAt", async () => {
+    await assertFails(setDoc(doc(aliceDb(), "users", ALICE), {
+      displayName: "Alice",
+      createdAt: new Date("2020-01-01"),
+    }));
+  });
+
+  it("denies server-managed fields", async () => {
+    await assertFails(setDoc(doc(aliceDb(), "users", ALICE), {
+      staticEligibility: {daysInCanadaAsPR: 1095},
+    }));
+    await assertFails(setDoc(doc(aliceDb(), "users", ALICE), {
+      deletionStatus: "active",
+    }));
+  });
+
+  it("denies timeline fields", async () => {
+    const userRef = doc(aliceDb(), "users", ALICE);
+    await assertFails(setDoc(userRef, {
+      statusHistory: [
+        {id: "1", status: "permanent_resident", from: "2022-01-01"},
+      ],
+    }));
+    await assertFails(setDoc(userRef, {travelAbsences: []}));
+    await assertFails(setDoc(userRef, {prDate: "2022-01-01"}));
+  });
+});
+
+describe("updating users/{userId}", () => {
+  beforeEach(async () => {
+    await seedUser(ALICE, {
+      displayName: "Alice",
+      statusHistory: [],
+      travelAbsences: [],
+      deletionStatus: "scheduled_for_deletion",
+      deletionExecutionDate: "2030-01-01",
+      deletionTaskName: "projects/p/locations/l/queues/q/tasks/t",
+      staticEligibility: {daysInCanadaAsPR: 10},
+      createdAt: new Date("2024-01-01"),
+    });
+  });
+
+  it("allows editable fields", async () => {
+    await assertSucceeds(updateDoc(doc(aliceDb(), "users", ALICE), {
+      displayName: "Alice B.",
+      profileComplete: true,
+      filedTaxYears: [2022, 2023],
+      updatedAt: serverTimestamp(),
+    }));
+  });
+
+  it("allows removing an editable field", async () => {
+    await assertSucceeds(updateDoc(doc(aliceDb(), "users", ALICE), {
+      displayName: deleteField(),
+    }));
+  });
+
+  it("denies cancelling or forging deletion state", async () => {
+    const userRef = doc(aliceDb(), "users", ALICE);
+    await assertFails(updateDoc(userRef, {deletionStatus: "active"}));
+    await assertFails(updateDoc(userRef, {deletionStatus: deleteField()}));
+    await assertFails(updateDoc(userRef, {
+      deletionExecutionDate: "2099-01-01",
+    }));
+    await assertFails(updateDoc(userRef, {deletionTaskName: "fake"}));
+  });
+
+  it("denies timeline fields", async () => {
+    const userRef = doc(aliceDb(), "users", ALICE);
+    await assertFails(updateDoc(userRef, {
+      statusHistory: [
+        {id: "s1", status: "permanent_resident", from: "2022-01-01"},
+      ],
+    }));
+    await assertFails(updateDoc(userRef, {
+      travelAbsences: [{id: "t1", from: "2023-03-01", to: "2023-03-10"}],
+    }));
+    await assertFails(updateDoc(userRef, {travelAbsences: deleteField()}));
+    await assertFails(updateDoc(userRef, {prDate: "2022-01-01"}));
+    await assertFails(updateDoc(userRef, {
+      immigrationStatus: "permanent_resident",
+    }));
+    await assertFails(updateDoc(userRef, {presenceInCanada: []}));
+  });
+
+  it("denies faking eligibility", async () => {
+    await assertFails(updateDoc(doc(aliceDb(), "users", ALICE), {
+      staticEligibility: {daysInCanadaAsPR: 1095},
+    }));
+  });
+
+  it("denies changing createdAt", async () => {
+    await assertFails(updateDoc(doc(aliceDb(), "users", ALICE), {
+      createdAt: serverTimestamp(),
+    }));
+  });
+
+  it("denies unknown fields", async () => {
+    await assertFails(updateDoc(doc(aliceDb(), "users", ALICE), {
+      isAdmin: true,
+    }));
+  });
+
+  it("denies a client-chosen updatedAt", async () => {
+    await assertFails(updateDoc(doc(aliceDb(), "users", ALICE), {
+      updatedAt: new Date("2020-01-01"),
+    }));
+  });
+
+  it("checks field types", async () => {
+    const userRef = doc(aliceDb(), "users", ALICE);
+    await assertFails(updateDoc(userRef, {displayName: 42}));
+    await assertFails(updateDoc(userRef, {displayName: "x".repeat(101)}));
+    await assertFails(updateDoc(userRef, {profileComplete: "yes"}));
+    await assertFails(updateDoc(userRef, {filedTaxYears: 2023}));
+  });
+
+  it("limits array sizes", async () => {
+    const userRef = doc(aliceDb(), "users", ALICE);
+    const years = Array.from({length: 101}, (_, index) => 1950 + index);
+    await assertFails(updateDoc(userRef, {filedTaxYears: years}));
+    await assertSucceeds(updateDoc(userRef, {
+      filedTaxYears: years.slice(0, 100),
+    }));
+  });
+});
+
+describe("deleting and other paths", () => {
+  beforeEach(async () => {
+    await seedUser(ALICE, {displayName: "Alice"});
+  });
+
+  it("denies deleting the user document", async () => {
+    await assertFails(deleteDoc(doc(aliceDb(), "users", ALICE)));
+  });
+
+  it("lets the owner read, but not write, trips and statuses", async () => {
+    const absenceRef = doc(aliceDb(), "users", ALICE, "absences", "t1");
+    const statusRef = doc(aliceDb(), "users", ALICE, "statusHistory", "s1");
+    await assertSucceeds(getDoc(absenceRef));
+    await assertSucceeds(getDoc(statusRef));
+    await assertFails(setDoc(absenceRef, {id: "t1", from: "2023-03-01"}));
+    await assertFails(setDoc(statusRef, {
+      id: "s1",
+      status: "permanent_resident",
+      from: "2022-01-01",
+    }));
+
+    const bobDb = testEnv.authenticatedContext(BOB).firestore();
+    await assertFails(getDoc(doc(bobDb, "users", ALICE, "absences", "t1")));
+  });
+
+  it("denies the private subcollection, even to the owner", async () => {
+    const privateRef = doc(
+      aliceDb(), "users", ALICE, "private", "nonCountablePeriods"
+    );
+    await assertFails(getDoc(privateRef));
+    await assertFails(setDoc(privateRef, {periods: []}));
+  });
+
+  it("denies other collections", async () => {
+    await assertFails(getDoc(doc(aliceDb(), "admin", "settings")));
+  });
+});
@@ -0,0 +1,19 @@
+// Jest config for the calculation tests (run with `pnpm test`)
+
+// West of UTC, so tests catch device-day vs UTC-day mix-ups
+process.env.TZ = 'America/Vancouver';
+
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/test'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', {
+      tsconfig: {
+        module: 'commonjs',
+        esModuleInterop: true,
+        strict: true,
+        target: 'es2017',
+      },
+    }],
+  },
+};
@@ -10,26 +10,36 @@
  * - Absences during pre-PR periods are deducted before applying the 0.5 multiplier
  * - Visitor days do NOT count
  * - Departure and return days count as present in Canada (only full days absent count)
+ * - Only days within the 5 years immediately before the reference date count
+ *
+ * All aggregates are derived from the day-by-day presence ledger
+ * (see buildPresenceLedger) so frontend and backend always agree.
+ * The rules above are the current rule set; every calculation accepts a
+ * different RuleSet (see rules.ts) to model past or future rules.
  */
 
 import {
   UserProfile,
   StatusEntry,
   AbsenceEntry,
-  PresenceEntry,
   StaticEligibilityData,
+  StatusType,
+  LocalDate,
   getPRDate,
   getPrePRPresence,
+  isAbsenceCountedAsPresence,
+  localDateOf,
 } from '@journey-to-citizen/types';
+import { RuleSet, CURRENT_RULE_SET } from './rules';
 
-/** Days required for citizenship eligibility */
-export const DAYS_REQUIRED = 1095;
+/** Days required for citizenship eligibility (current rules) */
+export const DAYS_REQUIRED = CURRENT_RULE_SET.daysRequired;
 
-/** Maximum pre-PR credit allowed */
-export const MAX_PRE_PR_CREDIT = 365;
+/** Maximum pre-PR credit allowed (current rules) */
+export const MAX_PRE_PR_CREDIT = CURRENT_RULE_SET.maxPrePRCredit;
 
-/** Status types that count toward citizenship (visitor does NOT count) */
-export const COUNTABLE_STATUSES = ['study_permit', 'work_permit', 'protected_person'] as const;
+/** Status types that count toward citizenship (visitor and refugee claimant do NOT count) */
+export const COUNTABLE_STATUSES = CURRENT_RULE_SET.countableStatuses;
 
 /**
  * Date range with from/to dates
@@ -49,12 +59,14 @@ export interface ProjectionResult {
   grossDays: number;
   /** Days deducted due to absences */
   absenceDaysDeducted: number;
+  /** Days deducted for time serving a sentence, on probation or parole */
+  nonCountableDaysDeducted: number;
   /** Projected pre-PR credit if user got PR today (50% of days, max 365) */
   projectedCredit: number;
-  /** Days user would need as PR to reach 1095 */
+  /** Days user would need as PR to reach the required days */
   daysNeededAsPR: number;
-  /** Projected earliest application date if user got PR today */
-  projectedEarliestDate: string;
+  /** Projected earliest application date if user got PR today (null if not reachable) */
+  projectedEarliestDate: LocalDate | null;
 }
 
 /**
@@ -65,10 +77,10 @@ export function parseDate(dateString: string): Date {
 }
 
 /**
- * Convert Date object to date string (YYYY-MM-DD)
+ * Convert Date object (UTC midnight) to date string (YYYY-MM-DD)
  */
-export function formatDateToString(date: Date): string {
-  return date.toISOString().split('T')[0];
+export function formatDateToString(date: Date): LocalDate {
+  return date.toISOString().split('T')[0] as LocalDate;
 }
 
 /**
@@ -120,17 +132,507 @@ export function daysBetween(from: Date, to: Date): number {
   return Math.floor((to.getTime() - from.getTime()) / (1000 * 60 * 60 * 24));
 }
 
+/**
+ * Add a number of days to a date (UTC, returns a new Date)
+ */
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date.getTime());
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+}
+
+/**
+ * Normalize a reference date to UTC midnight of the same calendar day
+ */
+function toDateOnly(date: Date): Date {
+  return parseDate(formatDateToString(date));
+}
+
+/**
+ * Today's calendar day on the device, as UTC midnight
+ * Default reference date of every calculation: the device's day (as in
+ * todayLocalDate), not the UTC day, which is already tomorrow in the evening
+ * west of UTC.
+ */
+export function currentDate(): Date {
+  return parseDate(localDateOf(new Date()));
+}
+
+// ============================================================================
+// PRESENCE LEDGER
+// Day-by-day classification of the 5-year eligibility window.
+// All aggregate numbers (static eligibility, projection, pre-PR credit) are
+// derived from this ledger so every consumer sees the same result.
+// ============================================================================
+
+/**
+ * How a single day in the eligibility window is classified
+ */
+export type LedgerDayKind =
+  | 'pr_present'      // In Canada as PR - counts as a full day
+  | 'pre_pr_present'  // In Canada before PR on a countable status - counts at the pre-PR rate
+  | 'absent'          // Full day outside Canada - does not count
+  | 'non_countable'   // In Canada serving a sentence, on probation or parole - does not count
+  | 'uncounted'       // In Canada as visitor, refugee claimant or without a recorded status - does not count
+  | 'travel_day';     // Departure or return day - counts as present for the day's status
+
+/**
+ * A single day in the presence ledger
+ */
+export interface LedgerDay {
+  /** Calendar date */
+  date: LocalDate;
+  kind: LedgerDayKind;
+  /** Credit earned for this day (1 as PR, the pre-PR rate if countable, 0 otherwise) */
+  credit: number;
+  /** Immigration status in effect on this day (undefined if none recorded) */
+  status?: StatusType;
+  /** ID of the status entry (or legacy presence entry) that produced the status */
+  statusEntryId?: string;
+  /** ID of the absence this day belongs to (absent and travel days only) */
+  absenceId?: string;
+  /** ID of the non-countable period this day belongs to (non_countable days only) */
+  nonCountablePeriodId?: string;
+}
+
+/**
+ * Day-by-day presence ledger for the window before a reference date
+ */
+export interface PresenceLedger {
+  /** Date the ledger was calculated for */
+  referenceDate: LocalDate;
+  /** First day of the window */
+  windowStart: LocalDate;
+  /** Last day of the window - the day before the reference date */
+  windowEnd: LocalDate;
+  /** PR date if the profile has one */
+  prDate?: LocalDate;
+  /** Rule set the ledger was built with */
+  ruleSet: RuleSet;
+  /** Every day of the window in chronological order */
+  days: LedgerDay[];
+}
+
+/**
+ * Aggregate counts derived from a presence ledger
+ */
+export interface PresenceLedgerSummary {
+  /** Days in the window as PR (NOT reduced by absences) */
+  prDays: number;
+  /** Full days absent while PR */
+  prAbsenceDays: number;
+  /** Days as PR serving a sentence, on probation or parole */
+  prNonCountableDays: number;
+  /** Days in the window before PR on a countable status (NOT reduced by absences) */
+  prePRGrossDays: number;
+  /** Full days absent before PR while on a countable status */
+  prePRAbsenceDays: number;
+  /** Days before PR on a countable status serving a sentence, on probation or parole */
+  prePRNonCountableDays: number;
+  /** Pre-PR countable days actually present in Canada (and not in a non-countable period) */
+  prePRPresentDays: number;
+  /** Pre-PR credit (present days at the pre-PR rate, capped) */
+  preDaysCredit: number;
+  /** All full days absent in the window, regardless of status */
+  totalAbsenceDays: number;
+  /** prDays - prAbsenceDays - prNonCountableDays + preDaysCredit */
+  totalEligibleDays: number;
+  /** Calendar years meeting the rule set's per-year minimum (0 if it has none) */
+  yearsMeetingMinimum: number;
+  /** Whether the rule set's presence requirement is met */
+  meetsPresenceRequirement: boolean;
+}
+
+/**
+ * Status period resolved from statusHistory or legacy fields
+ */
+interface StatusPeriod {
+  id?: string;
+  status: StatusType;
+  from: Date;
+  to: Date; // inclusive
+}
+
+/**
+ * Resolve the profile's status periods, preferring statusHistory and falling
+ * back to legacy presenceInCanada/prDate. Open-ended entries run through
+ * the given end date.
+ */
+function getStatusPeriods(profile: Partial<UserProfile>, openEndDate: Date): StatusPeriod[] {
+  if (profile.statusHistory && profile.statusHistory.length > 0) {
+    return profile.statusHistory.map((entry: StatusEntry) => ({
+      id: entry.id,
+      status: entry.status,
+      from: parseDate(entry.from),
+      to: entry.to ? parseDate(entry.to) : openEndDate,
+    }));
+  }
+
+  // LEGACY: presenceInCanada + prDate
+  const periods: StatusPeriod[] = getPrePRPresence(profile as UserProfile).map((entry, index) => ({
+    id: profile.presenceInCanada?.[index]?.id,
+    status: entry.status,
+    from: parseDate(entry.from),
+    to: parseDate(entry.to),
+  }));
+
+  if (profile.prDate) {
+    periods.push({
+      status: 'permanent_resident',
+      from: parseDate(profile.prDate),
+      to: openEndDate,
+    });
+  }
+
+  return periods;
+}
+
+/**
+ * Classify every day from rangeStart to rangeEnd (inclusive)
+ *
+ * Each day is classified by the status in effect (PR takes precedence from the
+ * PR date onwards, then countable statuses, then visitor) and by travel:
+ * days strictly between departure and return are absent, while the departure
+ * and return days themselves count as present (IRCC rule). Open-ended statuses
+ * and ongoing trips (no return date) run through rangeEnd, and future trips are
+ * treated as scheduled. Days serving a sentence, on probation or on parole are
+ * non-countable unless already absent (so they are never deducted twice).
+ */
+export function buildLedgerDays(
+  profile: Partial<UserProfile>,
+  rangeStart: Date,
+  rangeEnd: Date,
+  ruleSet: RuleSet = CURRENT_RULE_SET
+): LedgerDay[] {
+  const dayCount = daysBetween(rangeStart, rangeEnd) + 1;
+
+  const prDateStr = getPRDate(profile as UserProfile);
+  const prDate = prDateStr ? parseDate(prDateStr) : null;
+  const prEntryId = profile.statusHistory?.find(
+    (entry) => entry.status === 'permanent_resident'
+  )?.id;
+
+  const days: LedgerDay[] = [];
+  for (let i = 0; i < dayCount; i++) {
+    days.push({
+      date: formatDateToString(addDays(rangeStart, i)),
+      kind: 'uncounted',
+      credit: 0,
+    });
+  }
+
+  // Clamp a date range to range indexes; returns null if outside the range
+  const toIndexRange = (from: Date, to: Date): [number, number] | null => {
+    const start = Math.max(0, daysBetween(rangeStart, from));
+    const end = Math.min(dayCount - 1, daysBetween(rangeStart, to));
+    return start <= end ? [start, end] : null;
+  };
+
+  // 1. Pre-PR statuses (countable statuses win over visitor on overlap)
+  const periods = getStatusPeriods(profile, rangeEnd).filter(
+    (period) => period.status !== 'permanent_resident'
+  );
+  periods.forEach((period) => {
+    const range = toIndexRange(period.from, period.to);
+    if (!range) return;
+
+    const isCountable = ruleSet.countableStatuses.includes(period.status);
+    for (let i = range[0]; i <= range[1]; i++) {
+      const day = days[i];
+      if (day.kind === 'pre_pr_present') continue;
+      day.status = period.status;
+      day.statusEntryId = period.id;
+      if (isCountable) {
+        day.kind = 'pre_pr_present';
+        day.credit = ruleSet.prePRCreditRate;
+      }
+    }
+  });
+
+  // 2. PR status from PR date onwards
+  if (prDate) {
+    const range = toIndexRange(prDate, rangeEnd);
+    if (range) {
+      for (let i = range[0]; i <= range[1]; i++) {
+        const day = days[i];
+        day.kind = 'pr_present';
+        day.credit = 1;
+        day.status = 'permanent_resident';
+        day.statusEntryId = prEntryId;
+      }
+    }
+  }
+
+  // 3. Travel absences - full days outside first, then departure/return days
+  // (Crown service abroad counts as presence, so those trips are skipped)
+  const absences = (profile.travelAbsences || []).filter(
+    (absence) => !isAbsenceCountedAsPresence(absence)
+  );
+  absences.forEach((absence: AbsenceEntry) => {
+    const lastAbsentDay = absence.to ? addDays(parseDate(absence.to), -1) : rangeEnd;
+    const range = toIndexRange(addDays(parseDate(absence.from), 1), lastAbsentDay);
+    if (!range) return;
+    for (let i = range[0]; i <= range[1]; i++) {
+      const day = days[i];
+      day.kind = 'absent';
+      day.credit = 0;
+      day.absenceId = absence.id;
+    }
+  });
+  absences.forEach((absence: AbsenceEntry) => {
+    [absence.from, absence.to].forEach((dateStr) => {
+      if (!dateStr) return;
+      const index = daysBetween(rangeStart, parseDate(dateStr));
+      if (index < 0 || index >= dayCount) return;
+      const day = days[index];
+      if (day.kind === 'absent') return;
+      day.kind = 'travel_day';
+      day.absenceId = absence.id;
+    });
+  });
+
+  // 4. Non-countable periods (sentence, probation, parole) - deducted like absences
+  // (an ongoing period lasts through the end of the range)
+  (profile.nonCountablePeriods || []).forEach((period) => {
+    const range = toIndexRange(parseDate(period.from), period.to ? parseDate(period.to) : rangeEnd);
+    if (!range) return;
+    for (let i = range[0]; i <= range[1]; i++) {
+      const day = days[i];
+      if (day.kind === 'absent') continue;
+      day.kind = 'non_countable';
+      day.credit = 0;
+      day.nonCountablePeriodId = period.id;
+    }
+  });
+
+  return days;
+}
+
+/**
+ * Give ongoing trips a return date (the user is assumed back that day)
+ * Used when simulating forward, where an open-ended trip would otherwise
+ * never end.
+ */
+function closeOngoingAbsences(profile: Partial<UserProfile>, returnDate: Date): Partial<UserProfile> {
+  const absences = profile.travelAbsences || [];
+  if (!absences.some((absence) => !absence.to)) return profile;
+
+  const returnDateStr = formatDateToString(returnDate);
+  return {
+    ...profile,
+    travelAbsences: absences.map((absence) =>
+      absence.to ? absence : { ...absence, to: absence.from > returnDateStr ? absence.from : returnDateStr }
+    ),
+  };
+}
+
+/**
+ * First day of the window ending the day before a reference date
+ */
+function getWindowStart(referenceDate: Date, windowYears: number): Date {
+  const windowStart = new Date(referenceDate);
+  windowStart.setUTCFullYear(referenceDate.getUTCFullYear() - windowYears);
+  return windowStart;
+}
+
+/**
+ * Whether a ledger day counts as present on a countable status
+ */
+function isPresentDay(day: LedgerDay, ruleSet: RuleSet): { pr: boolean; prePR: boolean } {
+  const present = day.kind !== 'absent' && day.kind !== 'non_countable';
+  const isPR = day.status === 'permanent_resident';
+  const isPrePRCountable = !isPR && !!day.status && ruleSet.countableStatuses.includes(day.status);
+  return { pr: present && isPR, prePR: present && isPrePRCountable };
+}
+
+/**
+ * Build the day-by-day presence ledger for the window before a reference date
+ *
+ * @param profile - User profile data
+ * @param referenceDate - Application/reference date (defaults to today)
+ * @param ruleSet - Rules to apply (defaults to the current rules)
+ * @returns Ledger covering [referenceDate - window years, referenceDate - 1 day]
+ */
+export function buildPresenceLedger(
+  profile: Partial<UserProfile>,
+  referenceDate?: Date,
+  ruleSet: RuleSet = CURRENT_RULE_SET
+): PresenceLedger {
+  const today = toDateOnly(referenceDate || currentDate());
+  const windowStart = getWindowStart(today, ruleSet.windowYears);
+  const windowEnd = addDays(today, -1);
+
+  return {
+    referenceDate: formatDateToString(today),
+    windowStart: formatDateToString(windowStart),
+    windowEnd: formatDateToString(windowEnd),
+    prDate: getPRDate(profile as UserProfile),
+    ruleSet,
+    days: buildLedgerDays(profile, windowStart, windowEnd, ruleSet),
+  };
+}
+
+/**
+ * Find the first date on or after fromDate whose window meets the rule set's
+ * presence requirement
+ *
+ * Simulates forward one day at a time over a single ledger: each step adds
+ * the day just lived (including scheduled future trips) and drops days that
+ * fall out of the window, so older pre-PR days stop counting as time passes.
+ * Once the window lies entirely after the PR date and the last recorded trip,
+ * every day counts, so the search ends within a window past the last
+ * recorded date: the PR date, or the end of a status, trip or sentence,
+ * probation or parole period. If no date up to then qualifies (e.g. PR ended,
+ * or too few days are left outside non-countable periods), none ever will.
+ * Ongoing trips are treated as ending on fromDate. Ongoing non-countable
+ * periods last through the whole search, so only days before them can count.
+ *
+ * @param profile - User profile data (must have a PR date)
+ * @param fromDate - First candidate date
+ * @param ruleSet - Rules to apply
+ * @returns Earliest eligible date, or null if the requirement is never met
+ */
+function findEarliestEligibleDate(
+  profile: Partial<UserProfile>,
+  fromDate: Date,
+  ruleSet: RuleSet
+): Date | null {
+  profile = closeOngoingAbsences(profile, fromDate);
+  const prDateStr = getPRDate(profile as UserProfile);
+  const eventDates = [
+    ...(prDateStr ? [prDateStr] : []),
+    ...(profile.statusHistory || []).map((entry) => entry.to || entry.from),
+    ...(profile.travelAbsences || []).map((absence) => absence.to || absence.from),
+    ...(profile.nonCountablePeriods || []).map((period) => period.to || period.from),
+  ];
+  let lastEvent = fromDate;
+  eventDates.forEach((dateStr) => {
+    const date = parseDate(dateStr);
+    if (date > lastEvent) lastEvent = date;
+  });
+  const horizon = addDays(lastEvent, ruleSet.windowYears * 366 + 1);
+
+  const rangeStart = getWindowStart(fromDate, ruleSet.windowYears);
+  const days = buildLedgerDays(profile, rangeStart, horizon, ruleSet);
+
+  // Prefix sums of PR days present and pre-PR countable days present
+  const prPresent = [0];
+  const prePRPresent = [0];
+  days.forEach((day, i) => {
+    const present = isPresentDay(day, ruleSet);
+    prPresent.push(prPresent[i] + (present.pr ? 1 : 0));
+    prePRPresent.push(prePRPresent[i] + (present.prePR ? 1 : 0));
+  });
+  const countPR = (from: Date, toExclusive: Date) =>
+    prPresent[daysBetween(rangeStart, toExclusive)] - prPresent[daysBetween(rangeStart, from)];
+
+  for (let candidate = fromDate; candidate <= horizon; candidate = addDays(candidate, 1)) {
+    const windowStart = getWindowStart(candidate, ruleSet.windowYears);
+    const start = daysBetween(rangeStart, windowStart);
+    const end = daysBetween(rangeStart, candidate); // exclusive
+    const prDays = prPresent[end] - prPresent[start];
+    const preDaysCredit = Math.min(
+      Math.floor((prePRPresent[end] - prePRPresent[start]) * ruleSet.prePRCreditRate),
+      ruleSet.maxPrePRCredit
+    );
+    if (prDays + preDaysCredit < ruleSet.daysRequired) continue;
+
+    if (ruleSet.minDaysPerYear && ruleSet.minYearsWithMinDays) {
+      // Calendar years (fully or partially) in the window meeting the minimum
+      let yearsMeetingMinimum = 0;
+      for (let year = windowStart.getUTCFullYear(); year <= addDays(candidate, -1).getUTCFullYear(); year++) {
+        const yearStart = new Date(Date.UTC(year, 0, 1));
+        const yearEnd = new Date(Date.UTC(year + 1, 0, 1));
+        const from = yearStart < windowStart ? windowStart : yearStart;
+        const to = yearEnd > candidate ? candidate : yearEnd;
+        if (countPR(from, to) >= ruleSet.minDaysPerYear) yearsMeetingMinimum++;
+      }
+      if (yearsMeetingMinimum < ruleSet.minYearsWithMinDays) continue;
+    }
+
+    return candidate;
+  }
+
+  return null;
+}
+
+/**
+ * Derive aggregate counts from a presence ledger
+ */
+export function summarizePresenceLedger(ledger: PresenceLedger): PresenceLedgerSummary {
+  const { ruleSet } = ledger;
+  let prDays = 0;
+  let prAbsenceDays = 0;
+  let prNonCountableDays = 0;
+  let prePRGrossDays = 0;
+  let prePRAbsenceDays = 0;
+  let prePRNonCountableDays = 0;
+  let totalAbsenceDays = 0;
+  const prPresentByYear = new Map<string, number>();
+
+  ledger.days.forEach((day) => {
+    const isPR = day.status === 'permanent_resident';
+    const isPrePRCountable = !isPR && !!day.status && ruleSet.countableStatuses.includes(day.status);
+
+    if (isPR) prDays++;
+    if (isPrePRCountable) prePRGrossDays++;
+
+    if (day.kind === 'absent') {
+      totalAbsenceDays++;
+      if (isPR) prAbsenceDays++;
+      if (isPrePRCountable) prePRAbsenceDays++;
+    } else if (day.kind === 'non_countable') {
+      if (isPR) prNonCountableDays++;
+      if (isPrePRCountable) prePRNonCountableDays++;
+    } else if (isPR) {
+      const year = day.date.slice(0, 4);
+      prPresentByYear.set(year, (prPresentByYear.get(year) || 0) + 1);
+    }
+  });
+
+  const prePRPresentDays = prePRGrossDays - prePRAbsenceDays - prePRNonCountableDays;
+  const preDaysCredit = Math.min(
+    Math.floor(prePRPresentDays * ruleSet.prePRCreditRate),
+    ruleSet.maxPrePRCredit
+  );
+  const totalEligibleDays = prDays - prAbsenceDays - prNonCountableDays + preDaysCredit;
+
+  const minDaysPerYear = ruleSet.minDaysPerYear;
+  const yearsMeetingMinimum = minDaysPerYear
+    ? Array.from(prPresentByYear.values()).filter((days) => days >= minDaysPerYear).length
+    : 0;
+
+  return {
+    prDays,
+    prAbsenceDays,
+    prNonCountableDays,
+    prePRGrossDays,
+    prePRAbsenceDays,
+    prePRNonCountableDays,
+    prePRPresentDays,
+    preDaysCredit,
+    totalAbsenceDays,
+    totalEligibleDays,
+    yearsMeetingMinimum,
+    meetsPresenceRequirement:
+      totalEligibleDays >= ruleSet.daysRequired &&
+      yearsMeetingMinimum >= (ruleSet.minYearsWithMinDays || 0),
+  };
+}
+
 /**
  * Calculate static eligibility data for PR users
  * This is the main calculation used by backend to store eligibility data
  * 
  * @param profile - User profile data
  * @param referenceDate - Date to calculate from (defaults to today, useful for testing)
+ * @param ruleSet - Rules to apply (defaults to the current rules)
  * @returns Static eligibility data or null if user doesn't have PR
  */
 export function calculateStaticEligibility(
   profile: Partial<UserProfile>,
-  referenceDate?: Date
+  referenceDate?: Date,
+  ruleSet: RuleSet = CURRENT_RULE_SET
 ): StaticEligibilityData | null {
   // Get PR date using helper (works with both formats)
   const prDateStr = getPRDate(profile as UserProfile);
@@ -140,313 +642,249 @@ export function calculateStaticEligibility(
     return null;
   }
 
-  const today = referenceDate || new Date();
-  const prDate = parseDate(prDateStr);
-
-  // Calculate 5-year eligibility window
-  const fiveYearsAgo = new Date(today);
-  fiveYearsAgo.setFullYear(today.getFullYear() - 5);
-
-  // Start counting from PR date OR 5 years ago, whichever is later
-  const eligibilityWindowStart = prDate > fiveYearsAgo ? prDate : fiveYearsAgo;
-
-  // Calculate days in the eligibility window
-  const daysInWindow = daysBetween(eligibilityWindowStart, today);
-
-  // Calculate pre-PR credit
-  const preDaysCredit = calculatePrePRCredit(profile, prDateStr);
-
-  // Calculate absence days
-  const totalAbsenceDays = calculateAbsenceDays(
-    profile.travelAbsences || [],
-    eligibilityWindowStart,
-    today
-  );
-
-  // Days as PR = raw days in the eligibility window
-  const daysInCanadaAsPR = daysInWindow;
+  const ledger = buildPresenceLedger(profile, referenceDate, ruleSet);
+  const summary = summarizePresenceLedger(ledger);
+  const today = parseDate(ledger.referenceDate);
 
-  // Calculate total eligible days
-  const totalEligibleDays = daysInCanadaAsPR + preDaysCredit - totalAbsenceDays;
-  const daysRemaining = Math.max(0, DAYS_REQUIRED - totalEligibleDays);
-
-  // Calculate earliest application date
-  let earliestDate: Date;
-  if (daysRemaining > 0) {
-    earliestDate = new Date(today.getTime() + daysRemaining * 24 * 60 * 60 * 1000);
-  } else {
-    earliestDate = today;
-  }
+  // Earliest application date: simulate forward with the sliding window
+  const earliestDate = summary.meetsPresenceRequirement
+    ? today
+    : findEarliestEligibleDate(profile, today, ruleSet);
 
   return {
-    daysInCanadaAsPR,
-    preDaysCredit,
-    totalAbsenceDays,
-    earliestEligibilityDate: formatDateToString(earliestDate),
+    daysInCanadaAsPR: summary.prDays,
+    preDaysCredit: summary.preDaysCredit,
+    totalAbsenceDays: summary.prAbsenceDays,
+    nonCountableDays: summary.prNonCountableDays,
+    earliestEligibilityDate: earliestDate ? formatDateToString(earliestDate) : null,
+    calculatedAsOf: ledger.referenceDate,
   };
 }
 
 /**
  * Calculate pre-PR credit from status history or legacy presence data
+ * Only days within the window before the reference date count. Time as a
+ * refugee claimant earns nothing; credit starts on the protection decision
+ * date (the start of the protected_person entry).
  * 
  * @param profile - User profile
- * @param prDateStr - PR date string (entries after this date are excluded)
- * @returns Pre-PR credit (max 365)
+ * @param referenceDate - Date to calculate from (defaults to today)
+ * @param ruleSet - Rules to apply (defaults to the current rules)
+ * @returns Pre-PR credit (max 365 under the current rules)
  */
 export function calculatePrePRCredit(
   profile: Partial<UserProfile>,
-  prDateStr?: string
+  referenceDate?: Date,
+  ruleSet: RuleSet = CURRENT_RULE_SET
 ): number {
-  // Get pre-PR presence using helper (works with both formats)
-  const prePRPresence = getPrePRPresence(profile as UserProfile);
-  
-  // Filter to only include countable statuses
-  const countablePresence = prePRPresence.filter(
-    (entry) => COUNTABLE_STATUSES.includes(entry.status as typeof COUNTABLE_STATUSES[number])
-  );
-
-  if (countablePresence.length > 0) {
-    // Merge overlapping presence entries to prevent double-counting
-    const mergedPresence = mergeOverlappingDateRanges(countablePresence);
-
-    // Calculate gross days from countable status periods
-    let grossPrePRDays = 0;
-    const countableRanges: { from: Date; to: Date }[] = [];
-    
-    mergedPresence.forEach(entry => {
-      const from = parseDate(entry.from);
-      const to = parseDate(entry.to);
-      const days = daysBetween(from, to) + 1; // +1 to include both start and end days
-      grossPrePRDays += days;
-      countableRanges.push({ from, to });
-    });
-
-    // Deduct absences that occurred during pre-PR countable periods
-    let absenceDaysDeducted = 0;
-    if (profile.travelAbsences && profile.travelAbsences.length > 0) {
-      profile.travelAbsences.forEach((absence: AbsenceEntry) => {
-        const absenceFrom = parseDate(absence.from);
-        const absenceTo = parseDate(absence.to);
-
-        // Check each countable range for overlap with this absence
-        countableRanges.forEach((range) => {
-          const overlapStart = new Date(Math.max(absenceFrom.getTime(), range.from.getTime()));
-          const overlapEnd = new Date(Math.min(absenceTo.getTime(), range.to.getTime()));
-
-          if (overlapStart < overlapEnd) {
-            // Per IRCC rules: departure and return days count as present
-            const overlapDays = daysBetween(overlapStart, overlapEnd);
-            const fullDaysAbsent = Math.max(0, overlapDays - 1);
-            absenceDaysDeducted += fullDaysAbsent;
-          }
-        });
-      });
-    }
-
-    const netPrePRDays = Math.max(0, grossPrePRDays - absenceDaysDeducted);
-
-    // Each day before PR counts as 0.5 days, max 365 days credit
-    return Math.min(Math.floor(netPrePRDays * 0.5), MAX_PRE_PR_CREDIT);
-  }
-  
-  // Fallback to legacy presenceInCanada if helper returned empty
-  if (profile.presenceInCanada && profile.presenceInCanada.length > 0) {
-    const countablePurposes = ['study_permit', 'work_permit', 'protected_person'];
-    const countableLegacyPresence = profile.presenceInCanada.filter(
-      (entry: PresenceEntry) => countablePurposes.includes(entry.purpose)
-    );
-    
-    if (countableLegacyPresence.length > 0) {
-      const mergedPresence = mergeOverlappingDateRanges(countableLegacyPresence);
-
-      // Calculate gross days
-      let grossPrePRDays = 0;
-      const countableRanges: { from: Date; to: Date }[] = [];
-      
-      mergedPresence.forEach(entry => {
-        const from = parseDate(entry.from);
-        const to = parseDate(entry.to);
-        const days = daysBetween(from, to) + 1;
-        grossPrePRDays += days;
-        countableRanges.push({ from, to });
-      });
-
-      // Deduct absences during legacy presence periods
-      let absenceDaysDeducted = 0;
-      if (profile.travelAbsences && profile.travelAbsences.length > 0) {
-        profile.travelAbsences.forEach((absence: AbsenceEntry) => {
-          const absenceFrom = parseDate(absence.from);
-          const absenceTo = parseDate(absence.to);
-
-          countableRanges.forEach((range) => {
-            const overlapStart = new Date(Math.max(absenceFrom.getTime(), range.from.getTime()));
-            const overlapEnd = new Date(Math.min(absenceTo.getTime(), range.to.getTime()));
-
-            if (overlapStart < overlapEnd) {
-              const overlapDays = daysBetween(overlapStart, overlapEnd);
-              const fullDaysAbsent = Math.max(0, overlapDays - 1);
-              absenceDaysDeducted += fullDaysAbsent;
-            }
-          });
-        });
-      }
-
-      const netPrePRDays = Math.max(0, grossPrePRDays - absenceDaysDeducted);
-
-      return Math.min(Math.floor(netPrePRDays * 0.5), MAX_PRE_PR_CREDIT);
-    }
-  }
-
-  return 0;
+  return summarizePresenceLedger(buildPresenceLedger(profile, referenceDate, ruleSet)).preDaysCredit;
 }
 
 /**
  * Calculate total absence days within a date range
- * Per IRCC rules: departure and return days count as present in Canada
+ * Per IRCC rules: departure and return days count as present in Canada.
+ * Ongoing trips (no return date) count as absent through windowEnd, and
+ * trips abroad in Crown service count as presence. Counted from the presence
+ * ledger, so the total matches summarizePresenceLedger.
  * 
  * @param absences - Array of absence entries
  * @param windowStart - Start of eligibility window
  * @param windowEnd - End of eligibility window (usually today)
+ * @param ruleSet - Rules to apply (defaults to the current rules)
  * @returns Total absence days
  */
 export function calculateAbsenceDays(
   absences: AbsenceEntry[],
   windowStart: Date,
-  windowEnd: Date
+  windowEnd: Date,
+  ruleSet: RuleSet = CURRENT_RULE_SET
 ): number {
   if (!absences || absences.length === 0) {
     return 0;
   }
 
-  // Filter absences that overlap with the window
-  const relevantAbsences = absences
-    .filter((absence) => {
-      const fromDate = parseDate(absence.from);
-      const toDate = parseDate(absence.to);
-      return toDate >= windowStart && fromDate <= windowEnd;
-    })
-    .map((absence) => ({
-      from: absence.from,
-      to: absence.to,
-    }));
-
-  // Merge overlapping absences to prevent double-counting
-  const mergedAbsences = mergeOverlappingDateRanges(relevantAbsences);
-
-  return mergedAbsences.reduce((total, absence) => {
-    const from = parseDate(absence.from);
-    const to = parseDate(absence.to);
-
-    // Clamp absence to the window
-    const effectiveFrom = from < windowStart ? windowStart : from;
-    const effectiveTo = to > windowEnd ? windowEnd : to;
+  const start = toDateOnly(windowStart);
+  const end = toDateOnly(windowEnd);
+  if (end < start) {
+    return 0;
+  }
 
-    // Only count full days outside (exclude departure and return days)
-    const days = Math.max(0, daysBetween(effectiveFrom, effectiveTo) - 1);
-    return total + days;
-  }, 0);
+  const ledger: PresenceLedger = {
+    referenceDate: formatDateToString(addDays(end, 1)),
+    windowStart: formatDateToString(start),
+    windowEnd: formatDateToString(end),
+    ruleSet,
+    days: buildLedgerDays({ travelAbsences: absences }, start, end, ruleSet),
+  };
+  return summarizePresenceLedger(ledger).totalAbsenceDays;
 }
 
 /**
- * Calculate projection for non-PR users (work/study permit holders, visitors)
- * Shows what their eligibility would look like if they got PR today
+ * Calculate projection for non-PR users (work/study permit holders, visitors,
+ * refugee claimants and protected persons)
+ * Shows what their eligibility would look like if they got PR today. A
+ * refugee claimant's projected credit only includes time after a protection
+ * decision.
  * 
  * @param profile - User profile data
  * @param referenceDate - Date to calculate from (defaults to today)
+ * @param ruleSet - Rules to apply (defaults to the current rules)
  * @returns Projection result
  */
 export function calculateProjection(
   profile: Partial<UserProfile>,
-  referenceDate?: Date
+  referenceDate?: Date,
+  ruleSet: RuleSet = CURRENT_RULE_SET
 ): ProjectionResult {
-  const today = referenceDate || new Date();
-  const fiveYearsAgo = new Date(today);
-  fiveYearsAgo.setFullYear(fiveYearsAgo.getFullYear() - 5);
+  const today = referenceDate || currentDate();
 
   // Default result for users with no status history
-  const defaultResult: ProjectionResult = {
-    totalCountableDays: 0,
-    grossDays: 0,
-    absenceDaysDeducted: 0,
-    projectedCredit: 0,
-    daysNeededAsPR: DAYS_REQUIRED,
-    projectedEarliestDate: formatDateToString(
-      new Date(today.getTime() + DAYS_REQUIRED * 24 * 60 * 60 * 1000)
-    ),
-  };
-
   if (!profile.statusHistory || profile.statusHistory.length === 0) {
-    return defaultResult;
+    return {
+      totalCountableDays: 0,
+      grossDays: 0,
+      absenceDaysDeducted: 0,
+      nonCountableDaysDeducted: 0,
+      projectedCredit: 0,
+      daysNeededAsPR: ruleSet.daysRequired,
+      projectedEarliestDate: formatDateToString(addDays(toDateOnly(today), ruleSet.daysRequired)),
+    };
   }
 
-  // Build array of countable day ranges (within last 5 years, excluding PR status)
-  const countableRanges: { from: Date; to: Date }[] = [];
+  const ledger = buildPresenceLedger(profile, today, ruleSet);
+  const summary = summarizePresenceLedger(ledger);
+
+  const daysNeededAsPR = Math.max(0, ruleSet.daysRequired - summary.preDaysCredit);
+
+  // Simulate getting PR today: current statuses end yesterday, PR starts today
+  const referenceDateStr = ledger.referenceDate;
+  const yesterdayStr = formatDateToString(addDays(parseDate(referenceDateStr), -1));
+  const projectedProfile: Partial<UserProfile> = {
+    ...profile,
+    statusHistory: [
+      ...profile.statusHistory
+        .filter((entry) => entry.from < referenceDateStr)
+        .map((entry) => (!entry.to || entry.to > yesterdayStr ? { ...entry, to: yesterdayStr } : entry)),
+      { id: 'projected-pr', status: 'permanent_resident', from: referenceDateStr },
+    ],
+  };
+  const projectedEarliestDate = findEarliestEligibleDate(
+    projectedProfile,
+    parseDate(referenceDateStr),
+    ruleSet
+  );
 
-  profile.statusHistory.forEach((entry: StatusEntry) => {
-    // Only count entries with countable statuses (not visitor, not PR)
-    if (COUNTABLE_STATUSES.includes(entry.status as typeof COUNTABLE_STATUSES[number])) {
-      let from = parseDate(entry.from);
-      let to = entry.to ? parseDate(entry.to) : today;
+  return {
+    totalCountableDays: summary.prePRPresentDays,
+    grossDays: summary.prePRGrossDays,
+    absenceDaysDeducted: summary.prePRAbsenceDays,
+    nonCountableDaysDeducted: summary.prePRNonCountableDays,
+    projectedCredit: summary.preDaysCredit,
+    daysNeededAsPR,
+    projectedEarliestDate: projectedEarliestDate ? formatDateToString(projectedEarliestDate) : null,
+  };
+}
 
-      // Clamp to 5-year window
-      if (from < fiveYearsAgo) from = new Date(fiveYearsAgo);
-      if (to > today) to = new Date(today);
+/**
+ * Result of the absence budget calculation
+ */
+export interface AbsenceBudget {
+  /** Target application date */
+  targetDate: LocalDate;
+  /** Departure date used for the planned trip */
+  tripStartDate: LocalDate;
+  /** Eligible days on the target date without the planned trip */
+  eligibleDaysAtTarget: number;
+  /** Whether the target date is reachable without the planned trip */
+  targetReachable: boolean;
+  /** Maximum full days outside Canada that still keep the target date */
+  maxAbsentDays: number;
+  /** Latest return date that keeps the target date (undefined if not reachable) */
+  latestReturnDate?: LocalDate;
+}
 
-      // Only add if range is valid
-      if (from < to && to > fiveYearsAgo) {
-        countableRanges.push({ from, to });
-      }
+/**
+ * Calculate how long a user can be away and still apply by a target date
+ *
+ * Simulates a trip leaving on the start date and searches for the longest
+ * one that still meets the presence requirement in the window before the target.
+ * Departure and return days count as present, so a trip with N full days
+ * absent returns N + 1 days after departure. The trip must end by the target.
+ * An ongoing trip is assumed to end by the planned departure.
+ *
+ * @param profile - User profile data (exclude the trip being edited, if any)
+ * @param targetDate - Desired application date
+ * @param tripStartDate - Departure date (defaults to today)
+ * @param ruleSet - Rules to apply (defaults to the current rules)
+ * @returns Absence budget
+ */
+export function calculateAbsenceBudget(
+  profile: Partial<UserProfile>,
+  targetDate: Date,
+  tripStartDate?: Date,
+  ruleSet: RuleSet = CURRENT_RULE_SET
+): AbsenceBudget {
+  const target = toDateOnly(targetDate);
+  const start = toDateOnly(tripStartDate || currentDate());
+  profile = closeOngoingAbsences(profile, start);
+
+  const summaryWithTrip = (absentDays: number | null): PresenceLedgerSummary => {
+    const travelAbsences = [...(profile.travelAbsences || [])];
+    if (absentDays !== null) {
+      travelAbsences.push({
+        id: 'planned-trip',
+        from: formatDateToString(start),
+        to: formatDateToString(addDays(start, absentDays + 1)),
+      });
     }
-  });
-
-  // Calculate gross days from countable status periods
-  let grossDays = 0;
-  countableRanges.forEach((range) => {
-    const days = daysBetween(range.from, range.to);
-    grossDays += Math.max(0, days);
-  });
+    const ledger = buildPresenceLedger({ ...profile, travelAbsences }, target, ruleSet);
+    return summarizePresenceLedger(ledger);
+  };
 
-  // Calculate absence days that overlap with countable periods
-  let absenceDaysDeducted = 0;
-  if (profile.travelAbsences && profile.travelAbsences.length > 0) {
-    profile.travelAbsences.forEach((absence: AbsenceEntry) => {
-      const absenceFrom = parseDate(absence.from);
-      const absenceTo = parseDate(absence.to);
-
-      // Check each countable range for overlap
-      countableRanges.forEach((range) => {
-        const overlapStart = new Date(Math.max(absenceFrom.getTime(), range.from.getTime()));
-        const overlapEnd = new Date(Math.min(absenceTo.getTime(), range.to.getTime()));
-
-        if (overlapStart < overlapEnd) {
-          // Per IRCC rules: departure and return days count as present
-          const overlapDays = daysBetween(overlapStart, overlapEnd);
-          const fullDaysAbsent = Math.max(0, overlapDays - 1);
-          absenceDaysDeducted += fullDaysAbsent;
-        }
-      });
-    });
+  const summaryAtTarget = summaryWithTrip(null);
+  const eligibleDaysAtTarget = summaryAtTarget.totalEligibleDays;
+  const targetReachable = summaryAtTarget.meetsPresenceRequirement;
+
+  // Trip must return by the target date
+  const maxPossible = daysBetween(start, target) - 1;
+  if (!targetReachable || maxPossible < 0) {
+    return {
+      targetDate: formatDateToString(target),
+      tripStartDate: formatDateToString(start),
+      eligibleDaysAtTarget,
+      targetReachable,
+      maxAbsentDays: 0,
+    };
   }
 
-  const totalCountableDays = Math.max(0, grossDays - absenceDaysDeducted);
-  const projectedCredit = Math.min(Math.floor(totalCountableDays * 0.5), MAX_PRE_PR_CREDIT);
-  const daysNeededAsPR = Math.max(0, DAYS_REQUIRED - projectedCredit);
-  
-  const projectedEarliestDate = new Date(today.getTime() + daysNeededAsPR * 24 * 60 * 60 * 1000);
+  // Binary search for the longest trip that still keeps the target
+  // (eligible days only decrease as the trip gets longer)
+  let low = 0;
+  let high = maxPossible;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (summaryWithTrip(mid).meetsPresenceRequirement) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
 
   return {
-    totalCountableDays,
-    grossDays,
-    absenceDaysDeducted,
-    projectedCredit,
-    daysNeededAsPR,
-    projectedEarliestDate: formatDateToString(projectedEarliestDate),
+    targetDate: formatDateToString(target),
+    tripStartDate: formatDateToString(start),
+    eligibleDaysAtTarget,
+    targetReachable,
+    maxAbsentDays: low,
+    latestReturnDate: formatDateToString(addDays(start, low + 1)),
   };
 }
 
 /**
  * Check if eligibility-relevant fields have changed
- * Used by backend to determine if recalculation is needed
+ * Used by backend to determine if recalculation is needed. Only the inputs of
+ * calculateStaticEligibility count: filed tax years are checked when
+ * eligibility is shown, not stored.
  */
 export function hasEligibilityFieldsChanged(
   userData: Record<string, unknown>,
@@ -473,6 +911,10 @@ export function hasEligibilityFieldsChanged(
     // Travel absences changes (used by both)
     (userData.travelAbsences !== undefined &&
       JSON.stringify(userData.travelAbsences) !==
-        JSON.stringify(existingData.travelAbsences))
+        JSON.stringify(existingData.travelAbsences)) ||
+    // Sentence/probation/parole periods
+    (userData.nonCountablePeriods !== undefined &&
+      JSON.stringify(userData.nonCountablePeriods) !==
+        JSON.stringify(existingData.nonCountablePeriods))
   );
 }
@@ -13,6 +13,11 @@ export {
   
   // Types
   type ProjectionResult,
+  type AbsenceBudget,
+  type LedgerDayKind,
+  type LedgerDay,
+  type PresenceLedger,
+  type PresenceLedgerSummary,
   
   // Core calculation functions
   calculateStaticEligibility,
@@ -20,10 +25,104 @@ export {
   calculatePrePRCredit,
   calculateAbsenceDays,
   hasEligibilityFieldsChanged,
+  calculateAbsenceBudget,
+  
+  // Presence ledger
+  buildPresenceLedger,
+  buildLedgerDays,
+  summarizePresenceLedger,
   
   // Utility functions
   parseDate,
   formatDateToString,
   mergeOverlappingDateRanges,
   daysBetween,
+  addDays,
+  currentDate,
 } from './eligibility';
+
+export {
+  // Versioned rule sets
+  type RuleSet,
+  RULE_SET_PRE_2015,
+  RULE_SET_2015,
+  RULE_SET_2017,
+  CURRENT_RULE_SET,
+  RULE_SETS,
+  getRuleSetForDate,
+  getRuleSetById,
+} from './rules';
+
+export {
+  // Explanation trace ("Why this date?")
+  type EligibilityTrace,
+  type EligibilityTraceStep,
+  type TraceWindowStep,
+  type TraceStatusRangeStep,
+  type TraceAbsenceStep,
+  type TraceCreditStep,
+  type TraceTotalStep,
+  explainEligibility,
+} from './trace';
+
+export {
+  // What-if simulation
+  type EligibilityScenario,
+  type EligibilitySnapshot,
+  type SimulationResult,
+  applyScenario,
+  getEligibilitySnapshot,
+  simulateEligibility,
+} from './simulation';
+
+export {
+  // PR residency obligation
+  RESIDENCY_DAYS_REQUIRED,
+  type ResidencyObligationResult,
+  calculateResidencyObligation,
+} from './residency';
+
+export {
+  // Income tax filing requirement
+  TAX_YEARS_REQUIRED,
+  type TaxFilingResult,
+  getTaxYearsInWindow,
+  calculateTaxFilingRequirement,
+} from './taxYears';
+
+export {
+  // Presence by calendar year and tax year
+  type YearPresence,
+  type TaxYearPresence,
+  type PresenceByYear,
+  calculatePresenceByYear,
+} from './yearlyPresence';
+
+export {
+  // LocalDate arithmetic and conversion
+  todayLocalDate,
+  addDaysToLocalDate,
+  daysBetweenLocalDates,
+  compareLocalDates,
+  minLocalDate,
+  maxLocalDate,
+  toPickerDate,
+  fromPickerDate,
+  formatLocalDate,
+} from './localDate';
+
+export {
+  // Profile validation
+  type ProfileIssueSeverity,
+  type ProfileIssueCode,
+  type ProfileIssue,
+  type ProfileValidationResult,
+  getProfileIssueKey,
+  validateProfile,
+} from './validation';
+
+export {
+  // Protected person decision dates
+  getUnconfirmedProtectedPersonEntries,
+  applyProtectionDecisionDate,
+} from './protectedPerson';
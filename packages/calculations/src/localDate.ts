@@ -0,0 +1,81 @@
+/**
+ * LocalDate Helpers
+ *
+ * Arithmetic, comparison and conversion for the LocalDate type. Calculations
+ * treat a LocalDate as UTC midnight of that calendar day; pickers and "today"
+ * use the device's calendar day. Going through these helpers (instead of
+ * new Date(str) / toISOString()) keeps dates from shifting by a day for
+ * users outside UTC.
+ */
+
+import { LocalDate, localDateOf } from '@journey-to-citizen/types';
+import { parseDate, formatDateToString, addDays, daysBetween } from './eligibility';
+
+/**
+ * Today's calendar day on the user's device
+ */
+export function todayLocalDate(now: Date = new Date()): LocalDate {
+  return localDateOf(now);
+}
+
+/**
+ * Add (or subtract) days to a LocalDate
+ */
+export function addDaysToLocalDate(date: LocalDate, days: number): LocalDate {
+  return formatDateToString(addDays(parseDate(date), days));
+}
+
+/**
+ * Calendar days from one LocalDate to another (negative if `to` is earlier)
+ */
+export function daysBetweenLocalDates(from: LocalDate, to: LocalDate): number {
+  return daysBetween(parseDate(from), parseDate(to));
+}
+
+/**
+ * Compare two LocalDates (negative if a is earlier, 0 if equal, positive if later)
+ * Suitable for Array.prototype.sort.
+ */
+export function compareLocalDates(a: LocalDate, b: LocalDate): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Earlier of two LocalDates
+ */
+export function minLocalDate(a: LocalDate, b: LocalDate): LocalDate {
+  return compareLocalDates(a, b) <= 0 ? a : b;
+}
+
+/**
+ * Later of two LocalDates
+ */
+export function maxLocalDate(a: LocalDate, b: LocalDate): LocalDate {
+  return compareLocalDates(a, b) >= 0 ? a : b;
+}
+
+/**
+ * Date for a native date picker: local noon of the calendar day, so the picker
+ * shows the same day in every timezone
+ */
+export function toPickerDate(date: LocalDate): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day, 12);
+}
+
+/**
+ * Calendar day selected in a native date picker (device timezone)
+ */
+export function fromPickerDate(date: Date): LocalDate {
+  return localDateOf(date);
+}
+
+/**
+ * Format a LocalDate for display (e.g. "Jan 15, 2024")
+ */
+export function formatLocalDate(
+  date: LocalDate,
+  options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric' }
+): string {
+  return parseDate(date).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+}
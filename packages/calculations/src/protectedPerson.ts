@@ -0,0 +1,61 @@
+/**
+ * Protected Person Decision Dates
+ *
+ * Refugee claimants only earn pre-PR credit from the date they are found to
+ * be protected persons. Older timelines had a single protected_person entry
+ * that may start on the claim date; these helpers split such an entry at the
+ * decision date once the user supplies it.
+ */
+
+import { UserProfile, StatusEntry, LocalDate, needsProtectionDecisionDate } from '@journey-to-citizen/types';
+import { addDaysToLocalDate, compareLocalDates } from './localDate';
+
+/**
+ * Protected person entries whose decision date hasn't been confirmed yet
+ */
+export function getUnconfirmedProtectedPersonEntries(profile: Partial<UserProfile>): StatusEntry[] {
+  return (profile.statusHistory || []).filter(needsProtectionDecisionDate);
+}
+
+/**
+ * Record the protection decision date for a protected person entry
+ *
+ * If the decision came after the entry's start date, the time before it is
+ * split off into a refugee_claimant entry (which earns no credit). If it came
+ * on or before the start date, the entry is moved to start on the decision date.
+ *
+ * @param statusHistory - Current status history
+ * @param entryId - ID of the protected_person entry
+ * @param decisionDate - Date the user was found to be a protected person
+ * @returns Updated status history
+ * @throws Error if the entry doesn't exist or the decision date is after it ends
+ */
+export function applyProtectionDecisionDate(
+  statusHistory: StatusEntry[],
+  entryId: string,
+  decisionDate: LocalDate
+): StatusEntry[] {
+  const entry = statusHistory.find((item) => item.id === entryId && item.status === 'protected_person');
+  if (!entry) {
+    throw new Error('Protected person entry not found');
+  }
+  if (entry.to && compareLocalDates(decisionDate, entry.to) > 0) {
+    throw new Error('The decision date must be on or before the end of the protected person status');
+  }
+
+  const confirmed: StatusEntry = { ...entry, from: decisionDate, decisionDateConfirmed: true };
+  if (compareLocalDates(decisionDate, entry.from) <= 0) {
+    return statusHistory.map((item) => (item.id === entryId ? confirmed : item));
+  }
+
+  const claimant: StatusEntry = {
+    id: `${entry.id}-claim`,
+    status: 'refugee_claimant',
+    from: entry.from,
+    to: addDaysToLocalDate(decisionDate, -1),
+  };
+  return statusHistory.reduce<StatusEntry[]>(
+    (result, item) => (item.id === entryId ? [...result, claimant, confirmed] : [...result, item]),
+    []
+  );
+}
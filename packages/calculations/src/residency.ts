@@ -0,0 +1,145 @@
+/**
+ * PR Residency Obligation
+ *
+ * Permanent residents must be physically present in Canada for at least
+ * 730 days in every 5-year period. During the first 5 years after landing,
+ * the period runs from the landing date and the obligation is met as long as
+ * 730 days can still be reached by the fifth anniversary.
+ */
+
+import { UserProfile, getPRDate, LocalDate } from '@journey-to-citizen/types';
+import {
+  buildLedgerDays,
+  parseDate,
+  formatDateToString,
+  addDays,
+  daysBetween,
+  currentDate,
+} from './eligibility';
+
+/** Days of physical presence required in any 5-year period */
+export const RESIDENCY_DAYS_REQUIRED = 730;
+
+/**
+ * Residency obligation status as of a reference date
+ */
+export interface ResidencyObligationResult {
+  /** PR landing date */
+  landingDate: LocalDate;
+  /** Date the obligation was checked at */
+  referenceDate: LocalDate;
+  /** Fifth anniversary of landing */
+  fifthAnniversary: LocalDate;
+  /** True before the fifth anniversary (period starts at landing) */
+  withinFirstFiveYears: boolean;
+  /** First day of the period examined */
+  periodStart: LocalDate;
+  /** Last day of the period examined - the day before the reference date */
+  periodEnd: LocalDate;
+  /** Days physically present in the period (departure/return days count) */
+  daysPresent: number;
+  /** Full days outside Canada in the period */
+  daysAbsent: number;
+  daysRequired: number;
+  isCompliant: boolean;
+  /** Full days that could be spent outside Canada from today while staying compliant */
+  marginDays: number;
+  /** First date out of compliance if the user left today and stayed away */
+  fallOutDate: LocalDate;
+}
+
+/**
+ * First day of the 5-year period ending the day before a date
+ */
+function fiveYearsBefore(date: Date): Date {
+  const start = new Date(date);
+  start.setUTCFullYear(date.getUTCFullYear() - 5);
+  return start;
+}
+
+/**
+ * Calculate the PR residency obligation (730 days in 5 years)
+ *
+ * Presence comes from the PR entry in statusHistory (or legacy prDate) and
+ * travelAbsences. The fall-out date is found by simulating a departure today
+ * with no return and moving the 5-year period forward one day at a time.
+ *
+ * @param profile - User profile data
+ * @param referenceDate - Date to calculate from (defaults to today)
+ * @returns Residency obligation status, or null if the user isn't a PR yet
+ */
+export function calculateResidencyObligation(
+  profile: Partial<UserProfile>,
+  referenceDate?: Date
+): ResidencyObligationResult | null {
+  const today = referenceDate ? parseDate(formatDateToString(referenceDate)) : currentDate();
+  const landingDateStr = getPRDate(profile as UserProfile);
+  if (!landingDateStr) return null;
+
+  const landing = parseDate(landingDateStr);
+  if (landing > today) return null;
+
+  const fifthAnniversary = new Date(landing);
+  fifthAnniversary.setUTCFullYear(landing.getUTCFullYear() + 5);
+
+  // Leave today and stay away: departure day counts as present, then absent
+  const horizon = addDays(today, 5 * 366 + 1);
+  const departure = {
+    id: 'residency-departure',
+    from: formatDateToString(today),
+  };
+  const rangeStart = landing < fiveYearsBefore(today) ? fiveYearsBefore(today) : landing;
+  const days = buildLedgerDays(
+    { ...profile, travelAbsences: [...(profile.travelAbsences || []), departure] },
+    rangeStart,
+    horizon
+  );
+
+  // Prefix sums of PR days present and PR days absent
+  const present = [0];
+  const absent = [0];
+  days.forEach((day, i) => {
+    const isPR = day.status === 'permanent_resident';
+    present.push(present[i] + (isPR && day.kind !== 'absent' ? 1 : 0));
+    absent.push(absent[i] + (isPR && day.kind === 'absent' ? 1 : 0));
+  });
+
+  // Presence in the period before a date, and whether it meets the obligation
+  const evaluate = (date: Date) => {
+    const withinFirstFiveYears = date < fifthAnniversary;
+    const periodStart = withinFirstFiveYears ? landing : fiveYearsBefore(date);
+    const start = Math.max(0, daysBetween(rangeStart, periodStart));
+    const end = daysBetween(rangeStart, date); // exclusive
+    const daysPresent = present[end] - present[start];
+    const daysAbsent = absent[end] - absent[start];
+    const isCompliant = withinFirstFiveYears
+      ? daysPresent + daysBetween(date, fifthAnniversary) >= RESIDENCY_DAYS_REQUIRED
+      : daysPresent >= RESIDENCY_DAYS_REQUIRED;
+    return { withinFirstFiveYears, periodStart, daysPresent, daysAbsent, isCompliant };
+  };
+
+  const current = evaluate(today);
+
+  let fallOutDate = horizon;
+  for (let date = today; date <= horizon; date = addDays(date, 1)) {
+    if (!evaluate(date).isCompliant) {
+      fallOutDate = date;
+      break;
+    }
+  }
+
+  return {
+    landingDate: landingDateStr,
+    referenceDate: formatDateToString(today),
+    fifthAnniversary: formatDateToString(fifthAnniversary),
+    withinFirstFiveYears: current.withinFirstFiveYears,
+    periodStart: formatDateToString(current.periodStart),
+    periodEnd: formatDateToString(addDays(today, -1)),
+    daysPresent: current.daysPresent,
+    daysAbsent: current.daysAbsent,
+    daysRequired: RESIDENCY_DAYS_REQUIRED,
+    isCompliant: current.isCompliant,
+    marginDays: Math.max(0, daysBetween(today, fallOutDate) - 1),
+    fallOutDate: formatDateToString(fallOutDate),
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * Citizenship Rule Sets
+ *
+ * The physical presence rules have changed over time. Each rule set
+ * describes one regime, and every calculation accepts a rule set so past
+ * applications (and future legislative changes) can be modelled without
+ * rewriting the calculations. The current rules are the default.
+ */
+
+import { StatusType, LocalDate, toLocalDate } from '@journey-to-citizen/types';
+
+/**
+ * Physical presence and tax filing rules for one regime
+ */
+export interface RuleSet {
+  /** Stable identifier (e.g. '2017') */
+  id: string;
+  /** Human-readable name */
+  name: string;
+  /** First application date the rules apply to */
+  effectiveFrom: LocalDate;
+  /** Last application date the rules apply to, undefined if still in force */
+  effectiveTo?: LocalDate;
+  /** Length of the window before the application date, in years */
+  windowYears: number;
+  /** Eligible days required within the window */
+  daysRequired: number;
+  /** Minimum days present as PR in a calendar year (undefined if no per-year rule) */
+  minDaysPerYear?: number;
+  /** Calendar years in the window that must meet minDaysPerYear */
+  minYearsWithMinDays?: number;
+  /** Credit per pre-PR day present on a countable status (0 if pre-PR time doesn't count) */
+  prePRCreditRate: number;
+  /** Maximum pre-PR credit */
+  maxPrePRCredit: number;
+  /**
+   * Pre-PR statuses that earn credit (visitor never counts; refugee claimants
+   * only earn credit once found to be protected persons)
+   */
+  countableStatuses: readonly StatusType[];
+  /** Tax years that must be filed within the window (0 if not required) */
+  taxYearsRequired: number;
+}
+
+/**
+ * Rules in force before June 11, 2015: 3 of 4 years, half-day pre-PR credit
+ */
+export const RULE_SET_PRE_2015: RuleSet = {
+  id: 'pre-2015',
+  name: '3 of 4 years (before June 11, 2015)',
+  effectiveFrom: toLocalDate('1977-02-15'),
+  effectiveTo: toLocalDate('2015-06-10'),
+  windowYears: 4,
+  daysRequired: 1095,
+  prePRCreditRate: 0.5,
+  maxPrePRCredit: 730, // No separate cap - bounded by the 4-year window
+  countableStatuses: ['study_permit', 'work_permit', 'protected_person'],
+  taxYearsRequired: 0,
+};
+
+/**
+ * Strengthening Canadian Citizenship Act rules (June 11, 2015 - October 10, 2017):
+ * 4 of 6 years as PR with 183 days in each of 4 calendar years, no pre-PR credit
+ */
+export const RULE_SET_2015: RuleSet = {
+  id: '2015',
+  name: '4 of 6 years, 183 days per year (2015)',
+  effectiveFrom: toLocalDate('2015-06-11'),
+  effectiveTo: toLocalDate('2017-10-10'),
+  windowYears: 6,
+  daysRequired: 1460,
+  minDaysPerYear: 183,
+  minYearsWithMinDays: 4,
+  prePRCreditRate: 0,
+  maxPrePRCredit: 0,
+  countableStatuses: [],
+  taxYearsRequired: 4,
+};
+
+/**
+ * Current rules (since October 11, 2017): 3 of 5 years, half-day pre-PR
+ * credit up to 365 days, taxes filed for 3 of the 5 tax years
+ */
+export const RULE_SET_2017: RuleSet = {
+  id: '2017',
+  name: '3 of 5 years (since October 11, 2017)',
+  effectiveFrom: toLocalDate('2017-10-11'),
+  windowYears: 5,
+  daysRequired: 1095,
+  prePRCreditRate: 0.5,
+  maxPrePRCredit: 365,
+  countableStatuses: ['study_permit', 'work_permit', 'protected_person'],
+  taxYearsRequired: 3,
+};
+
+/** Rules used when none is given */
+export const CURRENT_RULE_SET = RULE_SET_2017;
+
+/** All known rule sets, oldest first */
+export const RULE_SETS: readonly RuleSet[] = [RULE_SET_PRE_2015, RULE_SET_2015, RULE_SET_2017];
+
+/**
+ * Get the rule set that applies to an application made on a date
+ * Dates before the oldest rule set use the oldest rules.
+ *
+ * @param applicationDate - Date the application is (or was) made, as UTC
+ * midnight of that day (e.g. from parseDate or currentDate)
+ * @returns Rule set in force on that date
+ */
+export function getRuleSetForDate(applicationDate: Date): RuleSet {
+  const dateStr = applicationDate.toISOString().split('T')[0];
+  const match = RULE_SETS.find(
+    (ruleSet) =>
+      ruleSet.effectiveFrom <= dateStr && (!ruleSet.effectiveTo || dateStr <= ruleSet.effectiveTo)
+  );
+  return match || RULE_SETS[0];
+}
+
+/**
+ * Get a rule set by its id
+ *
+ * @param id - Rule set id (e.g. '2015')
+ * @returns Rule set, or undefined if unknown
+ */
+export function getRuleSetById(id: string): RuleSet | undefined {
+  return RULE_SETS.find((ruleSet) => ruleSet.id === id);
+}
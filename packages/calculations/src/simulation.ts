@@ -0,0 +1,201 @@
+/**
+ * What-if Eligibility Simulation
+ *
+ * Applies hypothetical trips and status changes to a copy of the profile and
+ * compares eligibility before and after. The saved profile is never modified.
+ */
+
+import {
+  UserProfile,
+  AbsenceEntry,
+  StatusEntry,
+  StaticEligibilityData,
+  LocalDate,
+  getPRDate,
+} from '@journey-to-citizen/types';
+import {
+  ProjectionResult,
+  calculateStaticEligibility,
+  calculateProjection,
+  parseDate,
+  formatDateToString,
+  addDays,
+  daysBetween,
+  currentDate,
+} from './eligibility';
+import { RuleSet, CURRENT_RULE_SET } from './rules';
+
+/**
+ * Hypothetical changes to apply on top of a profile
+ */
+export interface EligibilityScenario {
+  /** Trips to add, or replace when the id matches an existing trip */
+  absences?: AbsenceEntry[];
+  /** Status entries to add, or replace when the id matches an existing entry */
+  statuses?: StatusEntry[];
+  /** IDs of existing trips to leave out */
+  removeAbsenceIds?: string[];
+  /** IDs of existing status entries to leave out */
+  removeStatusIds?: string[];
+}
+
+/**
+ * Eligibility at a point in time, for PR and non-PR profiles alike
+ */
+export interface EligibilitySnapshot {
+  /** Whether the (possibly hypothetical) profile has a PR date */
+  hasPR: boolean;
+  /** Date eligibility was evaluated at (today, or the PR date if it's in the future) */
+  evaluatedAt: LocalDate;
+  /** Earliest application date (null if not reachable) */
+  earliestEligibilityDate: LocalDate | null;
+  /** Eligible days as of evaluatedAt */
+  totalEligibleDays: number;
+  preDaysCredit: number;
+  totalAbsenceDays: number;
+  /** Static eligibility for PR profiles */
+  staticEligibility: StaticEligibilityData | null;
+  /** Projection ("if you got PR today") for non-PR profiles */
+  projection: ProjectionResult;
+}
+
+/**
+ * Before/after comparison for a scenario
+ */
+export interface SimulationResult {
+  before: EligibilitySnapshot;
+  after: EligibilitySnapshot;
+  /** Profile with the scenario applied */
+  scenarioProfile: Partial<UserProfile>;
+  /** Days the earliest application date moved (positive = later; null if either date isn't reachable) */
+  earliestDateShiftDays: number | null;
+}
+
+/**
+ * Apply a scenario to a copy of the profile
+ * New status entries close any open-ended entry that started before them
+ * (the same way the timeline ends the previous status when adding a new one).
+ */
+export function applyScenario(
+  profile: Partial<UserProfile>,
+  scenario: EligibilityScenario
+): Partial<UserProfile> {
+  const removeAbsenceIds = scenario.removeAbsenceIds || [];
+  const removeStatusIds = scenario.removeStatusIds || [];
+
+  let travelAbsences = (profile.travelAbsences || []).filter(
+    (entry) => !removeAbsenceIds.includes(entry.id)
+  );
+  (scenario.absences || []).forEach((absence) => {
+    const exists = travelAbsences.some((entry) => entry.id === absence.id);
+    travelAbsences = exists
+      ? travelAbsences.map((entry) => (entry.id === absence.id ? { ...absence } : entry))
+      : [...travelAbsences, { ...absence }];
+  });
+
+  let statusHistory = (profile.statusHistory || []).filter(
+    (entry) => !removeStatusIds.includes(entry.id)
+  );
+  (scenario.statuses || []).forEach((status) => {
+    const exists = statusHistory.some((entry) => entry.id === status.id);
+    if (exists) {
+      statusHistory = statusHistory.map((entry) => (entry.id === status.id ? { ...status } : entry));
+      return;
+    }
+
+    const previousEnd = formatDateToString(addDays(parseDate(status.from), -1));
+    statusHistory = statusHistory.map((entry) =>
+      !entry.to && entry.from <= previousEnd ? { ...entry, to: previousEnd } : entry
+    );
+    statusHistory = [...statusHistory, { ...status }];
+  });
+
+  return {
+    ...profile,
+    travelAbsences,
+    statusHistory,
+  };
+}
+
+/**
+ * Calculate an eligibility snapshot for any profile
+ * If the PR date is in the future, eligibility is evaluated as of the PR date
+ * (days until then count as pre-PR time on the current status).
+ *
+ * @param profile - User profile data
+ * @param referenceDate - Date to calculate from (defaults to today)
+ * @param ruleSet - Rules to apply (defaults to the current rules)
+ */
+export function getEligibilitySnapshot(
+  profile: Partial<UserProfile>,
+  referenceDate?: Date,
+  ruleSet: RuleSet = CURRENT_RULE_SET
+): EligibilitySnapshot {
+  const today = referenceDate ? parseDate(formatDateToString(referenceDate)) : currentDate();
+  const prDateStr = getPRDate(profile as UserProfile);
+  const prDate = prDateStr ? parseDate(prDateStr) : null;
+  const evaluatedAt = prDate && prDate > today ? prDate : today;
+
+  const staticEligibility = calculateStaticEligibility(profile, evaluatedAt, ruleSet);
+  const projection = calculateProjection(profile, evaluatedAt, ruleSet);
+
+  if (staticEligibility) {
+    const totalEligibleDays =
+      staticEligibility.daysInCanadaAsPR +
+      staticEligibility.preDaysCredit -
+      staticEligibility.totalAbsenceDays -
+      (staticEligibility.nonCountableDays || 0);
+
+    return {
+      hasPR: true,
+      evaluatedAt: formatDateToString(evaluatedAt),
+      earliestEligibilityDate: staticEligibility.earliestEligibilityDate,
+      totalEligibleDays,
+      preDaysCredit: staticEligibility.preDaysCredit,
+      totalAbsenceDays: staticEligibility.totalAbsenceDays,
+      staticEligibility,
+      projection,
+    };
+  }
+
+  return {
+    hasPR: false,
+    evaluatedAt: formatDateToString(evaluatedAt),
+    earliestEligibilityDate: projection.projectedEarliestDate,
+    totalEligibleDays: Math.min(projection.projectedCredit, ruleSet.daysRequired),
+    preDaysCredit: projection.projectedCredit,
+    totalAbsenceDays: projection.absenceDaysDeducted,
+    staticEligibility: null,
+    projection,
+  };
+}
+
+/**
+ * Simulate eligibility with hypothetical trips and status changes
+ *
+ * @param profile - Saved user profile (not modified)
+ * @param scenario - Hypothetical changes
+ * @param referenceDate - Date to calculate from (defaults to today)
+ * @param ruleSet - Rules to apply (defaults to the current rules)
+ * @returns Eligibility before and after applying the scenario
+ */
+export function simulateEligibility(
+  profile: Partial<UserProfile>,
+  scenario: EligibilityScenario,
+  referenceDate?: Date,
+  ruleSet: RuleSet = CURRENT_RULE_SET
+): SimulationResult {
+  const scenarioProfile = applyScenario(profile, scenario);
+  const before = getEligibilitySnapshot(profile, referenceDate, ruleSet);
+  const after = getEligibilitySnapshot(scenarioProfile, referenceDate, ruleSet);
+
+  return {
+    before,
+    after,
+    scenarioProfile,
+    earliestDateShiftDays:
+      before.earliestEligibilityDate && after.earliestEligibilityDate
+        ? daysBetween(parseDate(before.earliestEligibilityDate), parseDate(after.earliestEligibilityDate))
+        : null,
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * Income Tax Filing Requirement
+ *
+ * Citizenship applicants must have filed income taxes for at least 3 tax
+ * years that fall within the 5-year eligibility window (current rules).
+ * Canadian tax years are calendar years.
+ */
+
+import { UserProfile, LocalDate } from '@journey-to-citizen/types';
+import { parseDate, formatDateToString, currentDate } from './eligibility';
+import { RuleSet, CURRENT_RULE_SET } from './rules';
+
+/** Tax years that must be filed within the 5-year window (current rules) */
+export const TAX_YEARS_REQUIRED = CURRENT_RULE_SET.taxYearsRequired;
+
+/**
+ * Tax filing status as of a reference date
+ */
+export interface TaxFilingResult {
+  /** Date the requirement was checked at */
+  referenceDate: LocalDate;
+  /** Tax years overlapping the window that have ended (oldest first) */
+  taxYearsInWindow: number[];
+  /** Filed tax years inside the window */
+  filedYearsInWindow: number[];
+  /** Tax years inside the window not yet filed */
+  missingYears: number[];
+  yearsRequired: number;
+  requirementMet: boolean;
+}
+
+/**
+ * Get the tax years that count for an application on the reference date
+ * A tax year counts if it overlaps the window and has ended before the
+ * reference date (the current year can't be filed yet).
+ *
+ * @param referenceDate - Application/reference date (defaults to today)
+ * @param ruleSet - Rules to apply (defaults to the current rules)
+ * @returns Tax years, oldest first
+ */
+export function getTaxYearsInWindow(
+  referenceDate?: Date,
+  ruleSet: RuleSet = CURRENT_RULE_SET
+): number[] {
+  const today = referenceDate ? parseDate(formatDateToString(referenceDate)) : currentDate();
+  const windowStart = new Date(today);
+  windowStart.setUTCFullYear(today.getUTCFullYear() - ruleSet.windowYears);
+
+  const years: number[] = [];
+  for (let year = windowStart.getUTCFullYear(); year < today.getUTCFullYear(); year++) {
+    years.push(year);
+  }
+  return years;
+}
+
+/**
+ * Calculate the tax filing requirement (3 of the 5 tax years under the current rules)
+ *
+ * @param profile - User profile data
+ * @param referenceDate - Date to calculate from (defaults to today)
+ * @param ruleSet - Rules to apply (defaults to the current rules)
+ * @returns Tax filing status
+ */
+export function calculateTaxFilingRequirement(
+  profile: Partial<UserProfile>,
+  referenceDate?: Date,
+  ruleSet: RuleSet = CURRENT_RULE_SET
+): TaxFilingResult {
+  const today = referenceDate || currentDate();
+  const taxYearsInWindow = getTaxYearsInWindow(today, ruleSet);
+  const filed = profile.filedTaxYears || [];
+
+  const filedYearsInWindow = taxYearsInWindow.filter((year) => filed.includes(year));
+  const missingYears = taxYearsInWindow.filter((year) => !filed.includes(year));
+
+  return {
+    referenceDate: formatDateToString(today),
+    taxYearsInWindow,
+    filedYearsInWindow,
+    missingYears,
+    yearsRequired: ruleSet.taxYearsRequired,
+    requirementMet: filedYearsInWindow.length >= ruleSet.taxYearsRequired,
+  };
+}
@@ -0,0 +1,235 @@
+/**
+ * Eligibility Explanation Trace
+ *
+ * Step-by-step explanation of how the eligibility numbers were reached.
+ * Built from the presence ledger, so every number in the trace matches
+ * calculateStaticEligibility / calculateProjection exactly.
+ */
+
+import { UserProfile, StatusType, LocalDate } from '@journey-to-citizen/types';
+import {
+  buildPresenceLedger,
+  summarizePresenceLedger,
+  calculateStaticEligibility,
+  PresenceLedgerSummary,
+} from './eligibility';
+import { RuleSet, CURRENT_RULE_SET } from './rules';
+
+/**
+ * Step 1: which window was used and why
+ */
+export interface TraceWindowStep {
+  type: 'window';
+  /** Rule set applied */
+  ruleSetId: string;
+  windowYears: number;
+  referenceDate: LocalDate;
+  windowStart: LocalDate;
+  windowEnd: LocalDate;
+  /** PR date if it falls inside the window (counting as PR starts here) */
+  prDate?: LocalDate;
+  /** True if the PR date is later than the window start */
+  prDateInWindow: boolean;
+}
+
+/**
+ * A contiguous run of days with the same status (consecutive entries merged)
+ */
+export interface TraceStatusRangeStep {
+  type: 'status_range';
+  /** Undefined when no status was recorded for the period */
+  status?: StatusType;
+  from: LocalDate;
+  to: LocalDate;
+  /** Status entries that contributed to this range */
+  entryIds: string[];
+  /** Calendar days in the range (inside the window) */
+  days: number;
+  /** Credit per day present: 1 for PR, the pre-PR rate if countable, 0 otherwise */
+  creditPerDay: number;
+}
+
+/**
+ * A trip whose full days outside Canada overlap the window
+ */
+export interface TraceAbsenceStep {
+  type: 'absence';
+  absenceId: string;
+  from: LocalDate;
+  to: LocalDate;
+  place?: string;
+  /** Full days absent deducted from PR days */
+  prDaysDeducted: number;
+  /** Full days absent deducted from pre-PR countable days (before the 0.5 multiplier) */
+  prePRDaysDeducted: number;
+  /** Full days absent while no countable status applied (nothing to deduct) */
+  uncountedDays: number;
+}
+
+/**
+ * Pre-PR credit: present days at the pre-PR rate, capped
+ */
+export interface TraceCreditStep {
+  type: 'credit';
+  creditRate: number;
+  prePRGrossDays: number;
+  prePRAbsenceDays: number;
+  /** Pre-PR days serving a sentence, on probation or parole */
+  prePRNonCountableDays: number;
+  prePRPresentDays: number;
+  uncappedCredit: number;
+  cap: number;
+  preDaysCredit: number;
+  capApplied: boolean;
+}
+
+/**
+ * Final arithmetic and resulting date
+ */
+export interface TraceTotalStep {
+  type: 'total';
+  prDays: number;
+  prAbsenceDays: number;
+  /** PR days serving a sentence, on probation or parole */
+  prNonCountableDays: number;
+  preDaysCredit: number;
+  totalEligibleDays: number;
+  daysRequired: number;
+  daysRemaining: number;
+  /** Per-year minimum under the rule set (undefined if it has none) */
+  minDaysPerYear?: number;
+  minYearsWithMinDays?: number;
+  yearsMeetingMinimum: number;
+  /** Only set for PR users (null if not reachable) */
+  earliestEligibilityDate?: LocalDate | null;
+}
+
+export type EligibilityTraceStep =
+  | TraceWindowStep
+  | TraceStatusRangeStep
+  | TraceAbsenceStep
+  | TraceCreditStep
+  | TraceTotalStep;
+
+/**
+ * Complete explanation trace
+ */
+export interface EligibilityTrace {
+  steps: EligibilityTraceStep[];
+  summary: PresenceLedgerSummary;
+}
+
+/**
+ * Explain how eligibility was calculated, step by step
+ *
+ * @param profile - User profile data
+ * @param referenceDate - Date to calculate from (defaults to today)
+ * @param ruleSet - Rules to apply (defaults to the current rules)
+ * @returns Ordered trace steps: window, status ranges, absences, credit, total
+ */
+export function explainEligibility(
+  profile: Partial<UserProfile>,
+  referenceDate?: Date,
+  ruleSet: RuleSet = CURRENT_RULE_SET
+): EligibilityTrace {
+  const ledger = buildPresenceLedger(profile, referenceDate, ruleSet);
+  const summary = summarizePresenceLedger(ledger);
+  const steps: EligibilityTraceStep[] = [];
+
+  steps.push({
+    type: 'window',
+    ruleSetId: ruleSet.id,
+    windowYears: ruleSet.windowYears,
+    referenceDate: ledger.referenceDate,
+    windowStart: ledger.windowStart,
+    windowEnd: ledger.windowEnd,
+    prDate: ledger.prDate,
+    prDateInWindow: !!ledger.prDate && ledger.prDate > ledger.windowStart,
+  });
+
+  // Merge consecutive days with the same status into ranges
+  let currentRange: TraceStatusRangeStep | null = null;
+  ledger.days.forEach((day) => {
+    if (!currentRange || currentRange.status !== day.status) {
+      const isCountable = !!day.status && ruleSet.countableStatuses.includes(day.status);
+      currentRange = {
+        type: 'status_range',
+        status: day.status,
+        from: day.date,
+        to: day.date,
+        entryIds: [],
+        days: 0,
+        creditPerDay: day.status === 'permanent_resident' ? 1 : isCountable ? ruleSet.prePRCreditRate : 0,
+      };
+      steps.push(currentRange);
+    }
+    currentRange.to = day.date;
+    currentRange.days++;
+    if (day.statusEntryId && !currentRange.entryIds.includes(day.statusEntryId)) {
+      currentRange.entryIds.push(day.statusEntryId);
+    }
+  });
+
+  // Absences in the order they were taken
+  const absenceSteps = new Map<string, TraceAbsenceStep>();
+  ledger.days.forEach((day) => {
+    if (day.kind !== 'absent' || !day.absenceId) return;
+
+    let step = absenceSteps.get(day.absenceId);
+    if (!step) {
+      const absence = profile.travelAbsences?.find((entry) => entry.id === day.absenceId);
+      step = {
+        type: 'absence',
+        absenceId: day.absenceId,
+        from: absence?.from || day.date,
+        to: absence?.to || day.date,
+        place: absence?.place,
+        prDaysDeducted: 0,
+        prePRDaysDeducted: 0,
+        uncountedDays: 0,
+      };
+      absenceSteps.set(day.absenceId, step);
+      steps.push(step);
+    }
+
+    if (day.status === 'permanent_resident') {
+      step.prDaysDeducted++;
+    } else if (day.status && ruleSet.countableStatuses.includes(day.status)) {
+      step.prePRDaysDeducted++;
+    } else {
+      step.uncountedDays++;
+    }
+  });
+
+  const uncappedCredit = Math.floor(summary.prePRPresentDays * ruleSet.prePRCreditRate);
+  steps.push({
+    type: 'credit',
+    creditRate: ruleSet.prePRCreditRate,
+    prePRGrossDays: summary.prePRGrossDays,
+    prePRAbsenceDays: summary.prePRAbsenceDays,
+    prePRNonCountableDays: summary.prePRNonCountableDays,
+    prePRPresentDays: summary.prePRPresentDays,
+    uncappedCredit,
+    cap: ruleSet.maxPrePRCredit,
+    preDaysCredit: summary.preDaysCredit,
+    capApplied: uncappedCredit > ruleSet.maxPrePRCredit,
+  });
+
+  const staticData = calculateStaticEligibility(profile, referenceDate, ruleSet);
+  steps.push({
+    type: 'total',
+    prDays: summary.prDays,
+    prAbsenceDays: summary.prAbsenceDays,
+    prNonCountableDays: summary.prNonCountableDays,
+    preDaysCredit: summary.preDaysCredit,
+    totalEligibleDays: summary.totalEligibleDays,
+    daysRequired: ruleSet.daysRequired,
+    daysRemaining: Math.max(0, ruleSet.daysRequired - summary.totalEligibleDays),
+    minDaysPerYear: ruleSet.minDaysPerYear,
+    minYearsWithMinDays: ruleSet.minYearsWithMinDays,
+    yearsMeetingMinimum: summary.yearsMeetingMinimum,
+    earliestEligibilityDate: staticData?.earliestEligibilityDate,
+  });
+
+  return { steps, summary };
+}
@@ -0,0 +1,266 @@
+/**
+ * Profile Validation
+ *
+ * Checks that a profile's status history and trips are coherent before they
+ * are fed into the eligibility calculations. Each problem is reported as a
+ * typed issue so the backend can reject blocking ones and the app can show
+ * the rest next to the affected entries.
+ */
+
+import {
+  UserProfile,
+  StatusEntry,
+  AbsenceEntry,
+  NonCountablePeriod,
+  STATUS_TYPE_LABELS,
+  isLocalDate,
+} from '@journey-to-citizen/types';
+import { addDaysToLocalDate, compareLocalDates } from './localDate';
+
+/**
+ * Issue severity
+ * - error: blocks saving the profile
+ * - warning: saved, but shown to the user
+ */
+export type ProfileIssueSeverity = 'error' | 'warning';
+
+export type ProfileIssueCode =
+  | 'INVALID_DATE'
+  | 'INVALID_DATE_RANGE'
+  | 'MULTIPLE_OPEN_STATUSES'
+  | 'MULTIPLE_PR_ENTRIES'
+  | 'OVERLAPPING_STATUSES'
+  | 'STATUS_AFTER_PR'
+  | 'STATUS_GAP'
+  | 'TRIP_OUTSIDE_STATUS'
+  | 'MULTIPLE_ONGOING_TRIPS';
+
+/**
+ * A single validation problem
+ */
+export interface ProfileIssue {
+  code: ProfileIssueCode;
+  severity: ProfileIssueSeverity;
+  /** User-facing description of the problem */
+  message: string;
+  /** IDs of the status entries and trips involved */
+  entryIds: string[];
+  /** User-facing suggestion for fixing the problem */
+  suggestedFix: string;
+}
+
+/**
+ * Result of validating a profile
+ */
+export interface ProfileValidationResult {
+  /** True when there are no blocking issues */
+  isValid: boolean;
+  issues: ProfileIssue[];
+  errors: ProfileIssue[];
+  warnings: ProfileIssue[];
+}
+
+/**
+ * Key identifying an issue (code + affected entries), used to tell whether
+ * an update introduced an issue or it was already there
+ */
+export function getProfileIssueKey(issue: ProfileIssue): string {
+  return `${issue.code}:${[...issue.entryIds].sort().join(',')}`;
+}
+
+function statusLabel(entry: StatusEntry): string {
+  return STATUS_TYPE_LABELS[entry.status] || entry.status;
+}
+
+/**
+ * Whether two status entries share at least one day (open entries run forever)
+ */
+function statusesOverlap(a: StatusEntry, b: StatusEntry): boolean {
+  return (!b.to || compareLocalDates(a.from, b.to) <= 0) && (!a.to || compareLocalDates(b.from, a.to) <= 0);
+}
+
+/**
+ * Whether a status entry covers a day
+ */
+function statusCovers(entry: StatusEntry, date: string): boolean {
+  return entry.from <= date && (!entry.to || date <= entry.to);
+}
+
+const ENTRY_KIND_LABELS = {
+  status: 'status entry',
+  trip: 'trip',
+  period: 'sentence, probation or parole period',
+};
+
+function checkDates(
+  entries: Array<StatusEntry | AbsenceEntry | NonCountablePeriod>,
+  kind: 'status' | 'trip' | 'period',
+  issues: ProfileIssue[]
+): void {
+  entries.forEach((entry) => {
+    const fromValid = isLocalDate(entry.from);
+    const toValid = entry.to === undefined || isLocalDate(entry.to);
+    if (!fromValid || !toValid) {
+      issues.push({
+        code: 'INVALID_DATE',
+        severity: 'error',
+        message: `A ${ENTRY_KIND_LABELS[kind]} has a missing or invalid date.`,
+        entryIds: [entry.id],
+        suggestedFix: 'Edit the entry and pick the dates again.',
+      });
+      return;
+    }
+
+    if (entry.to && compareLocalDates(entry.from, entry.to) > 0) {
+      issues.push({
+        code: 'INVALID_DATE_RANGE',
+        severity: 'error',
+        message:
+          kind === 'trip'
+            ? `The trip starting ${entry.from} returns before it departs.`
+            : `The ${ENTRY_KIND_LABELS[kind]} starting ${entry.from} ends before it starts.`,
+        entryIds: [entry.id],
+        suggestedFix: 'Make sure the start date is on or before the end date.',
+      });
+    }
+  });
+}
+
+/**
+ * Validate a profile's status history and trips
+ *
+ * Blocking (error) issues: invalid dates (including sentence, probation and
+ * parole periods), end before start, more than one
+ * open-ended status, more than one PR entry, overlapping statuses, and
+ * temporary statuses after PR, and more than one ongoing trip. Warnings: gaps
+ * between statuses and trips that start or end outside any status.
+ *
+ * @param profile - User profile (or the profile an update would produce)
+ * @returns Validation result with all issues found
+ */
+export function validateProfile(profile: Partial<UserProfile>): ProfileValidationResult {
+  const statusHistory = profile.statusHistory || [];
+  const travelAbsences = profile.travelAbsences || [];
+  const issues: ProfileIssue[] = [];
+
+  checkDates(statusHistory, 'status', issues);
+  checkDates(travelAbsences, 'trip', issues);
+  checkDates(profile.nonCountablePeriods || [], 'period', issues);
+
+  // The remaining checks compare dates, so skip entries that failed above
+  const invalidIds = new Set(issues.map((issue) => issue.entryIds[0]));
+  const statuses = statusHistory
+    .filter((entry) => !invalidIds.has(entry.id))
+    .sort((a, b) => compareLocalDates(a.from, b.from));
+  const trips = travelAbsences.filter((entry) => !invalidIds.has(entry.id));
+
+  const openStatuses = statuses.filter((entry) => !entry.to);
+  if (openStatuses.length > 1) {
+    issues.push({
+      code: 'MULTIPLE_OPEN_STATUSES',
+      severity: 'error',
+      message: `${openStatuses.length} statuses have no end date, but only your current status can be ongoing.`,
+      entryIds: openStatuses.map((entry) => entry.id),
+      suggestedFix: 'Add an end date to every status except your current one.',
+    });
+  }
+
+  const prEntries = statuses.filter((entry) => entry.status === 'permanent_resident');
+  if (prEntries.length > 1) {
+    issues.push({
+      code: 'MULTIPLE_PR_ENTRIES',
+      severity: 'error',
+      message: 'Your timeline has more than one Permanent Resident entry.',
+      entryIds: prEntries.map((entry) => entry.id),
+      suggestedFix: 'Keep a single Permanent Resident entry starting on your landing date.',
+    });
+  }
+
+  for (let i = 0; i < statuses.length; i++) {
+    for (let j = i + 1; j < statuses.length; j++) {
+      const a = statuses[i];
+      const b = statuses[j];
+      // Two open entries are already reported as MULTIPLE_OPEN_STATUSES
+      if (!a.to && !b.to) continue;
+      if (statusesOverlap(a, b)) {
+        issues.push({
+          code: 'OVERLAPPING_STATUSES',
+          severity: 'error',
+          message: `${statusLabel(a)} (from ${a.from}) overlaps ${statusLabel(b)} (from ${b.from}).`,
+          entryIds: [a.id, b.id],
+          suggestedFix: `End ${statusLabel(a)} on ${addDaysToLocalDate(b.from, -1)} or move the start of ${statusLabel(b)}.`,
+        });
+      }
+    }
+  }
+
+  const firstPR = prEntries[0];
+  if (firstPR) {
+    const afterPR = statuses.filter(
+      (entry) => entry.status !== 'permanent_resident' && compareLocalDates(entry.from, firstPR.from) > 0
+    );
+    afterPR.forEach((entry) => {
+      issues.push({
+        code: 'STATUS_AFTER_PR',
+        severity: 'error',
+        message: `${statusLabel(entry)} starts on ${entry.from}, after you became a Permanent Resident.`,
+        entryIds: [firstPR.id, entry.id],
+        suggestedFix: 'Remove the entry, or correct its dates if it was before your PR.',
+      });
+    });
+  }
+
+  for (let i = 0; i + 1 < statuses.length; i++) {
+    const current = statuses[i];
+    const next = statuses[i + 1];
+    if (!current.to) continue;
+    const dayAfter = addDaysToLocalDate(current.to, 1);
+    if (compareLocalDates(dayAfter, next.from) < 0) {
+      issues.push({
+        code: 'STATUS_GAP',
+        severity: 'warning',
+        message: `No status is recorded from ${dayAfter} to ${addDaysToLocalDate(next.from, -1)}. Days without a countable status earn no credit.`,
+        entryIds: [current.id, next.id],
+        suggestedFix: 'Add the status you held during the gap, or adjust the dates.',
+      });
+    }
+  }
+
+  const ongoingTrips = trips.filter((trip) => !trip.to);
+  if (ongoingTrips.length > 1) {
+    issues.push({
+      code: 'MULTIPLE_ONGOING_TRIPS',
+      severity: 'error',
+      message: `${ongoingTrips.length} trips have no return date, but you can only be on one trip at a time.`,
+      entryIds: ongoingTrips.map((trip) => trip.id),
+      suggestedFix: 'Add return dates to the trips you are back from.',
+    });
+  }
+
+  if (statuses.length > 0) {
+    trips.forEach((trip) => {
+      const departureCovered = statuses.some((entry) => statusCovers(entry, trip.from));
+      const returnDate = trip.to;
+      const returnCovered = !returnDate || statuses.some((entry) => statusCovers(entry, returnDate));
+      if (!departureCovered || !returnCovered) {
+        issues.push({
+          code: 'TRIP_OUTSIDE_STATUS',
+          severity: 'warning',
+          message: `The trip from ${trip.from} to ${returnDate || 'now'} is not covered by any status in your timeline.`,
+          entryIds: [trip.id],
+          suggestedFix: 'Check the trip dates, or add the status you held at the time.',
+        });
+      }
+    });
+  }
+
+  const errors = issues.filter((issue) => issue.severity === 'error');
+  const warnings = issues.filter((issue) => issue.severity === 'warning');
+
+  return {
+    isValid: errors.length === 0,
+    issues,
+    errors,
+    warnings,
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * Presence by Year
+ *
+ * Breaks the presence ledger down per calendar year and per tax year, so
+ * users can fill in the per-year numbers the IRCC application asks for.
+ * Canadian tax years are calendar years; tax year rows add whether the year
+ * was filed and whether it falls in the current eligibility window.
+ */
+
+import { UserProfile, LocalDate } from '@journey-to-citizen/types';
+import {
+  buildLedgerDays,
+  parseDate,
+  formatDateToString,
+  addDays,
+  currentDate,
+} from './eligibility';
+import { getTaxYearsInWindow } from './taxYears';
+import { RuleSet, CURRENT_RULE_SET } from './rules';
+
+/**
+ * Presence totals for one year
+ */
+export interface YearPresence {
+  year: number;
+  /** First day of the year covered by the timeline */
+  from: LocalDate;
+  /** Last day of the year covered by the timeline */
+  to: LocalDate;
+  /** Days in Canada (departure and return days included) */
+  daysPresent: number;
+  /** Full days outside Canada */
+  daysAbsent: number;
+  /** Days present as PR that count toward citizenship */
+  prDays: number;
+  /** Pre-PR days present on a countable status, at the pre-PR credit rate (before the cap) */
+  prePRCreditedDays: number;
+}
+
+/**
+ * Presence totals for one tax year
+ */
+export interface TaxYearPresence extends YearPresence {
+  /** Whether the user marked the year as filed */
+  filed: boolean;
+  /** Whether the tax year counts for an application on the reference date */
+  inWindow: boolean;
+}
+
+/**
+ * Per-year breakdown, oldest year first
+ */
+export interface PresenceByYear {
+  /** Calendar years up to and including the current (partial) year */
+  calendarYears: YearPresence[];
+  /** Tax years that have ended (the current year can't be filed yet) */
+  taxYears: TaxYearPresence[];
+}
+
+/**
+ * Get the first day of the timeline: earliest status or trip
+ */
+function getTimelineStart(profile: Partial<UserProfile>): LocalDate | null {
+  const dates = [
+    ...(profile.statusHistory || []).map((entry) => entry.from),
+    ...(profile.travelAbsences || []).map((entry) => entry.from),
+  ].sort();
+  return dates.length > 0 ? dates[0] : null;
+}
+
+/**
+ * Calculate presence per calendar year and per tax year
+ * Covers the whole timeline, from the earliest status or trip through the
+ * day before the reference date.
+ *
+ * @param profile - User profile data
+ * @param referenceDate - Date to calculate from (defaults to today)
+ * @param ruleSet - Rules to apply (defaults to the current rules)
+ * @returns Per-year presence, oldest year first
+ */
+export function calculatePresenceByYear(
+  profile: Partial<UserProfile>,
+  referenceDate?: Date,
+  ruleSet: RuleSet = CURRENT_RULE_SET
+): PresenceByYear {
+  const today = referenceDate ? parseDate(formatDateToString(referenceDate)) : currentDate();
+  const rangeEnd = addDays(today, -1);
+  const timelineStart = getTimelineStart(profile);
+
+  if (!timelineStart || parseDate(timelineStart) > rangeEnd) {
+    return { calendarYears: [], taxYears: [] };
+  }
+
+  const days = buildLedgerDays(profile, parseDate(timelineStart), rangeEnd, ruleSet);
+  const years = new Map<number, YearPresence>();
+
+  days.forEach((day) => {
+    const year = parseInt(day.date.substring(0, 4), 10);
+    let entry = years.get(year);
+    if (!entry) {
+      entry = {
+        year,
+        from: day.date,
+        to: day.date,
+        daysPresent: 0,
+        daysAbsent: 0,
+        prDays: 0,
+        prePRCreditedDays: 0,
+      };
+      years.set(year, entry);
+    }
+
+    entry.to = day.date;
+    if (day.kind === 'absent') {
+      entry.daysAbsent++;
+    } else {
+      entry.daysPresent++;
+    }
+
+    // Credit is 1 for counted PR days and the pre-PR rate for counted pre-PR days
+    if (day.status === 'permanent_resident') {
+      entry.prDays += day.credit;
+    } else {
+      entry.prePRCreditedDays += day.credit;
+    }
+  });
+
+  const calendarYears = Array.from(years.values()).sort((a, b) => a.year - b.year);
+  const filed = profile.filedTaxYears || [];
+  const windowYears = getTaxYearsInWindow(today, ruleSet);
+  const currentYear = today.getUTCFullYear();
+
+  const taxYears = calendarYears
+    .filter((entry) => entry.year < currentYear)
+    .map((entry) => ({
+      ...entry,
+      filed: filed.includes(entry.year),
+      inWindow: windowYears.includes(entry.year),
+    }));
+
+  return { calendarYears, taxYears };
+}
@@ -0,0 +1,49 @@
+/**
+ * Absence budget tests
+ */
+
+import { LocalDate, UserProfile } from '@journey-to-citizen/types';
+import { calculateAbsenceBudget, calculateStaticEligibility, parseDate } from '../src';
+
+const prProfile: Partial<UserProfile> = {
+  statusHistory: [{ id: 'pr', status: 'permanent_resident', from: '2024-01-01' as LocalDate }],
+  travelAbsences: [],
+};
+
+describe('calculateAbsenceBudget', () => {
+  it('has no days to spare on the earliest application date', () => {
+    const staticData = calculateStaticEligibility(prProfile, parseDate('2025-06-01'));
+    expect(staticData?.earliestEligibilityDate).toBe('2026-12-31');
+
+    const budget = calculateAbsenceBudget(
+      prProfile,
+      parseDate('2026-12-31'),
+      parseDate('2026-11-01')
+    );
+    expect(budget.targetReachable).toBe(true);
+    expect(budget.maxAbsentDays).toBe(0);
+  });
+
+  it('allows days away for a target after the earliest application date', () => {
+    const budget = calculateAbsenceBudget(
+      prProfile,
+      parseDate('2027-03-01'),
+      parseDate('2026-11-01')
+    );
+    expect(budget.targetReachable).toBe(true);
+    expect(budget.eligibleDaysAtTarget).toBe(1155);
+    expect(budget.maxAbsentDays).toBe(60);
+    expect(budget.latestReturnDate).toBe('2027-01-01');
+  });
+
+  it('reports a target the user cannot reach', () => {
+    const budget = calculateAbsenceBudget(
+      prProfile,
+      parseDate('2026-06-01'),
+      parseDate('2026-03-01')
+    );
+    expect(budget.targetReachable).toBe(false);
+    expect(budget.maxAbsentDays).toBe(0);
+    expect(budget.latestReturnDate).toBeUndefined();
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Default reference date tests
+ */
+
+import { LocalDate, UserProfile } from '@journey-to-citizen/types';
+import {
+  buildPresenceLedger,
+  calculateResidencyObligation,
+  currentDate,
+  formatDateToString,
+  todayLocalDate,
+} from '../src';
+
+describe('currentDate', () => {
+  beforeEach(() => {
+    // 9:30pm on March 10 in Vancouver (the test timezone) is March 11 in UTC
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-03-11T04:30:00.000Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('is the calendar day on the device, not the UTC day', () => {
+    expect(todayLocalDate()).toBe('2026-03-10');
+    expect(formatDateToString(currentDate())).toBe('2026-03-10');
+  });
+
+  it('is the default reference date of the calculations', () => {
+    const profile: Partial<UserProfile> = {
+      statusHistory: [{ id: 'pr', status: 'permanent_resident', from: '2024-01-01' as LocalDate }],
+      travelAbsences: [],
+    };
+
+    expect(buildPresenceLedger(profile).referenceDate).toBe('2026-03-10');
+    expect(calculateResidencyObligation(profile)?.referenceDate).toBe('2026-03-10');
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Earliest eligibility date tests
+ */
+
+import { LocalDate, UserProfile } from '@journey-to-citizen/types';
+import {
+  CURRENT_RULE_SET,
+  addDays,
+  buildPresenceLedger,
+  calculateStaticEligibility,
+  parseDate,
+  summarizePresenceLedger,
+} from '../src';
+
+const meetsRequirement = (profile: Partial<UserProfile>, date: LocalDate): boolean =>
+  summarizePresenceLedger(buildPresenceLedger(profile, parseDate(date))).meetsPresenceRequirement;
+
+const prProfile: Partial<UserProfile> = {
+  statusHistory: [{ id: 'pr', status: 'permanent_resident', from: '2024-01-01' as LocalDate }],
+  travelAbsences: [],
+};
+
+describe('calculateStaticEligibility earliest date', () => {
+  it('searches past the end of a long parole period', () => {
+    const profile: Partial<UserProfile> = {
+      ...prProfile,
+      nonCountablePeriods: [
+        { id: 'parole', type: 'parole', from: '2026-01-01' as LocalDate, to: '2035-01-01' as LocalDate },
+      ],
+    };
+
+    const earliest = calculateStaticEligibility(profile, parseDate('2025-06-01'))?.earliestEligibilityDate;
+    expect(earliest).toBe('2038-01-01');
+    expect(meetsRequirement(profile, '2038-01-01' as LocalDate)).toBe(true);
+    expect(meetsRequirement(profile, '2037-12-31' as LocalDate)).toBe(false);
+  });
+
+  it('returns null when no date meets the requirement', () => {
+    const impossibleRules = { ...CURRENT_RULE_SET, daysRequired: CURRENT_RULE_SET.windowYears * 366 + 1 };
+
+    const staticData = calculateStaticEligibility(prProfile, parseDate('2025-06-01'), impossibleRules);
+    expect(staticData).not.toBeNull();
+    expect(staticData?.earliestEligibilityDate).toBeNull();
+  });
+
+  it('treats an ongoing period as lasting through the search', () => {
+    const profile: Partial<UserProfile> = {
+      ...prProfile,
+      nonCountablePeriods: [{ id: 'parole', type: 'parole', from: '2026-01-01' as LocalDate }],
+    };
+
+    const staticData = calculateStaticEligibility(profile, parseDate('2026-06-01'));
+    expect(staticData?.nonCountableDays).toBe(151);
+    expect(staticData?.earliestEligibilityDate).toBeNull();
+  });
+
+  it('returns the reference date once the requirement is met', () => {
+    const referenceDate = addDays(parseDate('2026-12-31'), 30);
+    const staticData = calculateStaticEligibility(prProfile, referenceDate);
+    expect(staticData?.earliestEligibilityDate).toBe('2027-01-30');
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Backup restore helpers
+ *
+ * Used by the restoreBackup function to apply a restore and by the app to
+ * preview it, so the preview matches what is written.
+ */
+
+import { RestoreMode } from './index';
+
+/**
+ * Entry present in both the timeline and the backup, with different values
+ */
+export interface RestoreEntryChange<T> {
+  current: T;
+  backup: T;
+}
+
+/**
+ * What a restore does to one list (statuses, trips or periods), matched by
+ * entry id
+ */
+export interface RestoreDiff<T> {
+  /** Backup entries not in the timeline */
+  added: T[];
+  /** Entries whose values the backup replaces */
+  updated: Array<RestoreEntryChange<T>>;
+  /** Entries identical in the timeline and the backup */
+  unchanged: T[];
+  /** Timeline entries not in the backup, deleted (replace mode) */
+  removed: T[];
+  /** Timeline entries not in the backup, kept (merge mode) */
+  kept: T[];
+}
+
+/**
+ * Whether two entries hold the same values (missing and null are equal)
+ */
+function isSameEntry(a: object, b: object): boolean {
+  const left = a as { [key: string]: unknown };
+  const right = b as { [key: string]: unknown };
+  const keys = Object.keys(left).concat(Object.keys(right));
+  return keys.every((key) => (left[key] ?? null) === (right[key] ?? null));
+}
+
+/**
+ * Compare a timeline list with the backup's
+ *
+ * @param current - Entries in the timeline
+ * @param backup - Entries in the backup
+ * @param mode - Replace or merge
+ * @returns Entries added, updated, unchanged, removed or kept
+ */
+export function diffRestoreEntries<T extends { id: string }>(
+  current: T[],
+  backup: T[],
+  mode: RestoreMode
+): RestoreDiff<T> {
+  const diff: RestoreDiff<T> = { added: [], updated: [], unchanged: [], removed: [], kept: [] };
+  const currentById: { [id: string]: T } = {};
+  current.forEach((entry) => {
+    currentById[entry.id] = entry;
+  });
+
+  const backupIds: { [id: string]: boolean } = {};
+  backup.forEach((entry) => {
+    backupIds[entry.id] = true;
+    const existing = currentById[entry.id];
+    if (!existing) {
+      diff.added.push(entry);
+    } else if (isSameEntry(existing, entry)) {
+      diff.unchanged.push(entry);
+    } else {
+      diff.updated.push({ current: existing, backup: entry });
+    }
+  });
+
+  current
+    .filter((entry) => !backupIds[entry.id])
+    .forEach((entry) => (mode === 'replace' ? diff.removed : diff.kept).push(entry));
+
+  return diff;
+}
+
+/**
+ * Get a timeline list after restoring the backup's
+ *
+ * @param current - Entries in the timeline
+ * @param backup - Entries in the backup
+ * @param mode - Replace or merge
+ * @returns Restored entries
+ */
+export function restoreEntries<T extends { id: string }>(
+  current: T[],
+  backup: T[],
+  mode: RestoreMode
+): T[] {
+  if (mode === 'replace') {
+    return backup;
+  }
+  const backupIds: { [id: string]: boolean } = {};
+  backup.forEach((entry) => {
+    backupIds[entry.id] = true;
+  });
+  return current.filter((entry) => !backupIds[entry.id]).concat(backup);
+}
+
+/**
+ * Get the filed tax years after restoring the backup's
+ *
+ * @param current - Filed tax years in the profile
+ * @param backup - Filed tax years in the backup
+ * @param mode - Replace or merge
+ * @returns Restored tax years, in ascending order
+ */
+export function restoreTaxYears(
+  current: number[],
+  backup: number[],
+  mode: RestoreMode
+): number[] {
+  const years = mode === 'replace' ? backup : current.concat(backup);
+  return years
+    .filter((year, index) => years.indexOf(year) === index)
+    .sort((a, b) => a - b);
+}
@@ -3,6 +3,8 @@
  * Used across frontend, backend, and cloud functions
  */
 
+import { LocalDate, localDateOf, localDateFromParts } from './localDate';
+
 /**
  * Immigration status options
  */
@@ -50,6 +52,7 @@ export const STATUS_TYPES = {
   VISITOR: 'visitor',
   STUDY_PERMIT: 'study_permit',
   WORK_PERMIT: 'work_permit',
+  REFUGEE_CLAIMANT: 'refugee_claimant',
   PROTECTED_PERSON: 'protected_person',
   PERMANENT_RESIDENT: 'permanent_resident',
 } as const;
@@ -60,10 +63,66 @@ export const STATUS_TYPE_LABELS: Record<StatusType, string> = {
   visitor: 'Visitor',
   study_permit: 'Study Permit',
   work_permit: 'Work Permit',
+  refugee_claimant: 'Refugee Claimant',
   protected_person: 'Protected Person',
   permanent_resident: 'Permanent Resident',
 };
 
+/**
+ * Reasons for being outside Canada
+ * Time abroad employed by the Canadian Armed Forces, the federal public
+ * administration or a provincial public service (or accompanying a spouse,
+ * common-law partner or parent who is) counts as physical presence.
+ */
+export const ABSENCE_REASONS = {
+  PERSONAL: 'personal',
+  CANADIAN_ARMED_FORCES: 'canadian_armed_forces',
+  FEDERAL_PUBLIC_ADMINISTRATION: 'federal_public_administration',
+  PROVINCIAL_PUBLIC_SERVICE: 'provincial_public_service',
+  ACCOMPANYING_CROWN_SERVANT: 'accompanying_crown_servant',
+} as const;
+
+export type AbsenceReason = typeof ABSENCE_REASONS[keyof typeof ABSENCE_REASONS];
+
+export const ABSENCE_REASON_LABELS: Record<AbsenceReason, string> = {
+  personal: 'Personal, business or other travel',
+  canadian_armed_forces: 'Canadian Armed Forces',
+  federal_public_administration: 'Federal public administration',
+  provincial_public_service: 'Provincial public service',
+  accompanying_crown_servant: 'Accompanying a family member employed by the above',
+};
+
+/**
+ * Periods in Canada that don't count as physical presence
+ * Time serving a sentence, on probation or on parole is deducted like an absence.
+ */
+export const NON_COUNTABLE_PERIOD_TYPES = {
+  INCARCERATION: 'incarceration',
+  PROBATION: 'probation',
+  PAROLE: 'parole',
+} as const;
+
+export type NonCountablePeriodType = typeof NON_COUNTABLE_PERIOD_TYPES[keyof typeof NON_COUNTABLE_PERIOD_TYPES];
+
+export const NON_COUNTABLE_PERIOD_TYPE_LABELS: Record<NonCountablePeriodType, string> = {
+  incarceration: 'Serving a sentence',
+  probation: 'Probation',
+  parole: 'Parole',
+};
+
+/**
+ * Version of the stored profile format
+ * 1 (or missing): legacy fields (immigrationStatus, prDate, presenceInCanada)
+ * 2: statusHistory only; legacy fields are converted and removed
+ */
+export const PROFILE_SCHEMA_VERSION = 2;
+
+/**
+ * Version of the personal data export format (exportUserData)
+ * Bump when a field is renamed or removed; adding fields is compatible.
+ */
+export const USER_DATA_EXPORT_VERSION = 1;
+
 /**
  * Account deletion status
  */
@@ -82,19 +141,30 @@ export type DeletionStatus = typeof DELETION_STATUS[keyof typeof DELETION_STATUS
 export interface StatusEntry {
   id: string;
   status: StatusType;
-  from: string; // ISO date string (YYYY-MM-DD) - when this status started
-  to?: string;  // ISO date string (YYYY-MM-DD) - when this status ended (undefined = current/ongoing)
+  from: LocalDate; // When this status started
+  to?: LocalDate;  // When this status ended (undefined = current/ongoing)
+  // protected_person only: true once `from` is confirmed to be the protection
+  // decision date. Entries created before refugee_claimant existed may start
+  // on the claim date instead.
+  decisionDateConfirmed?: boolean;
+  // true when `from` was estimated while converting a legacy profile (legacy
+  // profiles had no start date for a non-PR status); cleared once the user
+  // confirms or edits the date
+  startDateEstimated?: boolean;
 }
 
 /**
  * Static eligibility data calculated by backend
- * These values are stored in Firestore and only change when profile is updated
+ * These values are stored in Firestore and recalculated when the profile is
+ * updated and by the daily recomputation job
  */
 export interface StaticEligibilityData {
   daysInCanadaAsPR: number; // Raw days as PR (NOT reduced by absences)
   preDaysCredit: number; // Credit from pre-PR presence (max 365 days)
   totalAbsenceDays: number; // Total days absent from Canada
-  earliestEligibilityDate: string; // ISO date string (YYYY-MM-DD) - when user becomes eligible
+  nonCountableDays?: number; // PR days serving a sentence, on probation or parole (missing on older data)
+  earliestEligibilityDate: LocalDate | null; // When user becomes eligible (null if the timeline never meets the requirement)
+  calculatedAsOf?: LocalDate; // Reference date the values were calculated for (missing on older data)
 }
 
 /**
@@ -102,10 +172,14 @@ export interface StaticEligibilityData {
  * Combines static backend data with dynamic frontend calculations
  */
 export interface EligibilityCalculation extends StaticEligibilityData {
-  totalEligibleDays: number; // daysInCanadaAsPR + preDaysCredit - totalAbsenceDays
+  totalEligibleDays: number; // daysInCanadaAsPR + preDaysCredit - totalAbsenceDays - nonCountableDays
   daysRequired: number; // Always 1095 (3 years)
   daysRemaining: number; // Calculated dynamically in frontend based on current date
-  isEligible: boolean; // Calculated dynamically: today >= earliestEligibilityDate
+  isEligible: boolean; // Calculated dynamically: presence AND tax filing requirements met
+  meetsPresenceRequirement: boolean; // today >= earliestEligibilityDate
+  meetsTaxRequirement: boolean; // Filed taxes for enough tax years in the window
+  taxYearsFiled: number; // Filed tax years inside the 5-year window
+  taxYearsRequired: number; // Always 3
   progress: number; // Percentage 0-100 (calculated dynamically)
 }
 
@@ -116,8 +190,8 @@ export interface EligibilityCalculation extends StaticEligibilityData {
  */
 export interface PresenceEntry {
   id: string;
-  from: string; // ISO date string (YYYY-MM-DD)
-  to: string; // ISO date string (YYYY-MM-DD)
+  from: LocalDate;
+  to: LocalDate;
   purpose: 'visitor' | 'study_permit' | 'work_permit' | 'protected_person' | 'business' | 'no_legal_status';
 }
 
@@ -126,9 +200,28 @@ export interface PresenceEntry {
  */
 export interface AbsenceEntry {
   id: string;
-  from: string; // ISO date string (YYYY-MM-DD)
-  to: string; // ISO date string (YYYY-MM-DD)
+  from: LocalDate; // Departure date
+  to?: LocalDate; // Return date (undefined = still abroad)
   place?: string;
+  reason?: AbsenceReason; // Undefined = personal
+}
+
+/**
+ * Whether a trip counts as physical presence (Crown service abroad)
+ */
+export function isAbsenceCountedAsPresence(absence: AbsenceEntry): boolean {
+  return !!absence.reason && absence.reason !== ABSENCE_REASONS.PERSONAL;
+}
+
+/**
+ * Period that doesn't count as physical presence (sentence, probation, parole)
+ * Sensitive: stored outside the user document and never logged.
+ */
+export interface NonCountablePeriod {
+  id: string;
+  type: NonCountablePeriodType;
+  from: LocalDate;
+  to?: LocalDate; // Undefined = ongoing (e.g. currently on parole)
 }
 
 /**
@@ -151,15 +244,33 @@ export interface UserProfile {
   
   // LEGACY: Keep for backward compatibility (will be migrated to statusHistory)
   immigrationStatus?: 'visitor' | 'student' | 'worker' | 'permanent_resident';
-  prDate?: string; // ISO date string (YYYY-MM-DD)
+  prDate?: LocalDate;
   presenceInCanada?: PresenceEntry[];
   
   // Travel absences (separate concern - not part of status)
   travelAbsences?: AbsenceEntry[];
   
+  // Sentence/probation/parole periods (stored in a private document, merged in by getUserInfo)
+  nonCountablePeriods?: NonCountablePeriod[];
+  
+  // Tax years (e.g. 2023) the user filed Canadian income taxes for
+  filedTaxYears?: number[];
+  
   // Backend-calculated static eligibility data (updated on profile changes)
   staticEligibility?: StaticEligibilityData;
   
+  // Incremented on every timeline change (missing = 0); timeline edits send
+  // the revision they were made against so stale writes are rejected
+  revision?: number;
+  
+  // Stored profile format (see PROFILE_SCHEMA_VERSION; missing = 1)
+  schemaVersion?: number;
+  
+  // Set once statusHistory and travelAbsences are stored in the statusHistory
+  // and absences subcollections instead of arrays in the user document.
+  // getUserInfo returns the arrays either way.
+  timelineInSubcollections?: boolean;
+  
   createdAt?: any; // Firestore Timestamp (keep for audit trail)
   updatedAt?: any; // Firestore Timestamp (keep for audit trail)
 }
@@ -177,11 +288,153 @@ export interface UpdateProfileData {
   
   // LEGACY: Keep for backward compatibility
   immigrationStatus?: 'visitor' | 'student' | 'worker' | 'permanent_resident';
-  prDate?: string; // ISO date string (YYYY-MM-DD)
+  prDate?: LocalDate;
   presenceInCanada?: PresenceEntry[];
   
   travelAbsences?: AbsenceEntry[];
-  [key: string]: any; // Allow additional custom fields
+  nonCountablePeriods?: NonCountablePeriod[];
+  filedTaxYears?: number[];
+  
+  // Profile revision the update was made against. Required to change the
+  // timeline (statuses, trips, periods or the legacy fields): the update is
+  // rejected with a failed-precondition conflict if the profile changed since.
+  revision?: number;
+}
+
+/**
+ * Single-entry timeline edit requests
+ * Each carries the profile revision the edit was made against; the function
+ * rejects it with a failed-precondition conflict if the profile changed since.
+ */
+export interface AddAbsenceData {
+  revision: number;
+  absence: AbsenceEntry;
+}
+
+export interface AddAbsencesData {
+  revision: number;
+  absences: AbsenceEntry[]; // e.g. imported from a travel history
+}
+
+export interface UpdateAbsenceData {
+  revision: number;
+  absence: AbsenceEntry;
+}
+
+export interface DeleteAbsenceData {
+  revision: number;
+  absenceId: string;
+}
+
+export interface AddStatusData {
+  revision: number;
+  status: StatusEntry; // Closes the open-ended status that started before it
+}
+
+export interface UpdateStatusData {
+  revision: number;
+  status: StatusEntry;
+}
+
+export interface DeleteStatusData {
+  revision: number;
+  statusId: string;
+}
+
+export interface CloseCurrentStatusData {
+  revision: number;
+  to: LocalDate; // Last day of the current (open-ended) status
+}
+
+/**
+ * Page request for trips or status entries, newest first
+ */
+export interface GetEntriesPageData {
+  pageSize?: number; // Defaults to 50, max 500
+  startAfter?: string; // ID of the last entry of the previous page
+}
+
+/**
+ * Page of trips or status entries
+ */
+export interface EntriesPage<T> {
+  entries: T[];
+  nextStartAfter: string | null; // null = no more entries
+}
+
+/**
+ * Everything stored for a user, as exported by exportUserData
+ * Dates are YYYY-MM-DD; timestamps are ISO 8601 strings (null if not set).
+ */
+export interface UserDataExport {
+  exportVersion: number; // USER_DATA_EXPORT_VERSION
+  exportedAt: string;
+  account: {
+    uid: string;
+    email: string | null;
+  };
+  profile: {
+    displayName: string | null;
+    profileComplete: boolean;
+    filedTaxYears: number[];
+    schemaVersion: number;
+    revision: number;
+    createdAt: string | null;
+    updatedAt: string | null;
+    // Legacy fields, only on profiles that haven't been upgraded
+    immigrationStatus?: 'visitor' | 'student' | 'worker' | 'permanent_resident';
+    prDate?: LocalDate;
+    presenceInCanada?: PresenceEntry[];
+  };
+  statusHistory: StatusEntry[];
+  travelAbsences: AbsenceEntry[];
+  nonCountablePeriods: NonCountablePeriod[];
+  staticEligibility: StaticEligibilityData | null; // Last stored eligibility snapshot
+  deletion: {
+    status: DeletionStatus;
+    scheduledAt: string | null;
+    executionDate: LocalDate | null;
+  };
+}
+
+/**
+ * File of a personal data export
+ */
+export interface ExportFile {
+  filename: string;
+  mimeType: 'application/json' | 'text/csv';
+  content: string;
+}
+
+/**
+ * Result of exportUserData: the JSON document, then trips and statuses as CSV
+ */
+export interface UserDataExportResult {
+  exportedAt: string;
+  files: ExportFile[];
+}
+
+/**
+ * How a backup is restored into the current timeline
+ * replace: the timeline becomes the backup's statuses, trips, periods and
+ * filed tax years
+ * merge: backup entries are added, or replace current entries with the same
+ * id; other current entries are kept. Filed tax years are combined.
+ */
+export const RESTORE_MODES = {
+  REPLACE: 'replace',
+  MERGE: 'merge',
+} as const;
+
+export type RestoreMode = typeof RESTORE_MODES[keyof typeof RESTORE_MODES];
+
+/**
+ * Restore the timeline and filed tax years of an exportUserData backup
+ */
+export interface RestoreBackupData {
+  revision: number;
+  mode: RestoreMode;
+  backup: UserDataExport;
 }
 
 /**
@@ -196,7 +449,10 @@ export interface ApiResponse<T = any> {
 // ============================================================================
 // HELPER FUNCTIONS
 // These provide backward-compatible access to profile data
-// They work with both new statusHistory and legacy fields
+// They work with both new statusHistory and legacy fields. The legacy
+// fallbacks are only reached for profiles below PROFILE_SCHEMA_VERSION 2,
+// which getUserInfo and the schema migration upgrade; they can go once every
+// stored profile is upgraded.
 // ============================================================================
 
 /**
@@ -213,9 +469,7 @@ export function getCurrentStatus(profile: UserProfile | null | undefined): Statu
     if (currentEntry) return currentEntry.status;
     
     // If all entries have end dates, return the most recent one
-    const sorted = [...profile.statusHistory].sort(
-      (a, b) => new Date(b.from).getTime() - new Date(a.from).getTime()
-    );
+    const sorted = [...profile.statusHistory].sort((a, b) => b.from.localeCompare(a.from));
     return sorted[0]?.status;
   }
   
@@ -241,7 +495,7 @@ export function getCurrentStatus(profile: UserProfile | null | undefined): Statu
  * Get PR date from profile
  * Prefers statusHistory, falls back to legacy prDate
  */
-export function getPRDate(profile: UserProfile | null | undefined): string | undefined {
+export function getPRDate(profile: UserProfile | null | undefined): LocalDate | undefined {
   if (!profile) return undefined;
   
   // Prefer statusHistory if available
@@ -274,14 +528,36 @@ export function hasCountableDays(profile: UserProfile | null | undefined): boole
   return currentStatus !== 'visitor';
 }
 
+/**
+ * Check if a protected person entry still needs its decision date confirmed
+ * Credit only starts on the date of the protection decision, not the claim date.
+ */
+export function needsProtectionDecisionDate(entry: StatusEntry): boolean {
+  return entry.status === 'protected_person' && !entry.decisionDateConfirmed;
+}
+
+/**
+ * Check if a status entry's start date was estimated and needs confirming
+ */
+export function needsStartDateConfirmation(entry: StatusEntry): boolean {
+  return !!entry.startDateEstimated;
+}
+
+/**
+ * Check if a stored profile predates the current profile format
+ */
+export function needsSchemaUpgrade(profile: Partial<UserProfile>): boolean {
+  return (profile.schemaVersion ?? 1) < PROFILE_SCHEMA_VERSION;
+}
+
 /**
  * Get all pre-PR presence entries from profile
  * Combines statusHistory (non-PR statuses) with legacy presenceInCanada
  */
-export function getPrePRPresence(profile: UserProfile | null | undefined): Array<{from: string; to: string; status: StatusType}> {
+export function getPrePRPresence(profile: UserProfile | null | undefined): Array<{from: LocalDate; to: LocalDate; status: StatusType}> {
   if (!profile) return [];
   
-  const entries: Array<{from: string; to: string; status: StatusType}> = [];
+  const entries: Array<{from: LocalDate; to: LocalDate; status: StatusType}> = [];
   
   // From statusHistory: get all non-PR statuses that have ended
   if (profile.statusHistory && profile.statusHistory.length > 0) {
@@ -324,9 +600,40 @@ export function getPrePRPresence(profile: UserProfile | null | undefined): Array
 
 /**
  * Convert legacy profile data to statusHistory format
- * Useful for migration
+ * Used to upgrade profiles to PROFILE_SCHEMA_VERSION 2, before the legacy
+ * fields are removed, so nothing they say is lost. A profile that already has
+ * a statusHistory keeps it; if it has no PR entry but the legacy fields say
+ * PR, one is added and the status open before it ends the day before.
+ * Legacy profiles have no start date for a current status (nor for PR
+ * without a prDate), so it starts today and is marked startDateEstimated for
+ * the user to confirm.
  */
 export function convertLegacyToStatusHistory(profile: UserProfile): StatusEntry[] {
+  const today = localDateOf(new Date());
+  const isLegacyPR = !!profile.prDate || profile.immigrationStatus === 'permanent_resident';
+  const legacyPREntry: StatusEntry = profile.prDate
+    ? { id: `pr-${Date.now()}`, status: 'permanent_resident', from: profile.prDate }
+    : { id: `pr-${Date.now()}`, status: 'permanent_resident', from: today, startDateEstimated: true };
+
+  if (profile.statusHistory && profile.statusHistory.length > 0) {
+    const hasPREntry = profile.statusHistory.some(entry => entry.status === 'permanent_resident');
+    if (hasPREntry || !isLegacyPR) {
+      return profile.statusHistory;
+    }
+
+    const [year, month, day] = legacyPREntry.from.split('-').map(Number);
+    const dayBefore = new Date(Date.UTC(year, month - 1, day - 1));
+    const previousEnd = localDateFromParts(
+      dayBefore.getUTCFullYear(),
+      dayBefore.getUTCMonth() + 1,
+      dayBefore.getUTCDate()
+    );
+    return profile.statusHistory
+      .map(entry => (!entry.to && entry.from <= previousEnd ? { ...entry, to: previousEnd } : entry))
+      .concat(legacyPREntry)
+      .sort((a, b) => a.from.localeCompare(b.from));
+  }
+
   const entries: StatusEntry[] = [];
   
   // Add pre-PR presence entries
@@ -351,15 +658,10 @@ export function convertLegacyToStatusHistory(profile: UserProfile): StatusEntry[
     });
   }
   
-  // Add PR entry if exists
-  if (profile.prDate && profile.immigrationStatus === 'permanent_resident') {
-    entries.push({
-      id: `pr-${Date.now()}`,
-      status: 'permanent_resident',
-      from: profile.prDate,
-      to: undefined, // Current/ongoing
-    });
-  } else if (profile.immigrationStatus && profile.immigrationStatus !== 'permanent_resident') {
+  // Add PR entry if exists (a legacy prDate counts as PR, as in getPRDate)
+  if (isLegacyPR) {
+    entries.push(legacyPREntry);
+  } else if (profile.immigrationStatus) {
     // Add current non-PR status
     const legacyToStatus: Record<string, StatusType> = {
       'visitor': 'visitor',
@@ -368,16 +670,18 @@ export function convertLegacyToStatusHistory(profile: UserProfile): StatusEntry[
     };
     
     // We don't have a start date for legacy status, so we'll use today
+    // and ask the user to confirm it
     entries.push({
       id: `current-${Date.now()}`,
       status: legacyToStatus[profile.immigrationStatus] || 'visitor',
-      from: new Date().toISOString().split('T')[0],
+      from: today,
       to: undefined, // Current/ongoing
+      startDateEstimated: true,
     });
   }
   
   // Sort by date (oldest first)
-  return entries.sort((a, b) => new Date(a.from).getTime() - new Date(b.from).getTime());
+  return entries.sort((a, b) => a.from.localeCompare(b.from));
 }
 
 // ============================================================================
@@ -386,3 +690,12 @@ export function convertLegacyToStatusHistory(profile: UserProfile): StatusEntry[
 
 // App version configuration types (for force update feature)
 export * from './appVersion';
+
+// Timezone-safe calendar dates
+export * from './localDate';
+
+// Backup restore (preview and apply)
+export * from './backup';
+
+// Runtime validation for callable payloads
+export * from './schemas';
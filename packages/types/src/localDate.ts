@@ -0,0 +1,64 @@
+/**
+ * LocalDate - calendar date without time or timezone
+ *
+ * Stored and transmitted as an ISO date string (YYYY-MM-DD). The brand stops
+ * arbitrary strings (or Date.toISOString() output, which is UTC and can be a
+ * day off for users west/east of UTC) from being used where a calendar date
+ * is expected. Arithmetic and comparison helpers live in
+ * @journey-to-citizen/calculations.
+ */
+
+declare const localDateBrand: unique symbol;
+
+/**
+ * ISO calendar date (YYYY-MM-DD)
+ */
+export type LocalDate = string & { readonly [localDateBrand]: true };
+
+const LOCAL_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Check if a value is a valid ISO calendar date (YYYY-MM-DD)
+ */
+export function isLocalDate(value: unknown): value is LocalDate {
+  if (typeof value !== 'string') return false;
+  const match = LOCAL_DATE_PATTERN.exec(value);
+  if (!match) return false;
+
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  const day = Number(match[3]);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+  );
+}
+
+/**
+ * Validate and brand an ISO date string
+ * @throws Error if the string is not a valid YYYY-MM-DD date
+ */
+export function toLocalDate(value: string): LocalDate {
+  if (!isLocalDate(value)) {
+    throw new Error(`Invalid date "${value}" (expected YYYY-MM-DD)`);
+  }
+  return value;
+}
+
+/**
+ * Build a LocalDate from calendar parts (month is 1-12)
+ */
+export function localDateFromParts(year: number, month: number, day: number): LocalDate {
+  const pad = (value: number, length: number) => ('000' + value).slice(-length);
+  return `${pad(year, 4)}-${pad(month, 2)}-${pad(day, 2)}` as LocalDate;
+}
+
+/**
+ * Calendar day of a Date in the device's timezone (what the user sees)
+ * Use for "today" and for dates coming from native date pickers.
+ */
+export function localDateOf(date: Date): LocalDate {
+  return localDateFromParts(date.getFullYear(), date.getMonth() + 1, date.getDate());
+}
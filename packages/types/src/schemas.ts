@@ -0,0 +1,412 @@
+/**
+ * Runtime schemas for callable payloads
+ *
+ * Small dependency-free validators shared by the Cloud Functions (which
+ * reject invalid payloads with field-level errors) and the frontend forms
+ * (which run the same checks before calling).
+ */
+
+import {
+  STATUS_TYPES,
+  ABSENCE_REASONS,
+  NON_COUNTABLE_PERIOD_TYPES,
+  PURPOSE_OF_STAY,
+  StatusEntry,
+  AbsenceEntry,
+  PresenceEntry,
+  NonCountablePeriod,
+  UpdateProfileData,
+  AddAbsenceData,
+  AddAbsencesData,
+  UpdateAbsenceData,
+  DeleteAbsenceData,
+  AddStatusData,
+  UpdateStatusData,
+  DeleteStatusData,
+  CloseCurrentStatusData,
+  GetEntriesPageData,
+  DELETION_STATUS,
+  RESTORE_MODES,
+  USER_DATA_EXPORT_VERSION,
+  UserDataExport,
+  RestoreBackupData,
+} from './index';
+import { isLocalDate } from './localDate';
+
+/**
+ * Validation error for one field (e.g. "travelAbsences[2].to")
+ */
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export type SchemaResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: FieldError[] };
+
+/**
+ * Validator for values of type T
+ */
+export interface Schema<T> {
+  /** Errors for a value (empty if valid); `field` names it in errors */
+  check(value: unknown, field: string): FieldError[];
+  /** Whether an object may omit the field */
+  readonly isOptional?: boolean;
+}
+
+type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+const valuesOf = <T extends Record<string, string>>(values: T): Array<T[keyof T]> =>
+  Object.keys(values).map((key) => values[key as keyof T]);
+
+const fail = (field: string, message: string): FieldError[] => [{ field, message }];
+
+// ============================================================================
+// PRIMITIVES
+// ============================================================================
+
+function string(options: { maxLength?: number; minLength?: number } = {}): Schema<string> {
+  return {
+    check: (value, field) => {
+      if (typeof value !== 'string') return fail(field, 'Must be text');
+      if (options.minLength !== undefined && value.length < options.minLength) {
+        return fail(field, options.minLength === 1 ? 'Is required' : `Must be at least ${options.minLength} characters`);
+      }
+      if (options.maxLength !== undefined && value.length > options.maxLength) {
+        return fail(field, `Must be at most ${options.maxLength} characters`);
+      }
+      return [];
+    },
+  };
+}
+
+function boolean(): Schema<boolean> {
+  return {
+    check: (value, field) => (typeof value === 'boolean' ? [] : fail(field, 'Must be true or false')),
+  };
+}
+
+function number(options: { integer?: boolean; min?: number; max?: number } = {}): Schema<number> {
+  return {
+    check: (value, field) => {
+      if (typeof value !== 'number' || !isFinite(value)) return fail(field, 'Must be a number');
+      if (options.integer && Math.floor(value) !== value) return fail(field, 'Must be a whole number');
+      if (options.min !== undefined && value < options.min) return fail(field, `Must be at least ${options.min}`);
+      if (options.max !== undefined && value > options.max) return fail(field, `Must be at most ${options.max}`);
+      return [];
+    },
+  };
+}
+
+/**
+ * ISO calendar date (YYYY-MM-DD)
+ */
+function localDate(): Schema<string> {
+  return {
+    check: (value, field) => (isLocalDate(value) ? [] : fail(field, 'Must be a valid date (YYYY-MM-DD)')),
+  };
+}
+
+function enumOf<T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    check: (value, field) =>
+      values.indexOf(value as T) !== -1 ? [] : fail(field, `Must be one of: ${values.join(', ')}`),
+  };
+}
+
+/**
+ * Optional field: may be missing, undefined or null
+ * (callables send undefined values as null)
+ */
+function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    isOptional: true,
+    check: (value, field) => (value === undefined || value === null ? [] : schema.check(value, field)),
+  };
+}
+
+/**
+ * Field that is always present but may be null
+ */
+function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    check: (value, field) => (value === null ? [] : schema.check(value, field)),
+  };
+}
+
+/**
+ * Any object; for informational data that isn't validated field by field
+ */
+function record<T extends object>(): Schema<T> {
+  return {
+    check: (value, field) =>
+      typeof value === 'object' && value !== null && !Array.isArray(value) ? [] : fail(field, 'Must be an object'),
+  };
+}
+
+function array<T>(item: Schema<T>, options: { maxItems?: number } = {}): Schema<T[]> {
+  return {
+    check: (value, field) => {
+      if (!Array.isArray(value)) return fail(field, 'Must be a list');
+      if (options.maxItems !== undefined && value.length > options.maxItems) {
+        return fail(field, `Must have at most ${options.maxItems} entries`);
+      }
+      const errors: FieldError[] = [];
+      value.forEach((entry, index) => errors.push(...item.check(entry, `${field}[${index}]`)));
+      return errors;
+    },
+  };
+}
+
+/**
+ * List of entries whose IDs are unique
+ */
+function uniqueIds<T extends { id: string }>(schema: Schema<T[]>): Schema<T[]> {
+  return {
+    check: (value, field) => {
+      const errors = schema.check(value, field);
+      if (errors.length > 0) return errors;
+      const seen: { [id: string]: boolean } = {};
+      (value as T[]).forEach((entry, index) => {
+        if (seen[entry.id]) errors.push({ field: `${field}[${index}].id`, message: 'Duplicate id' });
+        seen[entry.id] = true;
+      });
+      return errors;
+    },
+  };
+}
+
+/**
+ * Object with a fixed set of fields; unknown fields are rejected
+ */
+function object<T>(shape: Shape<T>): Schema<T> {
+  const keys = Object.keys(shape) as Array<keyof T & string>;
+  return {
+    check: (value, field) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return fail(field, 'Must be an object');
+      }
+      const record = value as Record<string, unknown>;
+      const name = (key: string) => (field ? `${field}.${key}` : key);
+      const errors: FieldError[] = [];
+
+      Object.keys(record).forEach((key) => {
+        if (keys.indexOf(key as keyof T & string) === -1) {
+          errors.push({ field: name(key), message: 'Unknown field' });
+        }
+      });
+      keys.forEach((key) => {
+        const schema: Schema<unknown> = shape[key];
+        if (!(key in record) && !schema.isOptional) {
+          errors.push({ field: name(key), message: 'Is required' });
+          return;
+        }
+        errors.push(...schema.check(record[key], name(key)));
+      });
+      return errors;
+    },
+  };
+}
+
+/**
+ * Validate a value against a schema
+ */
+export function parseSchema<T>(schema: Schema<T>, value: unknown): SchemaResult<T> {
+  const errors = schema.check(value, '');
+  return errors.length === 0
+    ? { success: true, data: value as T }
+    : { success: false, errors };
+}
+
+/**
+ * One-line message for the first error, for alerts and HttpsError messages
+ */
+export function formatFieldErrors(errors: FieldError[]): string {
+  if (errors.length === 0) return '';
+  const first = errors[0];
+  const more = errors.length > 1 ? ` (and ${errors.length - 1} more)` : '';
+  return `${first.field ? `${first.field}: ` : ''}${first.message}${more}`;
+}
+
+// ============================================================================
+// ENTRY SCHEMAS
+// ============================================================================
+
+const MAX_ID_LENGTH = 100;
+
+/** Maximum entries per list (kept in sync with firestore.rules) */
+export const PROFILE_LIMITS = {
+  DISPLAY_NAME_LENGTH: 100,
+  PLACE_LENGTH: 100,
+  STATUS_HISTORY: 50,
+  PRESENCE_IN_CANADA: 200,
+  TRAVEL_ABSENCES: 1000,
+  NON_COUNTABLE_PERIODS: 50,
+  FILED_TAX_YEARS: 100,
+  ENTRIES_PAGE_SIZE: 500,
+} as const;
+
+// Entry IDs are used as Firestore document IDs in the entry subcollections:
+// no "/" or dots, and not Firestore's reserved __name__ form
+const ENTRY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const RESERVED_ID_PATTERN = /^__.*__$/;
+
+function entryId(): Schema<string> {
+  const base = string({ minLength: 1, maxLength: MAX_ID_LENGTH });
+  return {
+    check: (value, field) => {
+      const errors = base.check(value, field);
+      if (errors.length > 0) return errors;
+      if (!ENTRY_ID_PATTERN.test(value as string)) {
+        return fail(field, 'May only contain letters, numbers, - and _');
+      }
+      if (RESERVED_ID_PATTERN.test(value as string)) return fail(field, 'Is reserved');
+      return [];
+    },
+  };
+}
+
+const revision = () => number({ integer: true, min: 0 });
+
+export const statusEntrySchema: Schema<StatusEntry> = object<StatusEntry>({
+  id: entryId(),
+  status: enumOf(valuesOf(STATUS_TYPES)),
+  from: localDate(),
+  to: optional(localDate()),
+  decisionDateConfirmed: optional(boolean()),
+  startDateEstimated: optional(boolean()),
+});
+
+export const absenceEntrySchema: Schema<AbsenceEntry> = object<AbsenceEntry>({
+  id: entryId(),
+  from: localDate(),
+  to: optional(localDate()),
+  place: optional(string({ maxLength: PROFILE_LIMITS.PLACE_LENGTH })),
+  reason: optional(enumOf(valuesOf(ABSENCE_REASONS))),
+});
+
+export const presenceEntrySchema: Schema<PresenceEntry> = object<PresenceEntry>({
+  id: entryId(),
+  from: localDate(),
+  to: localDate(),
+  purpose: enumOf(valuesOf(PURPOSE_OF_STAY)),
+});
+
+export const nonCountablePeriodSchema: Schema<NonCountablePeriod> = object<NonCountablePeriod>({
+  id: entryId(),
+  type: enumOf(valuesOf(NON_COUNTABLE_PERIOD_TYPES)),
+  from: localDate(),
+  to: optional(localDate()),
+});
+
+// ============================================================================
+// CALLABLE PAYLOAD SCHEMAS
+// ============================================================================
+
+export const updateProfileDataSchema: Schema<UpdateProfileData> = object<UpdateProfileData>({
+  displayName: optional(string({ maxLength: PROFILE_LIMITS.DISPLAY_NAME_LENGTH })),
+  profileComplete: optional(boolean()),
+  statusHistory: optional(uniqueIds(array(statusEntrySchema, { maxItems: PROFILE_LIMITS.STATUS_HISTORY }))),
+  immigrationStatus: optional(enumOf(['visitor', 'student', 'worker', 'permanent_resident'] as const)),
+  prDate: optional(localDate()),
+  presenceInCanada: optional(array(presenceEntrySchema, { maxItems: PROFILE_LIMITS.PRESENCE_IN_CANADA })),
+  travelAbsences: optional(uniqueIds(array(absenceEntrySchema, { maxItems: PROFILE_LIMITS.TRAVEL_ABSENCES }))),
+  nonCountablePeriods: optional(
+    uniqueIds(array(nonCountablePeriodSchema, { maxItems: PROFILE_LIMITS.NON_COUNTABLE_PERIODS }))
+  ),
+  filedTaxYears: optional(
+    array(number({ integer: true, min: 1900, max: 2100 }), { maxItems: PROFILE_LIMITS.FILED_TAX_YEARS })
+  ),
+  revision: optional(revision()),
+});
+
+export const addAbsenceDataSchema: Schema<AddAbsenceData> = object<AddAbsenceData>({
+  revision: revision(),
+  absence: absenceEntrySchema,
+});
+
+export const addAbsencesDataSchema: Schema<AddAbsencesData> = object<AddAbsencesData>({
+  revision: revision(),
+  absences: uniqueIds(array(absenceEntrySchema, { maxItems: PROFILE_LIMITS.TRAVEL_ABSENCES })),
+});
+
+export const updateAbsenceDataSchema: Schema<UpdateAbsenceData> = object<UpdateAbsenceData>({
+  revision: revision(),
+  absence: absenceEntrySchema,
+});
+
+export const deleteAbsenceDataSchema: Schema<DeleteAbsenceData> = object<DeleteAbsenceData>({
+  revision: revision(),
+  absenceId: entryId(),
+});
+
+export const addStatusDataSchema: Schema<AddStatusData> = object<AddStatusData>({
+  revision: revision(),
+  status: statusEntrySchema,
+});
+
+export const updateStatusDataSchema: Schema<UpdateStatusData> = object<UpdateStatusData>({
+  revision: revision(),
+  status: statusEntrySchema,
+});
+
+export const deleteStatusDataSchema: Schema<DeleteStatusData> = object<DeleteStatusData>({
+  revision: revision(),
+  statusId: entryId(),
+});
+
+export const closeCurrentStatusDataSchema: Schema<CloseCurrentStatusData> = object<CloseCurrentStatusData>({
+  revision: revision(),
+  to: localDate(),
+});
+
+export const getEntriesPageDataSchema: Schema<GetEntriesPageData> = object<GetEntriesPageData>({
+  pageSize: optional(number({ integer: true, min: 1, max: PROFILE_LIMITS.ENTRIES_PAGE_SIZE })),
+  startAfter: optional(entryId()),
+});
+
+// ============================================================================
+// DATA EXPORT SCHEMAS
+// ============================================================================
+
+/**
+ * Published schema of the exportUserData JSON document
+ * Backups from this and older export versions are accepted.
+ */
+export const userDataExportSchema: Schema<UserDataExport> = object<UserDataExport>({
+  exportVersion: number({ integer: true, min: 1, max: USER_DATA_EXPORT_VERSION }),
+  exportedAt: string({ minLength: 1 }),
+  account: object<UserDataExport['account']>({
+    uid: string({ minLength: 1 }),
+    email: nullable(string()),
+  }),
+  profile: object<UserDataExport['profile']>({
+    displayName: nullable(string({ maxLength: PROFILE_LIMITS.DISPLAY_NAME_LENGTH })),
+    profileComplete: boolean(),
+    filedTaxYears: array(number({ integer: true, min: 1900, max: 2100 }), { maxItems: PROFILE_LIMITS.FILED_TAX_YEARS }),
+    schemaVersion: number({ integer: true, min: 1 }),
+    revision: number({ integer: true, min: 0 }),
+    createdAt: nullable(string()),
+    updatedAt: nullable(string()),
+    immigrationStatus: optional(enumOf(['visitor', 'student', 'worker', 'permanent_resident'] as const)),
+    prDate: optional(localDate()),
+    presenceInCanada: optional(array(presenceEntrySchema, { maxItems: PROFILE_LIMITS.PRESENCE_IN_CANADA })),
+  }),
+  statusHistory: uniqueIds(array(statusEntrySchema, { maxItems: PROFILE_LIMITS.STATUS_HISTORY })),
+  travelAbsences: uniqueIds(array(absenceEntrySchema, { maxItems: PROFILE_LIMITS.TRAVEL_ABSENCES })),
+  nonCountablePeriods: uniqueIds(array(nonCountablePeriodSchema, { maxItems: PROFILE_LIMITS.NON_COUNTABLE_PERIODS })),
+  // Recomputed after a restore, so only the shape is checked
+  staticEligibility: nullable(record<NonNullable<UserDataExport['staticEligibility']>>()),
+  deletion: object<UserDataExport['deletion']>({
+    status: enumOf(valuesOf(DELETION_STATUS)),
+    scheduledAt: nullable(string()),
+    executionDate: nullable(localDate()),
+  }),
+});
+
+export const restoreBackupDataSchema: Schema<RestoreBackupData> = object<RestoreBackupData>({
+  revision: revision(),
+  mode: enumOf(valuesOf(RESTORE_MODES)),
+  backup: userDataExportSchema,
+});